@@ -0,0 +1,41 @@
+const { maskSecret, maskTenantConfig } = require('../routes/admin');
+const { Logger } = require('../utils/logger');
+
+describe('Admin tenant config', () => {
+  test('should mask credentials and keep the rest', () => {
+    const masked = maskTenantConfig({
+      tokenSecret: 'short',
+      BOTDOJO_API_KEY: 'sk-live-0123456789abcdef',
+      BOTDOJO_BASE_URL: 'https://api.botdojo.com',
+      SOURCE_AUTH_TOKEN: 'catalog-token-0123456789',
+      allowedOrigins: ['https://clinic-a.example'],
+      RATE_LIMITS: { chat: { clientMax: 30 } }
+    });
+
+    expect(masked).toEqual({
+      tokenSecret: '****',
+      BOTDOJO_API_KEY: '****cdef',
+      BOTDOJO_BASE_URL: 'https://api.botdojo.com',
+      SOURCE_AUTH_TOKEN: '****6789',
+      allowedOrigins: ['https://clinic-a.example'],
+      RATE_LIMITS: { chat: { clientMax: 30 } }
+    });
+    expect(maskSecret('')).toBe('****');
+  });
+});
+
+describe('Logger recent entries', () => {
+  test('should keep the latest entries and filter by request id and level', () => {
+    const logger = new Logger(3);
+    logger.info('one', { requestId: 'a' });
+    logger.warn('two', { requestId: 'b' });
+    logger.debug('not buffered', { requestId: 'a' });
+    logger.http('three', { requestId: 'a' });
+    logger.error('four', { requestId: 'a' });
+
+    expect(logger.recent().map((entry) => entry.message)).toEqual(['two', 'three', 'four']);
+    expect(logger.recent({ requestId: 'a' }).map((entry) => entry.message)).toEqual(['three', 'four']);
+    expect(logger.recent({ level: 'error' })).toEqual([expect.objectContaining({ message: 'four', level: 'error', requestId: 'a' })]);
+    expect(logger.recent({ limit: 1 }).map((entry) => entry.message)).toEqual(['four']);
+  });
+});
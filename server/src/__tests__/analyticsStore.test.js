@@ -0,0 +1,74 @@
+const { SqliteAnalyticsRepository, normalizeQuestion } = require('../utils/analyticsStore');
+
+const clinicA = { tenantId: 'clinic-a', practitionerId: 'prac-1' };
+const clinicB = { tenantId: 'clinic-b', practitionerId: 'prac-2' };
+
+describe('SqliteAnalyticsRepository', () => {
+  let repository;
+
+  beforeEach(() => {
+    repository = new SqliteAnalyticsRepository(':memory:');
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  test('should count questions together regardless of case, spacing and closing punctuation', async () => {
+    await repository.record(clinicA, [
+      { type: 'question_asked', conversationId: 'conv-1', messageId: 'msg-1', question: 'What helps with sleep?' },
+      { type: 'question_asked', conversationId: 'conv-2', messageId: 'msg-2', question: 'what  helps with SLEEP' },
+      { type: 'question_asked', conversationId: 'conv-2', messageId: 'msg-3', question: 'Is zinc safe?' },
+      { type: 'suggestion_clicked', conversationId: 'conv-2', question: 'Is zinc safe?' }
+    ]);
+    await repository.record(clinicB, [
+      { type: 'question_asked', conversationId: 'conv-3', messageId: 'msg-4', question: 'Is zinc safe?' }
+    ]);
+
+    const questions = await repository.topQuestions({ tenantId: 'clinic-a', limit: 10 });
+    expect(questions).toEqual([
+      expect.objectContaining({ tenantId: 'clinic-a', question: 'what  helps with SLEEP', count: 2 }),
+      expect.objectContaining({ tenantId: 'clinic-a', question: 'Is zinc safe?', count: 1 })
+    ]);
+    expect(await repository.topQuestions({ limit: 10 })).toHaveLength(3);
+  });
+
+  test('should report recommendations and click-through rate per SKU and tenant', async () => {
+    await repository.record(clinicA, [
+      { type: 'products_shown', conversationId: 'conv-1', messageId: 'msg-1', skus: ['SKU-1', 'SKU-2'] },
+      { type: 'products_shown', conversationId: 'conv-1', messageId: 'msg-2', skus: ['SKU-1'] },
+      { type: 'product_selected', conversationId: 'conv-1', messageId: 'msg-1', sku: 'SKU-2' },
+      // A second click on the same recommendation counts once
+      { type: 'product_selected', conversationId: 'conv-1', messageId: 'msg-1', sku: 'SKU-2' }
+    ]);
+    await repository.record(clinicB, [
+      { type: 'products_shown', conversationId: 'conv-2', messageId: 'msg-3', skus: ['SKU-1'] },
+      { type: 'product_selected', conversationId: 'conv-2', messageId: 'msg-3', sku: 'SKU-1' }
+    ]);
+
+    const byShown = await repository.skuStats({ tenantId: 'clinic-a', limit: 10 }, { sort: 'shown', minShown: 1 });
+    expect(byShown).toEqual([
+      { tenantId: 'clinic-a', sku: 'SKU-1', shown: 2, clicks: 0, clickThroughRate: 0 },
+      { tenantId: 'clinic-a', sku: 'SKU-2', shown: 1, clicks: 1, clickThroughRate: 1 }
+    ]);
+
+    const byRate = await repository.skuStats({ limit: 10 }, { sort: 'clickThroughRate', minShown: 1 });
+    expect(byRate.map((stats) => [stats.tenantId, stats.sku])).toEqual([
+      ['clinic-b', 'SKU-1'], ['clinic-a', 'SKU-2'], ['clinic-a', 'SKU-1']
+    ]);
+    expect(await repository.skuStats({ limit: 10 }, { sort: 'shown', minShown: 2 })).toHaveLength(1);
+  });
+
+  test('should filter by time', async () => {
+    await repository.record(clinicA, [{ type: 'question_asked', question: 'Is zinc safe?' }]);
+
+    expect(await repository.topQuestions({ since: Date.now() + 60000, limit: 10 })).toEqual([]);
+    expect(await repository.topQuestions({ until: Date.now() + 60000, limit: 10 })).toHaveLength(1);
+  });
+});
+
+describe('normalizeQuestion', () => {
+  test('should ignore case, repeated spaces and closing punctuation', () => {
+    expect(normalizeQuestion('  What helps with   SLEEP?! ')).toBe('what helps with sleep');
+  });
+});
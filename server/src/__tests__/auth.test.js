@@ -0,0 +1,217 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { verifyJwt, InMemoryJwksKeySet, FileJwksKeySet } = require('../utils/jwt');
+const { Authenticator } = require('../utils/auth');
+const { TenantRegistry, InMemoryTenantStore } = require('../utils/tenantRegistry');
+const { SessionStore } = require('../utils/sessionStore');
+const { signTenantToken } = require('../utils/tenantToken');
+
+// Sign a JWT with a private key (RS*, PS*, ES*) or an HMAC secret (HS*)
+function signJwt(claims, alg, key, kid) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT', ...(kid && { kid }) })).toString('base64url');
+  const body = Buffer.from(JSON.stringify({ iat: now, exp: now + 300, ...claims })).toString('base64url');
+  const data = `${header}.${body}`;
+  const hash = `sha${alg.substring(2)}`;
+
+  let signature;
+  if (alg.startsWith('HS')) {
+    signature = crypto.createHmac(hash, key).update(data).digest('base64url');
+  } else {
+    signature = crypto.sign(hash, Buffer.from(data), {
+      key,
+      ...(alg.startsWith('ES') && { dsaEncoding: 'ieee-p1363' }),
+      ...(alg.startsWith('PS') && { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST })
+    }).toString('base64url');
+  }
+  return `${data}.${signature}`;
+}
+
+function createRequest({ headers = {}, body = {} } = {}) {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { headers: lower, body, get: (name) => lower[name.toLowerCase()] };
+}
+
+const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwks = new InMemoryJwksKeySet({
+  keys: [
+    { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1', use: 'sig' },
+    { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' }
+  ]
+});
+
+describe('verifyJwt', () => {
+  test('should verify HMAC, RSA, RSA-PSS and EC tokens', () => {
+    expect(verifyJwt(signJwt({ sub: 'u1' }, 'HS384', 'secret'), { secret: 'secret' }).sub).toBe('u1');
+    expect(verifyJwt(signJwt({ sub: 'u2' }, 'RS256', rsa.privateKey, 'rsa-1'), { jwks }).sub).toBe('u2');
+    expect(verifyJwt(signJwt({ sub: 'u3' }, 'PS256', rsa.privateKey), { jwks }).sub).toBe('u3');
+    expect(verifyJwt(signJwt({ sub: 'u4' }, 'ES256', ec.privateKey, 'ec-1'), { jwks }).sub).toBe('u4');
+  });
+
+  test('should reject tokens signed by another key or with the wrong kid', () => {
+    const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    expect(() => verifyJwt(signJwt({}, 'RS256', other.privateKey), { jwks })).toThrow('Invalid token signature');
+    expect(() => verifyJwt(signJwt({}, 'ES256', ec.privateKey, 'rsa-1'), { jwks })).toThrow('Invalid token signature');
+  });
+
+  test('should not accept algorithms without a matching key', () => {
+    // A public key must never be usable as an HMAC secret
+    const publicPem = rsa.publicKey.export({ type: 'spki', format: 'pem' });
+    expect(() => verifyJwt(signJwt({}, 'HS256', publicPem), { jwks })).toThrow('Unsupported token algorithm');
+    expect(() => verifyJwt(signJwt({}, 'RS256', rsa.privateKey), { secret: 'secret' })).toThrow('Unsupported token algorithm');
+
+    const unsigned = signJwt({}, 'HS256', 'secret').split('.');
+    unsigned[0] = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+    expect(() => verifyJwt(`${unsigned[0]}.${unsigned[1]}.`, { secret: 'secret' })).toThrow('Unsupported token algorithm');
+  });
+
+  test('should reject algorithm names inherited from Object.prototype with 401', () => {
+    for (const alg of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      const parts = signJwt({}, 'HS256', 'secret').split('.');
+      parts[0] = Buffer.from(JSON.stringify({ alg })).toString('base64url');
+      expect(() => verifyJwt(parts.join('.'), { secret: 'secret', jwks })).toThrow(expect.objectContaining({
+        statusCode: 401,
+        code: 'token_invalid'
+      }));
+    }
+  });
+
+  test('should keep the last JWKS when the file goes missing', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwks-'));
+    const file = path.join(dir, 'jwks.json');
+    fs.writeFileSync(file, JSON.stringify({ keys: [{ ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' }] }));
+    try {
+      const fileJwks = new FileJwksKeySet(file);
+      fs.unlinkSync(file);
+
+      expect(verifyJwt(signJwt({ sub: 'u1' }, 'RS256', rsa.privateKey, 'rsa-1'), { jwks: fileJwks }).sub).toBe('u1');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should check expiry, issuer and audience', () => {
+    const past = Math.floor(Date.now() / 1000) - 3600;
+    const expired = signJwt({ iat: past, exp: past + 60 }, 'HS256', 'secret');
+    expect(() => verifyJwt(expired, { secret: 'secret' })).toThrow(expect.objectContaining({ statusCode: 401, code: 'token_expired' }));
+
+    const token = signJwt({ iss: 'portal', aud: ['chatbot', 'other'] }, 'HS256', 'secret');
+    expect(() => verifyJwt(token, { secret: 'secret' }, { issuer: 'portal', audience: 'chatbot' })).not.toThrow();
+    expect(() => verifyJwt(token, { secret: 'secret' }, { issuer: 'someone-else' })).toThrow('unexpected issuer');
+    expect(() => verifyJwt(token, { secret: 'secret' }, { audience: 'admin' })).toThrow('different audience');
+  });
+});
+
+describe('Authenticator', () => {
+  const tenant = {
+    tokenSecret: 'clinic-a-secret',
+    allowedOrigins: ['https://clinic-a.example'],
+    BOTDOJO_API_KEY: 'botdojo-key',
+    BOTDOJO_BASE_URL: 'https://test.example.com',
+    BOTDOJO_ACCOUNT_ID: 'account',
+    BOTDOJO_PROJECT_ID: 'project',
+    BOTDOJO_TEXT_FLOW_ID: 'text-flow',
+    BOTDOJO_PRODUCTS_FLOW_ID: 'products-flow'
+  };
+  const config = {
+    jwtSecret: 'host-secret',
+    required: true,
+    tokenMaxAgeSeconds: 900,
+    allowedOrigins: ['https://portal.example']
+  };
+  let sessions;
+  let authenticator;
+
+  beforeEach(() => {
+    sessions = new SessionStore({ ttlSeconds: 60, maxSessions: 10, maxSessionsPerTenant: 10 });
+    const registry = new TenantRegistry(new InMemoryTenantStore({ 'clinic-a': tenant }), 900);
+    authenticator = new Authenticator(config, jwks, registry, sessions);
+  });
+
+  afterEach(() => {
+    sessions.close();
+  });
+
+  test('should require credentials when enforcement is on', async () => {
+    await expect(authenticator.authenticate(createRequest())).rejects.toMatchObject({ statusCode: 401, code: 'token_required' });
+    await expect(authenticator.authenticate(createRequest({ headers: { Authorization: 'Bearer botdojo-key' } })))
+      .rejects.toMatchObject({ statusCode: 401, code: 'token_invalid' });
+
+    const open = new Authenticator({ ...config, jwtSecret: undefined, required: false }, undefined, new TenantRegistry(null, 900), sessions);
+    await expect(open.authenticate(createRequest())).resolves.toEqual({ method: 'anonymous' });
+  });
+
+  test('should accept host, tenant and session credentials', async () => {
+    const host = signJwt({ sub: 'practitioner-1' }, 'HS256', 'host-secret');
+    await expect(authenticator.authenticate(createRequest({ headers: { Authorization: `Bearer ${host}` } })))
+      .resolves.toEqual({ method: 'host', subject: 'practitioner-1', tenantId: undefined });
+
+    const tenantToken = signTenantToken({ tid: 'clinic-a', sub: 'practitioner-2' }, tenant.tokenSecret);
+    await expect(authenticator.authenticate(createRequest({ headers: { Authorization: `Bearer ${tenantToken}` }, body: { tenantId: 'clinic-a' } })))
+      .resolves.toEqual({ method: 'tenant', tenantId: 'clinic-a', subject: 'practitioner-2' });
+
+    const { token } = sessions.create({ TENANT_ID: 'clinic-a' });
+    await expect(authenticator.authenticate(createRequest({ headers: { 'X-Session-Token': token } })))
+      .resolves.toEqual({ method: 'session', tenantId: 'clinic-a' });
+    await expect(authenticator.authenticate(createRequest({ headers: { 'X-Session-Token': 'revoked' } })))
+      .rejects.toMatchObject({ statusCode: 401, code: 'session_invalid' });
+  });
+
+  test('should only allow a tenant from its own origins', async () => {
+    const tenantToken = signTenantToken({ tid: 'clinic-a' }, tenant.tokenSecret);
+    const request = (origin) => createRequest({ headers: { Authorization: `Bearer ${tenantToken}`, Origin: origin }, body: { tenantId: 'clinic-a' } });
+
+    await expect(authenticator.authenticate(request('https://clinic-a.example'))).resolves.toMatchObject({ method: 'tenant' });
+    // The server-wide list does not apply to tenants with their own
+    await expect(authenticator.authenticate(request('https://portal.example')))
+      .rejects.toMatchObject({ statusCode: 403, code: 'origin_not_allowed' });
+
+    const host = signJwt({}, 'ES256', ec.privateKey, 'ec-1');
+    await expect(authenticator.authenticate(createRequest({ headers: { Authorization: `Bearer ${host}`, Origin: 'https://portal.example' } })))
+      .resolves.toMatchObject({ method: 'host' });
+    await expect(authenticator.authenticate(createRequest({ headers: { Authorization: `Bearer ${host}`, Origin: 'https://evil.example' } })))
+      .rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  test('should allow CORS for any configured origin', async () => {
+    await expect(authenticator.isOriginAllowed('https://clinic-a.example')).resolves.toBe(true);
+    await expect(authenticator.isOriginAllowed('https://portal.example')).resolves.toBe(true);
+    await expect(authenticator.isOriginAllowed('https://evil.example')).resolves.toBe(false);
+    await expect(authenticator.isOriginAllowed(undefined)).resolves.toBe(true);
+  });
+});
+
+describe('Authenticator admin access', () => {
+  const config = { jwtSecret: 'host-secret', required: true, tokenMaxAgeSeconds: 900, allowedOrigins: [], adminToken: 'admin-token-0123456789', adminRole: 'admin' };
+  const bearer = (token) => createRequest({ headers: { Authorization: `Bearer ${token}` } });
+  let sessions;
+
+  beforeEach(() => {
+    sessions = new SessionStore({ ttlSeconds: 60, maxSessions: 10, maxSessionsPerTenant: 10 });
+  });
+
+  afterEach(() => {
+    sessions.close();
+  });
+
+  test('should accept the admin token or a host token with the admin role', () => {
+    const authenticator = new Authenticator(config, undefined, new TenantRegistry(null, 900), sessions);
+
+    expect(authenticator.authenticateAdmin(bearer('admin-token-0123456789'))).toEqual({ method: 'admin' });
+    expect(authenticator.authenticateAdmin(bearer(signJwt({ sub: 'ops', roles: ['support', 'admin'] }, 'HS256', 'host-secret'))))
+      .toEqual({ method: 'admin', subject: 'ops' });
+
+    expect(() => authenticator.authenticateAdmin(createRequest())).toThrow(expect.objectContaining({ statusCode: 401, code: 'token_required' }));
+    expect(() => authenticator.authenticateAdmin(bearer('guess'))).toThrow(expect.objectContaining({ statusCode: 401 }));
+    expect(() => authenticator.authenticateAdmin(bearer(signJwt({ sub: 'practitioner', role: 'user' }, 'HS256', 'host-secret'))))
+      .toThrow(expect.objectContaining({ statusCode: 403, code: 'admin_role_required' }));
+  });
+
+  test('should hide the admin API when no admin credentials are configured', () => {
+    const authenticator = new Authenticator({ ...config, jwtSecret: undefined, adminToken: undefined }, undefined, new TenantRegistry(null, 900), sessions);
+    expect(() => authenticator.authenticateAdmin(bearer('anything'))).toThrow(expect.objectContaining({ statusCode: 404 }));
+  });
+});
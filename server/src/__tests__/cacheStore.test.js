@@ -0,0 +1,341 @@
+const { MemoryCacheStore, RedisCacheStore } = require('../utils/cacheStore');
+const { CacheManager } = require('../utils/cacheManager');
+
+/**
+ * In-memory fake of the Redis commands used by RedisCacheStore
+ */
+class FakeRedis {
+  constructor() {
+    this.data = new Map(); // key -> { value, expiresAt }
+  }
+
+  entry(key) {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get(key) {
+    const entry = this.entry(key);
+    return entry ? entry.value : null;
+  }
+
+  async set(key, value, token, seconds) {
+    this.data.set(key, { value, expiresAt: token === 'EX' ? Date.now() + seconds * 1000 : 0 });
+    return 'OK';
+  }
+
+  async del(...keys) {
+    return keys.filter((key) => this.entry(key) && this.data.delete(key)).length;
+  }
+
+  async exists(...keys) {
+    return keys.filter((key) => this.entry(key)).length;
+  }
+
+  async pttl(key) {
+    const entry = this.entry(key);
+    if (!entry) return -2;
+    return entry.expiresAt ? entry.expiresAt - Date.now() : -1;
+  }
+
+  async expire(key, seconds) {
+    const entry = this.entry(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }
+
+  async persist(key) {
+    const entry = this.entry(key);
+    if (!entry || !entry.expiresAt) return 0;
+    entry.expiresAt = 0;
+    return 1;
+  }
+
+  async mget(...keys) {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async scan(cursor, matchToken, pattern) {
+    const prefix = pattern.replace(/\\(.)/g, '$1').replace(/\*$/, '');
+    const keys = [...this.data.keys()].filter((key) => this.entry(key) && key.startsWith(prefix));
+    return ['0', keys];
+  }
+
+  async quit() {
+    return 'OK';
+  }
+}
+
+const backends = [
+  ['memory', () => new MemoryCacheStore()],
+  ['redis (fake)', () => new RedisCacheStore(new FakeRedis(), 'test:cache:')]
+];
+
+// Run the same contract against a real server with REDIS_TEST_URL=redis://localhost:6379/15
+if (process.env.REDIS_TEST_URL) {
+  const Redis = require('ioredis');
+  backends.push(['redis', () => new RedisCacheStore(new Redis(process.env.REDIS_TEST_URL), `test:cache:${Date.now()}:`)]);
+}
+
+describe.each(backends)('CacheStore contract: %s', (_name, createStore) => {
+  let store;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await store.clear();
+    await store.close();
+  });
+
+  test('should round-trip JSON values', async () => {
+    await store.set('botdojo:abc', { response: { text: 'Hello', products: [] } }, 60);
+
+    expect(await store.get('botdojo:abc')).toEqual({ response: { text: 'Hello', products: [] } });
+    expect(await store.has('botdojo:abc')).toBe(true);
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  test('should list keys by prefix', async () => {
+    await store.set('botdojo:1', 'a', 60);
+    await store.set('botdojo:2', 'b', 60);
+    await store.set('suggestions:1', 'c', 60);
+
+    expect((await store.keys()).sort()).toEqual(['botdojo:1', 'botdojo:2', 'suggestions:1']);
+    expect((await store.keys('botdojo:')).sort()).toEqual(['botdojo:1', 'botdojo:2']);
+  });
+
+  test('should report and update TTLs', async () => {
+    await store.set('key', 'value', 60);
+
+    const expiresAt = await store.getTtl('key');
+    expect(expiresAt).toBeGreaterThan(Date.now() + 50 * 1000);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+
+    expect(await store.setTtl('key', 600)).toBe(true);
+    expect(await store.getTtl('key')).toBeGreaterThan(Date.now() + 500 * 1000);
+    expect(await store.getTtl('missing')).toBeUndefined();
+  });
+
+  test('should delete and clear keys', async () => {
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+
+    await store.clear();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  test('should report stats', async () => {
+    await store.set('a', 'value', 60);
+
+    const stats = await store.stats();
+    expect(stats.keys).toBe(1);
+    expect(stats.ksize).toBeGreaterThan(0);
+    expect(stats.vsize).toBeGreaterThan(0);
+  });
+});
+
+describe('RedisCacheStore', () => {
+  test('should keep keys inside its namespace', async () => {
+    const redis = new FakeRedis();
+    await redis.set('other:key', 'untouched');
+    const store = new RedisCacheStore(redis, 'test:cache:');
+
+    await store.set('a', 1, 60);
+    expect(await store.keys()).toEqual(['a']);
+
+    await store.clear();
+    expect(await redis.get('other:key')).toBe('untouched');
+  });
+});
+
+describe('CacheManager', () => {
+  const scope = {
+    tenantId: 'clinic-a',
+    accountId: 'account-1',
+    projectId: 'project-1',
+    flowId: 'text-flow',
+    store: 'store-1',
+    productSource: 'cux'
+  };
+
+  test('should track hits and misses across backends', async () => {
+    const cache = new CacheManager(new RedisCacheStore(new FakeRedis()), 300);
+
+    expect(await cache.getSuggestions(scope, 'sleep', 0)).toBeUndefined();
+    await cache.setSuggestions(scope, 'sleep', 0, { suggestedQuestions: [['Q1']] });
+    expect(await cache.getSuggestions(scope, 'sleep', 0)).toEqual({ suggestedQuestions: [['Q1']] });
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, keys: 1, backend: 'redis' });
+  });
+
+  test('should treat backend failures as misses', async () => {
+    const failing = new FakeRedis();
+    failing.get = async () => { throw new Error('Connection is closed.'); };
+    failing.set = async () => { throw new Error('Connection is closed.'); };
+    const cache = new CacheManager(new RedisCacheStore(failing), 300);
+
+    await expect(cache.setBotDojoResponse(scope, 'hello', { response: {} })).resolves.toBeUndefined();
+    await expect(cache.getBotDojoResponse(scope, 'hello')).resolves.toBeUndefined();
+  });
+
+  test('should not collide on long messages sharing a prefix', async () => {
+    const cache = new CacheManager(new MemoryCacheStore(), 300);
+    const prefix = 'What are the best supplements for '.repeat(5);
+
+    await cache.setBotDojoResponse(scope, `${prefix}sleep?`, { response: { text: 'sleep' } });
+    await cache.setBotDojoResponse(scope, `${prefix}energy?`, { response: { text: 'energy' } });
+
+    expect(await cache.getBotDojoResponse(scope, `${prefix}sleep?`)).toEqual({ response: { text: 'sleep' } });
+    expect(await cache.getBotDojoResponse(scope, `${prefix}energy?`)).toEqual({ response: { text: 'energy' } });
+    expect((await cache.getKeys()).every((key) => key.length < 120)).toBe(true);
+  });
+
+  test('should scope entries by tenant, flow, store, product source and credentials', async () => {
+    const cache = new CacheManager(new MemoryCacheStore(), 300);
+    await cache.setBotDojoResponse(scope, 'hello', { response: { text: 'clinic-a' } });
+
+    const otherScopes = [
+      { ...scope, tenantId: 'clinic-b' },
+      { ...scope, projectId: 'project-2' },
+      { ...scope, flowId: 'products-flow' },
+      { ...scope, store: 'store-2' },
+      { ...scope, productSource: 'fullscript' },
+      { ...scope, credentialDigest: 'other-key' }
+    ];
+    for (const other of otherScopes) {
+      expect(await cache.getBotDojoResponse(other, 'hello')).toBeUndefined();
+    }
+  });
+
+  test('should cache SKU lists per products flow scope', async () => {
+    const cache = new CacheManager(new MemoryCacheStore(), 300);
+    const productsScope = { ...scope, flowId: 'products-flow' };
+
+    await cache.setProductSkus(productsScope, 'magnesium', ['SKU-1', 'SKU-2']);
+
+    expect(await cache.getProductSkus(productsScope, 'magnesium')).toEqual(['SKU-1', 'SKU-2']);
+    expect(await cache.getProductSkus({ ...productsScope, store: 'store-2' }, 'magnesium')).toBeUndefined();
+  });
+
+  describe('product details (stale-while-revalidate)', () => {
+    const catalogScope = {
+      tenantId: 'clinic-a',
+      accountId: 'account-1',
+      sourceApiBaseUrl: 'https://catalog.example.com',
+      store: 'store-1',
+      productSource: 'catalog'
+    };
+    const options = { freshSeconds: 60, staleSeconds: 3600 };
+    let realNow;
+
+    beforeEach(() => {
+      realNow = Date.now;
+    });
+
+    afterEach(() => {
+      Date.now = realNow;
+    });
+
+    test('should serve fresh entries without calling the loader', async () => {
+      const cache = new CacheManager(new MemoryCacheStore(), 300);
+      const loader = jest.fn().mockResolvedValue({ name: 'Magnesium', hide_on_curation: true });
+
+      await cache.getProductDetail(catalogScope, 'SKU-1', loader, options);
+      const second = await cache.getProductDetail(catalogScope, 'SKU-1', loader, options);
+
+      expect(second).toEqual({ name: 'Magnesium', hide_on_curation: true });
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    test('should serve stale entries and refresh them once in the background', async () => {
+      const cache = new CacheManager(new MemoryCacheStore(), 300);
+      await cache.getProductDetail(catalogScope, 'SKU-1', async () => ({ price: 10 }), options);
+
+      const start = realNow();
+      Date.now = () => start + 120 * 1000;
+
+      let resolveRefresh;
+      const loader = jest.fn(() => new Promise((resolve) => { resolveRefresh = resolve; }));
+      expect(await cache.getProductDetail(catalogScope, 'SKU-1', loader, options)).toEqual({ price: 10 });
+      expect(await cache.getProductDetail(catalogScope, 'SKU-1', loader, options)).toEqual({ price: 10 });
+      expect(loader).toHaveBeenCalledTimes(1);
+
+      resolveRefresh({ price: 12 });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await cache.getProductDetail(catalogScope, 'SKU-1', loader, options)).toEqual({ price: 12 });
+    });
+
+    test('should keep the stale entry when the refresh fails', async () => {
+      const cache = new CacheManager(new MemoryCacheStore(), 300);
+      await cache.getProductDetail(catalogScope, 'SKU-1', async () => ({ price: 10 }), options);
+
+      const start = realNow();
+      Date.now = () => start + 120 * 1000;
+      await cache.getProductDetail(catalogScope, 'SKU-1', async () => { throw new Error('502'); }, options);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const loader = jest.fn().mockResolvedValue({ price: 11 });
+      expect(await cache.getProductDetail(catalogScope, 'SKU-1', loader, options)).toEqual({ price: 10 });
+      await new Promise((resolve) => setImmediate(resolve));
+    });
+
+    test('should not cache loader failures on a miss', async () => {
+      const cache = new CacheManager(new MemoryCacheStore(), 300);
+
+      await expect(cache.getProductDetail(catalogScope, 'SKU-1', async () => { throw new Error('404'); }, options)).rejects.toThrow('404');
+      expect(await cache.getProductDetail(catalogScope, 'SKU-1', async () => ({ price: 10 }), options)).toEqual({ price: 10 });
+    });
+
+    test('should key details by store, source and credentials', async () => {
+      const cache = new CacheManager(new MemoryCacheStore(), 300);
+      await cache.getProductDetail(catalogScope, 'SKU-1', async () => ({ store: 1 }), options);
+
+      const loader = jest.fn().mockResolvedValue({ store: 2 });
+      expect(await cache.getProductDetail({ ...catalogScope, store: 'store-2' }, 'SKU-1', loader, options)).toEqual({ store: 2 });
+      expect(await cache.getProductDetail({ ...catalogScope, sourceApiBaseUrl: 'https://other.example.com' }, 'SKU-1', loader, options)).toEqual({ store: 2 });
+      expect(await cache.getProductDetail({ ...catalogScope, credentialDigest: 'other-token' }, 'SKU-1', loader, options)).toEqual({ store: 2 });
+      expect(loader).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  test('should clear a single tenant', async () => {
+    const cache = new CacheManager(new MemoryCacheStore(), 300);
+    const legacyScope = { ...scope, tenantId: undefined };
+    await cache.setBotDojoResponse(scope, 'hello', { response: { text: 'a' } });
+    await cache.setSuggestions(scope, 'sleep', 0, { suggestedQuestions: [] });
+    await cache.setBotDojoResponse({ ...scope, tenantId: 'clinic-b' }, 'hello', { response: { text: 'b' } });
+    await cache.setBotDojoResponse(legacyScope, 'hello', { response: { text: 'legacy' } });
+
+    expect(await cache.clearTenant({ tenantId: 'clinic-a', accountId: '' })).toBe(2);
+    expect(await cache.getBotDojoResponse(scope, 'hello')).toBeUndefined();
+    expect(await cache.getBotDojoResponse({ ...scope, tenantId: 'clinic-b' }, 'hello')).toEqual({ response: { text: 'b' } });
+
+    expect(await cache.clearTenant({ accountId: 'account-1' })).toBe(1);
+    expect(await cache.getBotDojoResponse(legacyScope, 'hello')).toBeUndefined();
+  });
+
+  test('should delete keys by prefix', async () => {
+    const cache = new CacheManager(new MemoryCacheStore(), 300);
+    await cache.setBotDojoResponse(scope, 'hello', { response: { text: 'a' } });
+    await cache.setSuggestions(scope, 'sleep', 0, { suggestedQuestions: [] });
+
+    const [suggestionsKey] = (await cache.getKeys()).filter((key) => key.includes(':suggestions:'));
+    const prefix = suggestionsKey.substring(0, suggestionsKey.lastIndexOf(':') + 1);
+
+    expect(await cache.deleteByPrefix(prefix)).toBe(1);
+    expect(await cache.getSuggestions(scope, 'sleep', 0)).toBeUndefined();
+    expect(await cache.getBotDojoResponse(scope, 'hello')).toEqual({ response: { text: 'a' } });
+  });
+});
@@ -0,0 +1,135 @@
+const { EventEmitter } = require('events');
+const WebSocket = require('ws');
+const { ChatSocketConnection, parseClientFrame } = require('../utils/chatSocket');
+const { StreamRegistry } = require('../utils/streamRegistry');
+
+// Minimal stand-in for a ws WebSocket
+function createSocket() {
+  const socket = new EventEmitter();
+  socket.readyState = WebSocket.OPEN;
+  socket.frames = [];
+  socket.send = (data) => socket.frames.push(JSON.parse(data));
+  socket.ping = jest.fn();
+  socket.terminate = jest.fn(() => {
+    socket.readyState = WebSocket.CLOSED;
+    socket.emit('close');
+  });
+  return socket;
+}
+
+describe('parseClientFrame', () => {
+  test('should accept chat.send and chat.cancel frames', () => {
+    const send = { type: 'chat.send', id: 't1', sessionToken: 'token', message: 'hi' };
+    expect(parseClientFrame(JSON.stringify(send))).toEqual(send);
+    expect(parseClientFrame('{"type":"chat.cancel","id":"t1","extra":true}')).toEqual({ type: 'chat.cancel', id: 't1' });
+  });
+
+  test('should reject malformed frames', () => {
+    expect(() => parseClientFrame('not json')).toThrow('Frame must be a JSON object');
+    expect(() => parseClientFrame('[]')).toThrow('Frame must be a JSON object');
+    expect(() => parseClientFrame('{"type":"chat.cancel"}')).toThrow('Frame id');
+    expect(() => parseClientFrame('{"type":"chat.send","id":"t1","message":"hi"}')).toThrow('sessionToken');
+    expect(() => parseClientFrame('{"type":"chat.resume","id":"t1"}')).toThrow('Unknown frame type: chat.resume');
+  });
+});
+
+describe('ChatSocketConnection', () => {
+  const config = { heartbeatMs: 0, replayMaxEvents: 10, replayTtlMs: 1000, resumeGraceMs: 500 };
+  let registry;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new StreamRegistry(config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should forward turn events under the client id and end the turn', () => {
+    const socket = createSocket();
+    const connection = new ChatSocketConnection(socket);
+    const run = registry.create('tenant=a:');
+
+    expect(connection.reserve('t1')).toBe(true);
+    expect(connection.attach('t1', run)).toBe(true);
+    run.push({ type: 'text.delta', delta: 'Hi' });
+    run.finish();
+
+    expect(socket.frames).toEqual([
+      { type: 'chat.started', id: 't1', streamId: run.id },
+      { type: 'chat.event', id: 't1', eventId: `${run.id}:1`, event: { type: 'text.delta', delta: 'Hi' } },
+      { type: 'chat.end', id: 't1' }
+    ]);
+    // The id can be reused once the turn has ended
+    expect(connection.reserve('t1')).toBe(true);
+  });
+
+  test('should cancel only its own running turns', () => {
+    const connection = new ChatSocketConnection(createSocket());
+    const run = registry.create('tenant=a:');
+    connection.reserve('t1');
+    connection.attach('t1', run);
+
+    expect(connection.reserve('t1')).toBe(false);
+    expect(connection.cancel('other')).toBe(false);
+    expect(connection.cancel('t1')).toBe(true);
+    expect(run.signal.aborted).toBe(true);
+    expect(run.isFinished).toBe(true);
+  });
+
+  test('should refuse a second frame with an id still being authenticated', () => {
+    const connection = new ChatSocketConnection(createSocket());
+
+    expect(connection.reserve('t1')).toBe(true);
+    expect(connection.reserve('t1')).toBe(false);
+    connection.release('t1');
+    expect(connection.reserve('t1')).toBe(true);
+  });
+
+  test('should cancel a turn stopped while it was being authenticated', () => {
+    const socket = createSocket();
+    const connection = new ChatSocketConnection(socket);
+    const run = registry.create('tenant=a:');
+
+    connection.reserve('t1');
+    expect(connection.cancel('t1')).toBe(true);
+    expect(connection.attach('t1', run)).toBe(false);
+
+    expect(run.signal.aborted).toBe(true);
+    expect(socket.frames).toEqual([{ type: 'chat.end', id: 't1' }]);
+    expect(connection.reserve('t1')).toBe(true);
+  });
+
+  test('should leave turns running for the grace period when the socket closes', () => {
+    const socket = createSocket();
+    const connection = new ChatSocketConnection(socket);
+    const run = registry.create('tenant=a:');
+    connection.reserve('t1');
+    connection.attach('t1', run);
+    run.push({ type: 'text.delta', delta: 'early' });
+
+    socket.readyState = WebSocket.CLOSED;
+    socket.emit('close');
+    run.push({ type: 'text.delta', delta: 'late' });
+
+    expect(run.signal.aborted).toBe(false);
+    expect(socket.frames).toHaveLength(2);
+    jest.advanceTimersByTime(config.resumeGraceMs);
+    expect(run.signal.aborted).toBe(true);
+  });
+
+  test('should terminate a client that misses a heartbeat pong', () => {
+    const socket = createSocket();
+    new ChatSocketConnection(socket, 1000);
+
+    jest.advanceTimersByTime(1000);
+    expect(socket.ping).toHaveBeenCalledTimes(1);
+    socket.emit('pong');
+    jest.advanceTimersByTime(1000);
+    expect(socket.terminate).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(socket.terminate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,119 @@
+const { CircuitBreaker, CircuitBreakerRegistry } = require('../utils/circuitBreaker');
+
+describe('CircuitBreaker', () => {
+  let breaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker('flow-a', { failureThreshold: 3, resetTimeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should stay closed below the failure threshold', () => {
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2, lastFailure: 'timeout' });
+  });
+
+  test('should reset the failure count on success', () => {
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+    breaker.recordSuccess();
+    breaker.recordFailure('timeout');
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  test('should open at the threshold and reject requests', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('HTTP 503');
+    }
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.snapshot().state).toBe('open');
+    expect(breaker.snapshot().openedAt).not.toBeNull();
+  });
+
+  test('should let a single trial through after the reset timeout', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('HTTP 503');
+    }
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  test('should re-open when the trial fails', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('HTTP 503');
+    }
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure('HTTP 503');
+
+    expect(breaker.snapshot().state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  test('should free the trial slot on release', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('HTTP 503');
+    }
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.release();
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  const flow = (flowId, overrides = {}) => ({ baseUrl: 'https://botdojo.example', accountId: 'acct', projectId: 'proj', flowId, ...overrides });
+
+  test('should share one breaker per flow', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    expect(registry.get(flow('flow-a'))).toBe(registry.get(flow('flow-a')));
+    expect(registry.get(flow('flow-b'))).not.toBe(registry.get(flow('flow-a')));
+
+    registry.get(flow('flow-a')).recordFailure('timeout');
+    expect(registry.snapshot()).toEqual([
+      expect.objectContaining({ name: 'https://botdojo.example acct/proj/flow-b', state: 'closed' }),
+      expect.objectContaining({ name: 'https://botdojo.example acct/proj/flow-a', state: 'open' })
+    ]);
+    expect(registry.summary()).toEqual({ total: 2, closed: 1, open: 1, half_open: 0 });
+  });
+
+  test('should not share a circuit with the same flow id on another base URL, account or project', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    registry.get(flow('flow-a', { baseUrl: 'https://failing.example' })).recordFailure('502');
+    registry.get(flow('flow-a', { accountId: 'other' })).recordFailure('502');
+    registry.get(flow('flow-a', { projectId: 'other' })).recordFailure('502');
+
+    expect(registry.get(flow('flow-a')).tryAcquire()).toBe(true);
+  });
+
+  test('should drop the least recently used circuit beyond its size', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1, resetTimeoutMs: 1000 }, 2);
+    const first = registry.get(flow('flow-a'));
+    registry.get(flow('flow-b'));
+    registry.get(flow('flow-a'));
+    registry.get(flow('flow-c'));
+
+    expect(registry.summary().total).toBe(2);
+    expect(registry.get(flow('flow-a'))).toBe(first);
+    expect(registry.snapshot().map((circuit) => circuit.name)).not.toContain('https://botdojo.example acct/proj/flow-b');
+  });
+});
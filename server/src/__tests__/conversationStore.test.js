@@ -0,0 +1,131 @@
+const express = require('express');
+const request = require('supertest');
+const { SqliteConversationRepository, getConversationOwner } = require('../utils/conversationStore');
+const { createConversationsRouter } = require('../routes/conversations');
+const { errorHandler } = require('../utils/errorHandler');
+
+const alice = { tenantId: 'clinic-a', practitionerId: 'alice' };
+const bob = { tenantId: 'clinic-a', practitionerId: 'bob' };
+
+const turn = (text, answer) => [
+  { role: 'user', text, createdAt: '2026-01-05T10:00:00.000Z' },
+  {
+    role: 'assistant',
+    text: answer,
+    createdAt: '2026-01-05T10:00:04.000Z',
+    suggestedQuestions: ['What about for kids?'],
+    skus: ['SKU-1'],
+    products: [{ sku: 'SKU-1', name: 'Magnesium' }],
+    timings: { firstTokenMs: 800, totalMs: 4000 }
+  }
+];
+
+describe('SqliteConversationRepository', () => {
+  let repository;
+
+  beforeEach(() => {
+    repository = new SqliteConversationRepository(':memory:');
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  test('should store turns with their suggestions, products and timings', async () => {
+    await repository.appendMessages(alice, 'conv-1', turn('What helps with sleep?', 'Magnesium may help.'));
+    await repository.appendMessages(alice, 'conv-1', turn('Dose?', '200 mg.'));
+
+    const conversation = await repository.get(alice, 'conv-1');
+    expect(conversation).toMatchObject({ id: 'conv-1', title: 'What helps with sleep?', messageCount: 4 });
+    expect(conversation.messages[1]).toEqual(turn('', 'Magnesium may help.')[1]);
+    expect(conversation.messages.map((message) => message.text)).toEqual(['What helps with sleep?', 'Magnesium may help.', 'Dose?', '200 mg.']);
+  });
+
+  test('should scope conversations to their practitioner', async () => {
+    await repository.appendMessages(alice, 'conv-1', turn('Alice asks', 'Answer'));
+
+    expect(await repository.get(bob, 'conv-1')).toBeUndefined();
+    expect(await repository.list(bob, { limit: 10 })).toEqual([]);
+    expect(await repository.delete(bob, 'conv-1')).toBe(false);
+    expect(await repository.get({ ...alice, tenantId: 'clinic-b' }, 'conv-1')).toBeUndefined();
+  });
+
+  test('should list the most recently updated conversations first and page with before', async () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await repository.appendMessages(alice, 'conv-old', turn('Old', 'Answer'));
+    now.mockReturnValue(2000);
+    await repository.appendMessages(alice, 'conv-new', turn('New', 'Answer'));
+    now.mockRestore();
+
+    const [first, second] = await repository.list(alice, { limit: 10 });
+    expect([first.id, second.id]).toEqual(['conv-new', 'conv-old']);
+    expect(first.messageCount).toBe(2);
+    expect((await repository.list(alice, { limit: 10, before: 2000 })).map((c) => c.id)).toEqual(['conv-old']);
+  });
+
+  test('should delete a conversation with its messages', async () => {
+    await repository.appendMessages(alice, 'conv-1', turn('Question', 'Answer'));
+
+    expect(await repository.delete(alice, 'conv-1')).toBe(true);
+    expect(await repository.get(alice, 'conv-1')).toBeUndefined();
+    await repository.appendMessages(alice, 'conv-1', turn('Again', 'Answer'));
+    expect((await repository.get(alice, 'conv-1')).messageCount).toBe(2);
+  });
+});
+
+describe('Conversations router', () => {
+  let repository;
+
+  const createApp = (auth, store = repository) => {
+    const app = express();
+    app.use((req, res, next) => {
+      res.locals.auth = auth;
+      next();
+    });
+    app.use('/conversations', createConversationsRouter(store));
+    app.use(errorHandler);
+    return app;
+  };
+
+  beforeEach(async () => {
+    repository = new SqliteConversationRepository(':memory:');
+    await repository.appendMessages(alice, 'conv-1', turn('What helps with sleep?', 'Magnesium may help.'));
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  test('should list, read and delete the practitioner\'s conversations', async () => {
+    const app = createApp({ method: 'session', tenantId: 'clinic-a', subject: 'alice' });
+
+    const list = await request(app).get('/conversations?limit=5');
+    expect(list.status).toBe(200);
+    expect(list.body.conversations).toEqual([expect.objectContaining({ id: 'conv-1', messageCount: 2 })]);
+
+    const conversation = await request(app).get('/conversations/conv-1');
+    expect(conversation.body.messages).toHaveLength(2);
+
+    expect((await request(app).delete('/conversations/conv-1')).body).toEqual({ deleted: true });
+    expect((await request(app).get('/conversations/conv-1')).status).toBe(404);
+  });
+
+  test('should not show another practitioner\'s conversation', async () => {
+    const app = createApp({ method: 'session', tenantId: 'clinic-a', subject: 'bob' });
+
+    expect((await request(app).get('/conversations/conv-1')).status).toBe(404);
+    expect((await request(app).delete('/conversations/conv-1')).status).toBe(404);
+  });
+
+  test('should require a practitioner and an enabled store', async () => {
+    expect((await request(createApp({ method: 'anonymous' })).get('/conversations')).status).toBe(403);
+    expect((await request(createApp({ method: 'session', subject: 'alice' }, null)).get('/conversations')).status).toBe(404);
+    expect((await request(createApp({ method: 'session', subject: 'alice' })).get('/conversations?limit=0')).status).toBe(400);
+  });
+
+  test('should derive the owner from the auth context', () => {
+    expect(getConversationOwner({ method: 'host', tenantId: 'clinic-a', subject: 'alice' })).toEqual(alice);
+    expect(getConversationOwner({ method: 'tenant', tenantId: 'clinic-a' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+const crypto = require('crypto');
+const { loadKeyStore, getPublicKey, getCurrentKeyId, decryptData, isEncryptedData } = require('../utils/encryption');
+
+function generatePrivateKeyPem() {
+  return crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  }).privateKey;
+}
+
+function rsaEncrypt(publicKeyPem, data) {
+  return crypto.publicEncrypt(
+    { key: publicKeyPem, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(data)
+  ).toString('base64');
+}
+
+function hybridEncrypt(publicKeyPem, data) {
+  const aesKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', aesKey, iv);
+  const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  const encryptedKey = crypto.publicEncrypt(
+    { key: publicKeyPem, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    aesKey
+  );
+  return Buffer.concat([encryptedKey, iv, encrypted]).toString('base64');
+}
+
+describe('Encryption keystore', () => {
+  const oldKey = generatePrivateKeyPem();
+  const newKey = generatePrivateKeyPem();
+
+  beforeEach(() => {
+    loadKeyStore({ keysJson: JSON.stringify({ '2026-01': oldKey, '2026-10': newKey }) });
+  });
+
+  test('should advertise the last key id by default', () => {
+    expect(getCurrentKeyId()).toBe('2026-10');
+    expect(getPublicKey()).toContain('BEGIN PUBLIC KEY');
+  });
+
+  test('should honour an explicit active key id', () => {
+    loadKeyStore({ keysJson: JSON.stringify({ '2026-01': oldKey, '2026-10': newKey }), activeKeyId: '2026-01' });
+    expect(getCurrentKeyId()).toBe('2026-01');
+  });
+
+  test('should reject an active key id missing from the keystore', () => {
+    expect(() => loadKeyStore({ keysJson: JSON.stringify({ '2026-01': oldKey }), activeKeyId: 'missing' }))
+      .toThrow('not present in the keystore');
+  });
+
+  test('should decrypt direct RSA ciphertext with an embedded key id', () => {
+    const publicKey = crypto.createPublicKey(oldKey).export({ type: 'spki', format: 'pem' });
+    const encrypted = `rsa:2026-01:${rsaEncrypt(publicKey, '{"a":1}')}`;
+
+    expect(isEncryptedData(encrypted)).toBe(true);
+    expect(decryptData(encrypted)).toBe('{"a":1}');
+  });
+
+  test('should decrypt hybrid ciphertext with an embedded key id', () => {
+    const payload = JSON.stringify({ BOTDOJO_API_KEY: 'x'.repeat(600) });
+    const encrypted = `hybrid:2026-10:${hybridEncrypt(getPublicKey(), payload)}`;
+
+    expect(decryptData(encrypted)).toBe(payload);
+  });
+
+  test('should try every active key for legacy ciphertext without a key id', () => {
+    const publicKey = crypto.createPublicKey(oldKey).export({ type: 'spki', format: 'pem' });
+
+    expect(decryptData(rsaEncrypt(publicKey, 'legacy'))).toBe('legacy');
+    expect(decryptData(`hybrid:${hybridEncrypt(publicKey, 'legacy hybrid')}`)).toBe('legacy hybrid');
+  });
+
+  test('should reject unknown key ids', () => {
+    expect(() => decryptData(`rsa:retired:${rsaEncrypt(getPublicKey(), 'x')}`))
+      .toThrow('Unknown encryption key id "retired"');
+  });
+});
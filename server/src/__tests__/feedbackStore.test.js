@@ -0,0 +1,91 @@
+const { SqliteFeedbackRepository, formatFeedbackCsv } = require('../utils/feedbackStore');
+
+const feedback = (overrides = {}) => ({
+  tenantId: 'clinic-a',
+  practitionerId: 'prac-1',
+  messageId: 'msg-1',
+  conversationId: 'conv-1',
+  requestId: 'req_1',
+  target: 'answer',
+  rating: 'not_helpful',
+  reasons: ['inaccurate'],
+  comment: 'Magnesium glycinate, not oxide',
+  question: 'What helps with sleep?',
+  answer: 'Magnesium oxide may help.',
+  skus: ['SKU-1', 'SKU-2'],
+  ...overrides
+});
+
+describe('SqliteFeedbackRepository', () => {
+  let repository;
+
+  beforeEach(() => {
+    repository = new SqliteFeedbackRepository(':memory:');
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  test('should replace earlier feedback on the same answer or product', async () => {
+    const first = await repository.save(feedback({ rating: 'helpful', reasons: [], comment: undefined }));
+    const second = await repository.save(feedback({ requestId: undefined }));
+    const product = await repository.save(feedback({ target: 'product', sku: 'SKU-2', reasons: ['contraindicated'] }));
+
+    expect(second.id).toBe(first.id);
+    expect(second).toMatchObject({ rating: 'not_helpful', reasons: ['inaccurate'], requestId: 'req_1', createdAt: first.createdAt });
+    expect(product.id).not.toBe(first.id);
+
+    const records = await repository.list({ limit: 10 });
+    expect(records).toHaveLength(2);
+    expect(records.find((record) => record.target === 'product')).toMatchObject({ sku: 'SKU-2', skus: ['SKU-1', 'SKU-2'] });
+  });
+
+  test('should keep feedback of different practitioners apart', async () => {
+    await repository.save(feedback());
+    await repository.save(feedback({ practitionerId: 'prac-2' }));
+
+    expect(await repository.list({ limit: 10 })).toHaveLength(2);
+  });
+
+  test('should filter by tenant, rating, target and time', async () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(Date.parse('2026-03-01T00:00:00Z'));
+    await repository.save(feedback());
+    now.mockReturnValue(Date.parse('2026-03-02T00:00:00Z'));
+    await repository.save(feedback({ messageId: 'msg-2', rating: 'helpful', reasons: [] }));
+    await repository.save(feedback({ tenantId: undefined, accountId: 'account-9', messageId: 'msg-3' }));
+    now.mockRestore();
+
+    const ids = (records) => records.map((record) => record.messageId);
+    expect(ids(await repository.list({ limit: 10, tenantId: 'clinic-a' }))).toEqual(['msg-2', 'msg-1']);
+    expect(ids(await repository.list({ limit: 10, tenantId: 'account-9' }))).toEqual(['msg-3']);
+    expect(ids(await repository.list({ limit: 10, rating: 'helpful' }))).toEqual(['msg-2']);
+    expect(ids(await repository.list({ limit: 10, target: 'product' }))).toEqual([]);
+    expect(ids(await repository.list({ limit: 10, until: Date.parse('2026-03-02T00:00:00Z') }))).toEqual(['msg-1']);
+    expect(await repository.list({ limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe('formatFeedbackCsv', () => {
+  test('should write a header and one escaped row per record', () => {
+    const csv = formatFeedbackCsv([{
+      id: 'f-1',
+      createdAt: '2026-03-01T00:00:00.000Z',
+      updatedAt: '2026-03-01T00:00:00.000Z',
+      tenantId: 'clinic-a',
+      messageId: 'msg-1',
+      target: 'answer',
+      rating: 'not_helpful',
+      reasons: ['inaccurate', 'other'],
+      comment: 'Said "cures", line one\nline two',
+      question: '=HYPERLINK("x")',
+      answer: 'Plain',
+      skus: ['SKU-1', 'SKU-2']
+    }]);
+
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('id,createdAt,updatedAt,tenantId,accountId,practitionerId,conversationId,messageId,requestId,target,sku,rating,reasons,comment,question,answer,skus');
+    expect(row).toBe('f-1,2026-03-01T00:00:00.000Z,2026-03-01T00:00:00.000Z,clinic-a,,,,msg-1,,answer,,not_helpful,inaccurate|other,"Said ""cures"", line one\nline two","\'=HYPERLINK(""x"")",Plain,SKU-1|SKU-2');
+  });
+});
@@ -0,0 +1,64 @@
+const { Guardrails } = require('../utils/guardrails');
+
+const config = (rules = {}) => ({ enabled: true, rules, blockMessage: 'Please ask your practitioner.' });
+
+describe('Guardrails', () => {
+  test('should pass answers that match no rule', () => {
+    const review = new Guardrails(config()).createReview('What helps with sleep?');
+
+    expect(review.finish('Magnesium glycinate is popular for sleep.')).toEqual({ text: 'Magnesium glycinate is popular for sleep.' });
+  });
+
+  test('should append a disclaimer to dosage claims', () => {
+    const review = new Guardrails(config()).createReview('How much magnesium?');
+    const { text, report } = review.finish('Most adults take 200 mg in the evening.');
+
+    expect(text).toMatch(/^Most adults take 200 mg in the evening\.\n\nAmounts mentioned here are general guidance/);
+    expect(report).toMatchObject({ action: 'disclaimer', findings: [{ rule: 'dosage', category: 'dosage', action: 'disclaimer', source: 'answer' }] });
+  });
+
+  test('should remove sentences with disease-cure claims', () => {
+    const review = new Guardrails(config()).createReview('Tell me about turmeric');
+    const { text, report } = review.finish('Turmeric is a spice. It cures arthritis in weeks. Take it with food.');
+
+    expect(text).toBe('Turmeric is a spice. Take it with food.\n\nSupplements are not intended to diagnose, treat, cure or prevent any disease.');
+    expect(report.action).toBe('rewrite');
+  });
+
+  test('should report pregnancy context from the user message', () => {
+    const review = new Guardrails(config()).createReview('I am pregnant, is iron okay?');
+    const { report } = review.finish('Iron needs go up in later months.');
+
+    expect(report.findings).toEqual([{ rule: 'pregnancy', category: 'pregnancy', action: 'disclaimer', source: 'message' }]);
+    expect(report.disclaimers).toHaveLength(1);
+  });
+
+  test('should keep a blocked answer withheld while it streams', () => {
+    const review = new Guardrails(config({ cure_claim: { action: 'block' } })).createReview('Does it help?');
+
+    expect(review.apply('It is a popular')).toBe('It is a popular');
+    expect(review.apply('It is a popular miracle cure')).toBe('Please ask your practitioner.');
+    expect(review.apply('It is a popular miracle cure for many.')).toBe('Please ask your practitioner.');
+    expect(review.finish('It is a popular miracle cure for many.')).toEqual({
+      text: 'Please ask your practitioner.',
+      report: { action: 'block', findings: [{ rule: 'cure_claim', category: 'cure_claim', action: 'block', source: 'answer' }], disclaimers: [] }
+    });
+  });
+
+  test('should support custom rules and dropping built-in ones', () => {
+    const guardrails = new Guardrails(config({
+      pediatric: null,
+      detox: { pattern: '\\bdetox\\b', scope: 'message', action: 'block' }
+    }));
+
+    expect(guardrails.createReview('Is this safe for children?').finish('Yes.')).toEqual({ text: 'Yes.' });
+    const review = guardrails.createReview('Best detox plan?');
+    expect(review.isBlocked).toBe(true);
+    expect(review.finish('').report.findings).toEqual([{ rule: 'detox', category: 'custom', action: 'block', source: 'message' }]);
+  });
+
+  test('should reject rules without a pattern or with an unknown category', () => {
+    expect(() => new Guardrails(config({ mine: { action: 'flag' } }))).toThrow('Safety rule "mine" needs a pattern');
+    expect(() => new Guardrails(config({ mine: { pattern: 'x', category: 'allergy' } }))).toThrow('unknown category: allergy');
+  });
+});
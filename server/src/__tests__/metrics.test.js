@@ -0,0 +1,70 @@
+const { Metrics, metrics } = require('../utils/metrics');
+const { MemoryCacheStore } = require('../utils/cacheStore');
+const { CacheManager } = require('../utils/cacheManager');
+
+describe('Metrics', () => {
+  let instance;
+
+  beforeEach(() => {
+    instance = new Metrics('test_', false);
+  });
+
+  test('should label requests by route pattern and tenant', async () => {
+    instance.observeHttpRequest({ method: 'POST', route: '/chat/stream', status: 200, tenantId: 'clinic-a' }, 0.2);
+    instance.observeHttpRequest({ method: 'POST', route: '/chat/stream', status: 429 }, 0.01);
+
+    const output = await instance.render();
+    expect(output).toContain('test_http_requests_total{method="POST",route="/chat/stream",status="200",tenant="clinic-a"} 1');
+    expect(output).toContain('test_http_requests_total{method="POST",route="/chat/stream",status="429",tenant="none"} 1');
+    expect(output).toContain('test_http_request_duration_seconds_bucket{le="0.25",method="POST",route="/chat/stream",status="200",tenant="clinic-a"} 1');
+  });
+
+  test('should record BotDojo timings per flow and outcome', async () => {
+    instance.observeBotDojoFirstToken('flow-text', 'clinic-a', 0.8);
+    instance.observeBotDojoRun('flow-text', 'clinic-a', 'success', 4);
+    instance.observeBotDojoRun('flow-text', 'clinic-a', 'timeout', 30);
+
+    const output = await instance.render();
+    expect(output).toContain('test_botdojo_first_token_seconds_count{flow="flow-text",tenant="clinic-a"} 1');
+    expect(output).toContain('test_botdojo_run_duration_seconds_count{flow="flow-text",tenant="clinic-a",outcome="success"} 1');
+    expect(output).toContain('test_botdojo_run_duration_seconds_count{flow="flow-text",tenant="clinic-a",outcome="timeout"} 1');
+  });
+
+  test('should only count a closed SSE stream once', async () => {
+    const closeFirst = instance.sseConnectionOpened('clinic-a');
+    instance.sseConnectionOpened('clinic-a');
+    closeFirst();
+    closeFirst();
+
+    expect(await instance.render()).toContain('test_sse_connections_open{tenant="clinic-a"} 1');
+  });
+
+  test('should count rejections and upstream failures', async () => {
+    instance.recordRateLimitRejection('chat', 'client', 'clinic-a');
+    instance.recordProductInfoFailure(503, 'clinic-a');
+    instance.recordProductInfoFailure('network');
+
+    const output = await instance.render();
+    expect(output).toContain('test_rate_limit_rejections_total{route="chat",scope="client",tenant="clinic-a"} 1');
+    expect(output).toContain('test_product_info_upstream_failures_total{status="503",tenant="clinic-a"} 1');
+    expect(output).toContain('test_product_info_upstream_failures_total{status="network",tenant="none"} 1');
+  });
+});
+
+describe('CacheManager metrics', () => {
+  test('should count hits and misses per namespace and tenant', async () => {
+    const cache = new CacheManager(new MemoryCacheStore({ checkperiod: 0 }), 60);
+    const scope = { tenantId: 'clinic b', accountId: 'account', projectId: 'project', flowId: 'flow' };
+
+    await cache.getSuggestions(scope, 'context', 0);
+    await cache.setSuggestions(scope, 'context', 0, ['What helps with sleep?']);
+    await cache.getSuggestions(scope, 'context', 0);
+    await cache.getProductSkus({ ...scope, tenantId: undefined }, 'magnesium');
+
+    const output = await metrics.render();
+    expect(output).toContain('chatbot_cache_hits_total{namespace="suggestions",tenant="clinic b"} 1');
+    expect(output).toContain('chatbot_cache_misses_total{namespace="suggestions",tenant="clinic b"} 1');
+    expect(output).toContain('chatbot_cache_misses_total{namespace="products",tenant="none"} 1');
+    await cache.close();
+  });
+});
@@ -0,0 +1,172 @@
+const { RateLimiter, MemoryRateLimitStore, RedisRateLimitStore } = require('../utils/rateLimiter');
+const { RateLimitError } = require('../utils/errorHandler');
+
+// In-memory stand-in for the INCR / EXPIRE / PTTL subset of Redis
+function createFakeRedis() {
+  const counters = new Map();
+  return {
+    counters,
+    async incr(key) {
+      const entry = counters.get(key) || { value: 0, expiresAt: null };
+      entry.value++;
+      counters.set(key, entry);
+      return entry.value;
+    },
+    async get(key) {
+      const entry = counters.get(key);
+      return entry ? String(entry.value) : null;
+    },
+    async expire(key, seconds) {
+      counters.get(key).expiresAt = Date.now() + seconds * 1000;
+      return 1;
+    },
+    async pttl(key) {
+      const entry = counters.get(key);
+      if (!entry) return -2;
+      return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+    }
+  };
+}
+
+describe('RateLimiter', () => {
+  const rule = { windowSeconds: 60, tenantMax: 3, clientMax: 2 };
+  const config = {
+    backend: 'memory',
+    keyPrefix: 'rl:',
+    routes: { chat: rule, products: rule, suggestions: rule, session: { ...rule, clientMax: 0 } },
+    ip: { windowSeconds: 60, max: 5, authFailureMax: 2 }
+  };
+  let store;
+  let limiter;
+
+  const alice = { tenantKey: 'tenant=clinic:', clientKey: 'session=alice' };
+  const bob = { tenantKey: 'tenant=clinic:', clientKey: 'session=bob' };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryRateLimitStore();
+    limiter = new RateLimiter(store, config);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    jest.useRealTimers();
+  });
+
+  test('should limit each client and report when to retry', async () => {
+    await limiter.consume('chat', alice);
+    await limiter.consume('chat', alice);
+    jest.advanceTimersByTime(20 * 1000);
+
+    const error = await limiter.consume('chat', alice).catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.statusCode).toBe(429);
+    expect(error.retryAfterSeconds).toBe(40);
+    expect(error.context).toMatchObject({ route: 'chat', scope: 'client' });
+  });
+
+  test('should limit the tenant as a whole across clients', async () => {
+    await limiter.consume('chat', alice);
+    await limiter.consume('chat', alice);
+    await limiter.consume('chat', bob);
+
+    await expect(limiter.consume('chat', bob)).rejects.toMatchObject({ context: { scope: 'tenant' } });
+    // Other tenants and routes have their own budgets
+    await expect(limiter.consume('chat', { tenantKey: 'tenant=other:', clientKey: 'session=carol' })).resolves.toBeUndefined();
+    await expect(limiter.consume('products', bob)).resolves.toBeUndefined();
+  });
+
+  test('should keep a client\'s budget whatever tenant it names', async () => {
+    await limiter.consume('chat', { tenantKey: 'tenant=random-1:', clientKey: 'ip=10.0.0.1' });
+    await limiter.consume('chat', { tenantKey: 'tenant=random-2:', clientKey: 'ip=10.0.0.1' });
+
+    await expect(limiter.consume('chat', { tenantKey: 'tenant=random-3:', clientKey: 'ip=10.0.0.1' }))
+      .rejects.toMatchObject({ context: { scope: 'client' } });
+  });
+
+  test('should limit each IP before authentication', async () => {
+    for (let i = 0; i < 5; i++) {
+      await limiter.consumeIp('10.0.0.1');
+    }
+
+    await expect(limiter.consumeIp('10.0.0.1')).rejects.toMatchObject({ statusCode: 429, context: { route: 'ip', scope: 'ip' } });
+    await expect(limiter.consumeIp('10.0.0.2')).resolves.toBeUndefined();
+  });
+
+  test('should turn away an IP after too many failed authentications', async () => {
+    await limiter.recordAuthFailure('10.0.0.1');
+    await expect(limiter.consumeIp('10.0.0.1')).resolves.toBeUndefined();
+    await limiter.recordAuthFailure('10.0.0.1');
+
+    const error = await limiter.consumeIp('10.0.0.1').catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.context).toMatchObject({ scope: 'auth_failures' });
+    expect(error.retryAfterSeconds).toBe(60);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await expect(limiter.consumeIp('10.0.0.1')).resolves.toBeUndefined();
+  });
+
+  test('should start a new window once the old one has passed', async () => {
+    await limiter.consume('chat', alice);
+    await limiter.consume('chat', alice);
+    await expect(limiter.consume('chat', alice)).rejects.toBeInstanceOf(RateLimitError);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await expect(limiter.consume('chat', alice)).resolves.toBeUndefined();
+  });
+
+  test('should apply tenant overrides and treat 0 as unlimited', async () => {
+    const overrides = { chat: { clientMax: 1 } };
+    expect(limiter.ruleFor('chat', overrides)).toEqual({ windowSeconds: 60, tenantMax: 3, clientMax: 1 });
+
+    await limiter.consume('chat', alice, overrides);
+    await expect(limiter.consume('chat', alice, overrides)).rejects.toBeInstanceOf(RateLimitError);
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume('session', { tenantKey: `tenant=t${i}:`, clientKey: 'ip=10.0.0.1' });
+    }
+  });
+
+  test('should let requests through when the store fails', async () => {
+    const failing = { backend: 'redis', hit: jest.fn().mockRejectedValue(new Error('Connection is closed')), close: jest.fn() };
+    const open = new RateLimiter(failing, config);
+
+    for (let i = 0; i < 5; i++) {
+      await expect(open.consume('chat', alice)).resolves.toBeUndefined();
+    }
+  });
+
+  test('should not store client keys in clear text', async () => {
+    const redis = createFakeRedis();
+    await new RateLimiter(new RedisRateLimitStore(redis), config).consume('chat', alice);
+
+    const keys = [...redis.counters.keys()];
+    expect(keys).toContain('rl:chat:tenant=clinic:');
+    expect(keys.some((key) => key.includes('alice'))).toBe(false);
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  test('should count hits in a window that starts at the first hit', async () => {
+    const redis = createFakeRedis();
+    const store = new RedisRateLimitStore(redis);
+
+    const first = await store.hit('k', 30);
+    const second = await store.hit('k', 30);
+
+    expect(first.count).toBe(1);
+    expect(second.count).toBe(2);
+    expect(second.resetAt - Date.now()).toBeGreaterThan(29 * 1000);
+  });
+
+  test('should restore a lost expiry', async () => {
+    const redis = createFakeRedis();
+    redis.counters.set('k', { value: 5, expiresAt: null });
+
+    const hit = await new RedisRateLimitStore(redis).hit('k', 30);
+
+    expect(hit.count).toBe(6);
+    expect(await redis.pttl('k')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,94 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Redactor } = require('../utils/redaction');
+
+const baseConfig = {
+  enabled: true,
+  types: ['email', 'phone', 'date'],
+  patterns: {},
+  restore: true,
+  secret: 'test-secret'
+};
+
+describe('Redactor', () => {
+  test('should replace emails, phone numbers and dates with placeholders', () => {
+    const session = new Redactor(baseConfig).createSession();
+    const redacted = session.redact('Born 12/03/1985, call +44 20 7946 0958 or mail jane.doe@example.com; takes 500 mg daily');
+
+    expect(redacted).toMatch(/^Born \[DATE_[0-9A-F]{6}\], call \[PHONE_[0-9A-F]{6}\] or mail \[EMAIL_[0-9A-F]{6}\]; takes 500 mg daily$/);
+    expect(session.redactedCount).toBe(3);
+  });
+
+  test('should redact listed names and custom patterns case-insensitively', () => {
+    const redactor = new Redactor({ ...baseConfig, patterns: { medication: '\\bwarfarin\\b' } });
+    const session = redactor.createSession(['Jane Doe', 'Jane']);
+
+    const redacted = session.redact('Can JANE DOE take Warfarin? Jane asked. Janet did not.');
+    expect(redacted).toMatch(/^Can \[NAME_\w{6}\] take \[MEDICATION_\w{6}\]\? \[NAME_\w{6}\] asked\. Janet did not\.$/);
+  });
+
+  test('should give a value the same placeholder in every session', () => {
+    const redactor = new Redactor(baseConfig);
+    const first = redactor.createSession(['Jane Doe']).redact('Jane Doe');
+    const second = redactor.createSession(['Jane Doe']).redact('Notes for jane doe');
+
+    expect(second).toBe(`Notes for ${first}`);
+  });
+
+  test('should only restore placeholders the session issued', () => {
+    const session = new Redactor(baseConfig).createSession(['Jane Doe']);
+    const name = session.redact('Jane Doe');
+
+    expect(session.restore(`${name} can take magnesium. [NAME_ABC123] too.`)).toBe('Jane Doe can take magnesium. [NAME_ABC123] too.');
+  });
+
+  test('should hold back a placeholder cut off at the end of a streamed snapshot', () => {
+    const session = new Redactor(baseConfig).createSession(['Jane Doe']);
+    const name = session.redact('Jane Doe');
+
+    expect(session.restore(`Hello ${name.slice(0, 4)}`, true)).toBe('Hello ');
+    expect(session.restore(`Hello ${name}, `, true)).toBe('Hello Jane Doe, ');
+  });
+
+  test('should leave placeholders in place when restoring is off', () => {
+    const session = new Redactor({ ...baseConfig, restore: false }).createSession(['Jane Doe']);
+    const name = session.redact('Jane Doe');
+
+    expect(session.restore(`Hi ${name}`)).toBe(`Hi ${name}`);
+  });
+
+  test('should pass text through when disabled', () => {
+    const session = new Redactor({ ...baseConfig, enabled: false }).createSession(['Jane Doe']);
+
+    expect(session.redact('Jane Doe, jane@example.com')).toBe('Jane Doe, jane@example.com');
+  });
+
+  test('should read names from the names file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redaction-'));
+    const namesFile = path.join(dir, 'names.txt');
+    fs.writeFileSync(namesFile, '# clients\nJohn Smith\n\n');
+
+    try {
+      const session = new Redactor({ ...baseConfig, namesFile }).createSession();
+      expect(session.redact('Plan for John Smith')).toMatch(/^Plan for \[NAME_\w{6}\]$/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should keep the last names list while the names file is missing', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redaction-'));
+    const namesFile = path.join(dir, 'names.txt');
+    fs.writeFileSync(namesFile, 'John Smith\n');
+
+    try {
+      const redactor = new Redactor({ ...baseConfig, namesFile });
+      fs.rmSync(namesFile);
+
+      expect(redactor.createSession().redact('Plan for John Smith')).toMatch(/^Plan for \[NAME_\w{6}\]$/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,126 @@
+const { ReplayGuard, InMemoryNonceStore, RedisNonceStore } = require('../utils/replayGuard');
+
+describe('ReplayGuard', () => {
+  const config = { maxAgeSeconds: 300, clockToleranceSeconds: 30, allowUnprotected: false };
+  const initData = JSON.stringify({ BOTDOJO_API_KEY: 'key', SOURCE_AUTH_TOKEN: 'catalog-token' });
+  let store;
+  let guard;
+
+  const envelope = (overrides = {}) => JSON.stringify({
+    iat: Math.floor(Date.now() / 1000),
+    nonce: `nonce-${Math.random().toString(36).slice(2)}-${Date.now()}`,
+    payload: initData,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    store = new InMemoryNonceStore();
+    guard = new ReplayGuard(store, config);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test('should unwrap a fresh payload', async () => {
+    await expect(guard.open(envelope())).resolves.toBe(initData);
+  });
+
+  test('should reject a replayed nonce', async () => {
+    const payload = envelope();
+
+    await guard.open(payload);
+    await expect(guard.open(payload)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Encrypted initData has already been used'
+    });
+  });
+
+  test('should reject stale payloads', async () => {
+    const iat = Math.floor(Date.now() / 1000) - 400;
+    await expect(guard.open(envelope({ iat }))).rejects.toThrow('expired');
+  });
+
+  test('should reject payloads issued in the future', async () => {
+    const iat = Math.floor(Date.now() / 1000) + 120;
+    await expect(guard.open(envelope({ iat }))).rejects.toThrow('future');
+  });
+
+  test('should reject payloads without iat/nonce unless allowed', async () => {
+    await expect(guard.open(initData)).rejects.toThrow('must include iat and nonce');
+
+    const lenient = new ReplayGuard(store, { ...config, allowUnprotected: true });
+    await expect(lenient.open(initData)).resolves.toBe(initData);
+  });
+
+  test('should use a pluggable nonce store', async () => {
+    const seen = [];
+    guard.setStore({
+      checkAndStore: async (nonce, ttl) => {
+        seen.push({ nonce, ttl });
+        return true;
+      }
+    });
+
+    await guard.open(envelope({ nonce: 'custom-store-nonce-0001' }));
+    expect(seen).toEqual([{ nonce: 'custom-store-nonce-0001', ttl: 360 }]);
+  });
+
+  test('should answer 503 with a retry hint when the nonce store is full', async () => {
+    const small = new InMemoryNonceStore(1);
+    const limited = new ReplayGuard(small, config);
+
+    try {
+      await limited.open(envelope());
+      await expect(limited.open(envelope())).rejects.toMatchObject({
+        statusCode: 503,
+        retryAfterSeconds: 60
+      });
+    } finally {
+      small.close();
+    }
+  });
+});
+
+describe('RedisNonceStore', () => {
+  const config = { maxAgeSeconds: 300, clockToleranceSeconds: 30, allowUnprotected: false };
+  const initData = JSON.stringify({ BOTDOJO_API_KEY: 'key' });
+
+  const createFakeRedis = () => {
+    const values = new Map();
+    return {
+      values,
+      set: async (key, value, expiryMode, seconds, setMode) => {
+        if (setMode === 'NX' && values.has(key)) {
+          return null;
+        }
+        values.set(key, { value, expiryMode, seconds });
+        return 'OK';
+      }
+    };
+  };
+
+  const envelope = (nonce) => JSON.stringify({ iat: Math.floor(Date.now() / 1000), nonce, payload: initData });
+
+  test('should reject a nonce already used through another instance', async () => {
+    const redis = createFakeRedis();
+    const first = new ReplayGuard(new RedisNonceStore(redis, 'test:nonce:'), config);
+    const second = new ReplayGuard(new RedisNonceStore(redis, 'test:nonce:'), config);
+    const payload = envelope('shared-nonce-0000000001');
+
+    await expect(first.open(payload)).resolves.toBe(initData);
+    await expect(second.open(payload)).rejects.toMatchObject({ statusCode: 401 });
+    expect(redis.values.get('test:nonce:shared-nonce-0000000001')).toEqual({ value: '1', expiryMode: 'EX', seconds: 360 });
+  });
+
+  test('should refuse payloads while Redis is unavailable', async () => {
+    const guard = new ReplayGuard(new RedisNonceStore({
+      set: async () => { throw new Error('connect ECONNREFUSED'); }
+    }), config);
+
+    await expect(guard.open(envelope('unreachable-nonce-000001'))).rejects.toMatchObject({
+      statusCode: 503,
+      retryAfterSeconds: 5
+    });
+  });
+});
@@ -1,6 +1,10 @@
 const BotDojoService = require('../services/BotDojoService').default;
+const { isAbortError, parseRetryAfter } = require('../services/BotDojoService');
+const { circuitBreakers } = require('../utils/circuitBreaker');
+const { upstreamConfig } = require('../config/environment');
 const { parseCanvasDataForStructuredContent, cleanTextContent } = require('../utils/canvasParser');
 const { normalizeImageUrl, isLikelyImage } = require('../utils/mediaUtils');
+const { parseToolEvent, toolLabel } = require('../utils/toolProgress');
 
 describe('BotDojoService', () => {
   let botdojoService;
@@ -90,6 +94,252 @@ describe('BotDojoService', () => {
   });
 });
 
+describe('BotDojoService upstream cancellation', () => {
+  const realFetch = global.fetch;
+  let service;
+
+  // Upstream that sends one token and then hangs until the request is aborted
+  const hangingUpstream = jest.fn((url, init) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(JSON.stringify({ tag: 'onNewToken', data: { token: 'Hel' } }) + '\n'));
+        init.signal.addEventListener('abort', () => {
+          controller.error(new DOMException('This operation was aborted', 'AbortError'));
+        });
+      }
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+
+  beforeEach(() => {
+    global.fetch = hangingUpstream;
+    hangingUpstream.mockClear();
+    service = new BotDojoService({
+      apiKey: 'test-key',
+      baseUrl: 'https://test.example.com',
+      accountId: 'test-account',
+      projectId: 'test-project',
+      flowId: 'test-flow'
+    });
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test('streamMessage should stop reading when the signal aborts', async () => {
+    const controller = new AbortController();
+    const chunks = [];
+
+    const pending = service.streamMessage('hello', (chunk) => {
+      chunks.push(chunk.text);
+      controller.abort();
+    }, {}, controller.signal);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chunks).toEqual(['Hel']);
+    expect(hangingUpstream.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  test('sendMessage should pass the signal upstream and not leak it into the request body', async () => {
+    const controller = new AbortController();
+    const pending = service.sendMessage('hello', { store: 'store-1' }, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    const [, init] = hangingUpstream.mock.calls[0];
+    expect(init.signal.aborted).toBe(true);
+    expect(JSON.parse(init.body).body).toEqual({ text_input: 'hello', store: 'store-1' });
+  });
+
+  test('isAbortError should recognise aborted requests only', () => {
+    expect(isAbortError(new DOMException('aborted', 'AbortError'))).toBe(true);
+    expect(isAbortError(new Error('BotDojo API error: 500'))).toBe(false);
+  });
+});
+
+describe('BotDojoService upstream resilience', () => {
+  const realFetch = global.fetch;
+  const upstream = {
+    connectTimeoutMs: 1000,
+    firstTokenTimeoutMs: 50,
+    totalTimeoutMs: 1000,
+    maxRetries: 2,
+    retryBaseDelayMs: 1,
+    breakerFailureThreshold: 5,
+    breakerResetTimeoutMs: 30000,
+    breakerMaxCircuits: 1000
+  };
+  let flowCount = 0;
+
+  // Each test gets its own flow so circuit breaker state does not leak between tests
+  const createService = (overrides = {}) => new BotDojoService({
+    apiKey: 'test-key',
+    baseUrl: 'https://test.example.com',
+    accountId: 'test-account',
+    projectId: 'test-project',
+    flowId: `resilience-flow-${++flowCount}`,
+    upstream: { ...upstream, ...overrides }
+  });
+
+  const ok = (line) => Promise.resolve(new Response(JSON.stringify(line) + '\n', { status: 200 }));
+  const failure = (status) => Promise.resolve(new Response('upstream failure', { status }));
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test('should retry transient failures on retryable calls', async () => {
+    global.fetch = jest.fn()
+      .mockImplementationOnce(() => failure(503))
+      .mockImplementationOnce(() => Promise.reject(new TypeError('fetch failed')))
+      .mockImplementationOnce(() => ok({ response: { text: 'done' } }));
+
+    const response = await createService().sendMessage('hello', {}, undefined, true);
+
+    expect(response).toEqual({ response: { text: 'done' } });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should not retry non-retryable calls or client errors', async () => {
+    global.fetch = jest.fn(() => failure(503));
+    await expect(createService().sendMessage('hello')).rejects.toMatchObject({ statusCode: 502 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    global.fetch = jest.fn(() => failure(400));
+    await expect(createService().sendMessage('hello', {}, undefined, true)).rejects.toThrow('BotDojo API error: 400');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should report how long BotDojo asks to wait after a 429', async () => {
+    global.fetch = jest.fn(() => Promise.resolve(new Response('slow down', { status: 429, headers: { 'Retry-After': '12' } })));
+
+    await expect(createService().sendMessage('hello')).rejects.toMatchObject({
+      context: expect.objectContaining({ status: 429, retryAfterSeconds: 12 })
+    });
+    expect(parseRetryAfter(new Date(Date.now() + 30000).toUTCString())).toBeGreaterThanOrEqual(29);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+
+  test('should give up after maxRetries', async () => {
+    global.fetch = jest.fn(() => failure(500));
+
+    await expect(createService().sendMessage('hello', {}, undefined, true)).rejects.toMatchObject({
+      statusCode: 502,
+      context: expect.objectContaining({ status: 500 })
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should time out when the first token does not arrive', async () => {
+    global.fetch = jest.fn((url, init) => {
+      const body = new ReadableStream({
+        start(controller) {
+          init.signal.addEventListener('abort', () => {
+            controller.error(new DOMException('This operation was aborted', 'AbortError'));
+          });
+        }
+      });
+      return Promise.resolve(new Response(body, { status: 200 }));
+    });
+
+    const pending = createService().streamMessage('hello', () => {});
+
+    await expect(pending).rejects.toMatchObject({ statusCode: 504, message: 'BotDojo first-token timeout after 50ms' });
+  });
+
+  test('should time out when the connection is not established', async () => {
+    global.fetch = jest.fn((url, init) => new Promise((resolve, reject) => {
+      init.signal.addEventListener('abort', () => {
+        reject(new DOMException('This operation was aborted', 'AbortError'));
+      });
+    }));
+
+    const pending = createService({ connectTimeoutMs: 20 }).sendMessage('hello');
+
+    await expect(pending).rejects.toMatchObject({ statusCode: 504, message: 'BotDojo connect timeout after 20ms' });
+  });
+
+  test('should open the circuit after repeated failures and fail fast', async () => {
+    global.fetch = jest.fn(() => failure(502));
+    const service = createService();
+    const threshold = upstreamConfig.breakerFailureThreshold;
+
+    for (let i = 0; i < threshold; i++) {
+      await expect(service.sendMessage('hello')).rejects.toMatchObject({ statusCode: 502 });
+    }
+
+    await expect(service.sendMessage('hello')).rejects.toMatchObject({ statusCode: 503 });
+    expect(global.fetch).toHaveBeenCalledTimes(threshold);
+    expect(circuitBreakers.get({ baseUrl: 'https://test.example.com', accountId: 'test-account', projectId: 'test-project', flowId: `resilience-flow-${flowCount}` }).snapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: threshold
+    });
+  });
+
+  test('should not count client aborts against the circuit', async () => {
+    global.fetch = jest.fn((url, init) => new Promise((resolve, reject) => {
+      init.signal.addEventListener('abort', () => {
+        reject(new DOMException('This operation was aborted', 'AbortError'));
+      });
+    }));
+    const controller = new AbortController();
+    const pending = createService().sendMessage('hello', {}, controller.signal, true);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(circuitBreakers.get({ baseUrl: 'https://test.example.com', accountId: 'test-account', projectId: 'test-project', flowId: `resilience-flow-${flowCount}` }).snapshot().consecutiveFailures).toBe(0);
+  });
+});
+
+describe('BotDojoService tool progress', () => {
+  const realFetch = global.fetch;
+
+  const ndjson = (events) => Promise.resolve(new Response(events.map((event) => JSON.stringify(event)).join('\n'), { status: 200 }));
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  test('streamMessage should report tool start and end events', async () => {
+    global.fetch = jest.fn(() => ndjson([
+      { tag: 'onToolStart', data: { toolName: 'search_product_catalog' } },
+      { tag: 'onToolEnd', data: { toolName: 'search_product_catalog' } },
+      { tag: 'onNewToken', data: { token: 'Try this' } },
+      { tag: 'onToolStart', data: { tool: { name: 'ingredient_lookup' } } }
+    ]));
+    const progress = [];
+    const chunks = [];
+
+    const service = new BotDojoService({
+      apiKey: 'test-key',
+      baseUrl: 'https://test.example.com',
+      accountId: 'test-account',
+      projectId: 'test-project',
+      flowId: 'progress-flow'
+    });
+    const response = await service.streamMessage('hello', (chunk) => chunks.push(chunk.text), {}, undefined, (event) => progress.push(event));
+
+    expect(progress).toEqual([
+      { stage: 'start', tool: 'search_product_catalog', label: 'Searching catalog' },
+      { stage: 'end', tool: 'search_product_catalog', label: 'Searching catalog' },
+      { stage: 'start', tool: 'ingredient_lookup', label: 'Checking ingredients' }
+    ]);
+    // Tool events are not mistaken for answer text
+    expect(chunks).toEqual(['Try this']);
+    expect(response.response.text).toBe('Try this');
+  });
+
+  test('parseToolEvent should ignore other events and tolerate missing tool names', () => {
+    expect(parseToolEvent({ tag: 'onNewToken', data: { token: 'x' } })).toBeNull();
+    expect(parseToolEvent(null)).toBeNull();
+    expect(parseToolEvent({ tag: 'onToolEnd' })).toEqual({ stage: 'end', tool: '', label: 'Working on it' });
+    expect(toolLabel('get_lab_results')).toBe('Reviewing lab results');
+  });
+});
+
 describe('Canvas Parser', () => {
   describe('parseCanvasDataForStructuredContent', () => {
     test('should parse iframe tags', () => {
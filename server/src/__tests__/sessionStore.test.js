@@ -0,0 +1,95 @@
+const { SessionStore } = require('../utils/sessionStore');
+
+describe('SessionStore', () => {
+  let sessions;
+  const config = {
+    TENANT_ID: 'clinic-a',
+    BOTDOJO_API_KEY: 'botdojo-key',
+    SOURCE_AUTH_TOKEN: 'catalog-token'
+  };
+
+  beforeEach(() => {
+    sessions = new SessionStore({ ttlSeconds: 60, maxSessions: 100, maxSessionsPerTenant: 50 });
+  });
+
+  afterEach(() => {
+    sessions.close();
+  });
+
+  test('should resolve the configuration captured at creation', () => {
+    const { token, expiresAt } = sessions.create(config);
+
+    expect(typeof token).toBe('string');
+    expect(token.length).toBeGreaterThanOrEqual(40);
+    expect(expiresAt).toBeGreaterThan(Date.now());
+    expect(sessions.resolve(token)).toEqual(config);
+  });
+
+  test('should issue a distinct token per session', () => {
+    const first = sessions.create(config);
+    const second = sessions.create(config);
+
+    expect(first.token).not.toBe(second.token);
+    expect(sessions.size()).toBe(2);
+  });
+
+  test('should reject unknown tokens with 401', () => {
+    expect(() => sessions.resolve('not-a-session')).toThrow('Session expired or invalid');
+
+    try {
+      sessions.resolve('not-a-session');
+    } catch (error) {
+      expect(error.statusCode).toBe(401);
+    }
+  });
+
+  test('should reject expired sessions', () => {
+    const { token } = sessions.create(config);
+    const realNow = Date.now;
+    Date.now = () => realNow() + 61 * 1000;
+
+    try {
+      expect(() => sessions.resolve(token)).toThrow('Session expired or invalid');
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test('should revoke sessions', () => {
+    const { token } = sessions.create(config);
+
+    expect(sessions.revoke(token)).toBe(true);
+    expect(sessions.revoke(token)).toBe(false);
+    expect(() => sessions.resolve(token)).toThrow('Session expired or invalid');
+  });
+
+  test('should answer 503 with Retry-After when the store is full', () => {
+    const full = new SessionStore({ ttlSeconds: 60, maxSessions: 2, maxSessionsPerTenant: 10 });
+    try {
+      full.create(config);
+      full.create({ ...config, TENANT_ID: 'clinic-b' });
+
+      expect(() => full.create({ ...config, TENANT_ID: 'clinic-c' })).toThrow(expect.objectContaining({
+        statusCode: 503,
+        retryAfterSeconds: 120
+      }));
+    } finally {
+      full.close();
+    }
+  });
+
+  test('should cap live sessions per tenant and free revoked slots', () => {
+    const tokens = [];
+    for (let i = 0; i < 50; i++) {
+      tokens.push(sessions.create(config).token);
+    }
+
+    expect(() => sessions.create(config)).toThrow(expect.objectContaining({ statusCode: 429, retryAfterSeconds: 120 }));
+    // Other tenants, and initData callers grouped by account, still get sessions
+    expect(() => sessions.create({ ...config, TENANT_ID: 'clinic-b' })).not.toThrow();
+    expect(() => sessions.create({ BOTDOJO_ACCOUNT_ID: 'acct-1' })).not.toThrow();
+
+    sessions.revoke(tokens[0]);
+    expect(() => sessions.create(config)).not.toThrow();
+  });
+});
@@ -10,3 +10,6 @@ process.env.BOTDOJO_TEXT_FLOW_ID = 'test-flow-text';
 process.env.BOTDOJO_PRODUCTS_FLOW_ID = 'test-flow-products';
 process.env.MEDIA_BASE = 'https://test.example.com';
 process.env.NODE_ENV = 'test';
+process.env.CONVERSATION_STORE = 'none';
+process.env.FEEDBACK_STORE = 'none';
+process.env.ANALYTICS_STORE = 'none';
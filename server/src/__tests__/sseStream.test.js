@@ -0,0 +1,111 @@
+const { SseStream, textDelta } = require('../utils/sseStream');
+
+// Minimal stand-in for an Express response
+function createResponse() {
+  return {
+    headers: {},
+    chunks: [],
+    writableEnded: false,
+    destroyed: false,
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+    flushHeaders: jest.fn(),
+    flush: jest.fn(),
+    write(chunk) {
+      this.chunks.push(chunk);
+      return true;
+    },
+    end() {
+      this.writableEnded = true;
+    },
+    on: jest.fn()
+  };
+}
+
+describe('SseStream', () => {
+  test('should send event-stream headers on open', () => {
+    const res = createResponse();
+    new SseStream(res).open();
+
+    expect(res.headers['Content-Type']).toBe('text/event-stream');
+    expect(res.headers['Cache-Control']).toBe('no-cache');
+    expect(res.headers['X-Accel-Buffering']).toBe('no');
+    expect(res.flushHeaders).toHaveBeenCalled();
+  });
+
+  test('should write typed events with the type as event name', () => {
+    const res = createResponse();
+    const stream = new SseStream(res);
+
+    expect(stream.send({ type: 'products.skus', skus: ['SKU-1'] })).toBe(true);
+
+    expect(res.chunks).toEqual([
+      'event: products.skus\ndata: {"type":"products.skus","skus":["SKU-1"]}\n\n'
+    ]);
+    expect(res.flush).toHaveBeenCalled();
+  });
+
+  test('should write the event id when given', () => {
+    const res = createResponse();
+    new SseStream(res).send({ type: 'text.delta', delta: 'Hi' }, 'stream-1:3');
+
+    expect(res.chunks).toEqual([
+      'id: stream-1:3\nevent: text.delta\ndata: {"type":"text.delta","delta":"Hi"}\n\n'
+    ]);
+  });
+
+  test('should write data-only messages for the legacy streams', () => {
+    const res = createResponse();
+    new SseStream(res).sendData({ type: 'done', response: { products: [] } });
+
+    expect(res.chunks).toEqual(['data: {"type":"done","response":{"products":[]}}\n\n']);
+  });
+
+  test('should send heartbeat comments until the stream ends', () => {
+    jest.useFakeTimers();
+    try {
+      const res = createResponse();
+      const stream = new SseStream(res);
+      stream.open(1000);
+
+      jest.advanceTimersByTime(2500);
+      expect(res.chunks).toEqual([': heartbeat\n\n', ': heartbeat\n\n']);
+
+      stream.end();
+      jest.advanceTimersByTime(5000);
+      expect(res.chunks).toHaveLength(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should ignore events once the stream has ended or the client is gone', () => {
+    const res = createResponse();
+    const stream = new SseStream(res);
+
+    stream.end();
+    expect(stream.closed).toBe(true);
+    expect(stream.send({ type: 'done', text: '', suggestedQuestions: [], products: [] })).toBe(false);
+
+    const destroyed = createResponse();
+    destroyed.destroyed = true;
+    expect(new SseStream(destroyed).send({ type: 'text.delta', delta: 'Hi' })).toBe(false);
+    expect(destroyed.chunks).toEqual([]);
+  });
+});
+
+describe('textDelta', () => {
+  test('should return the appended suffix when the text grows', () => {
+    expect(textDelta('', 'Hel')).toEqual({ delta: 'Hel' });
+    expect(textDelta('Hel', 'Hello')).toEqual({ delta: 'lo' });
+  });
+
+  test('should return null when nothing changed', () => {
+    expect(textDelta('Hello', 'Hello')).toBeNull();
+  });
+
+  test('should resend the whole text when a snapshot does not extend the previous one', () => {
+    expect(textDelta('Hello\n\n====', 'Hello')).toEqual({ delta: 'Hello', reset: true });
+  });
+});
@@ -0,0 +1,157 @@
+const { StreamRegistry, formatEventId, parseEventId } = require('../utils/streamRegistry');
+
+describe('StreamRegistry', () => {
+  const config = { heartbeatMs: 0, replayMaxEvents: 3, replayTtlMs: 1000, resumeGraceMs: 500 };
+  let registry;
+
+  // Collects what an attached client would have been sent
+  const createClient = () => {
+    const client = { seqs: [], events: [], ended: false };
+    client.subscriber = {
+      onEvent: ({ seq, event }) => {
+        client.seqs.push(seq);
+        client.events.push(event);
+      },
+      onEnd: () => {
+        client.ended = true;
+      }
+    };
+    return client;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new StreamRegistry(config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should forward live events with increasing sequence numbers', () => {
+    const run = registry.create('tenant=a:');
+    const client = createClient();
+    run.attach(0, client.subscriber);
+
+    run.push({ type: 'text.delta', delta: 'Hel' });
+    run.push({ type: 'text.delta', delta: 'lo' });
+    run.finish();
+
+    expect(client.seqs).toEqual([1, 2]);
+    expect(client.events[1]).toEqual({ type: 'text.delta', delta: 'lo' });
+    expect(client.ended).toBe(true);
+  });
+
+  test('should replay only the events after the resume position', () => {
+    const run = registry.create('tenant=a:');
+    const detach = run.attach(0, createClient().subscriber);
+    run.push({ type: 'text.delta', delta: 'a' });
+    detach();
+    run.push({ type: 'text.delta', delta: 'b' });
+
+    const resumed = createClient();
+    expect(run.canResume(1)).toBe(true);
+    run.attach(1, resumed.subscriber);
+    run.push({ type: 'text.delta', delta: 'c' });
+
+    expect(resumed.seqs).toEqual([2, 3]);
+    expect(resumed.events.map((event) => event.delta)).toEqual(['b', 'c']);
+  });
+
+  test('should refuse to resume once the needed events have left the buffer', () => {
+    const run = registry.create('tenant=a:');
+    for (const delta of ['a', 'b', 'c', 'd']) {
+      run.push({ type: 'text.delta', delta });
+    }
+
+    expect(run.canResume(0)).toBe(false);
+    expect(run.canResume(1)).toBe(true);
+    expect(run.canResume(4)).toBe(true);
+    expect(run.canResume(5)).toBe(false);
+  });
+
+  test('should end a client that resumes a finished stream after the replay', () => {
+    const run = registry.create('tenant=a:');
+    run.push({ type: 'text.delta', delta: 'Hi' });
+    run.push({ type: 'done', text: 'Hi', suggestedQuestions: [], products: [] });
+    run.finish();
+
+    const resumed = createClient();
+    run.attach(1, resumed.subscriber);
+
+    expect(resumed.events.map((event) => event.type)).toEqual(['done']);
+    expect(resumed.ended).toBe(true);
+  });
+
+  test('should cancel a stream left without clients for the grace period', () => {
+    const run = registry.create('tenant=a:');
+    const detach = run.attach(0, createClient().subscriber);
+    run.push({ type: 'text.delta', text: 'a' });
+
+    detach();
+    jest.advanceTimersByTime(499);
+    expect(run.signal.aborted).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(run.signal.aborted).toBe(true);
+    expect(run.isFinished).toBe(true);
+  });
+
+  test('should keep running when a client resumes within the grace period', () => {
+    const run = registry.create('tenant=a:');
+    const detach = run.attach(0, createClient().subscriber);
+    run.push({ type: 'text.delta', text: 'a' });
+    detach();
+
+    jest.advanceTimersByTime(400);
+    run.attach(1, createClient().subscriber);
+    jest.advanceTimersByTime(1000);
+
+    expect(run.signal.aborted).toBe(false);
+  });
+
+  test('should cancel right away when the last client leaves before any event was sent', () => {
+    const run = registry.create('tenant=a:');
+    run.push({ type: 'text.delta', text: 'buffered before anyone attached' });
+    const first = run.attach(1, createClient().subscriber);
+    const second = run.attach(1, createClient().subscriber);
+
+    first();
+    expect(run.signal.aborted).toBe(false);
+
+    second();
+    expect(run.signal.aborted).toBe(true);
+    expect(run.isFinished).toBe(true);
+  });
+
+  test('should forget finished streams after the replay TTL', () => {
+    const run = registry.create('tenant=a:');
+    run.finish();
+
+    expect(registry.get(run.id)).toBe(run);
+    jest.advanceTimersByTime(1000);
+    expect(registry.get(run.id)).toBeUndefined();
+    expect(registry.size()).toBe(0);
+  });
+
+  test('should issue unguessable, distinct stream ids', () => {
+    const first = registry.create('tenant=a:');
+    const second = registry.create('tenant=a:');
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.id.length).toBeGreaterThanOrEqual(20);
+  });
+});
+
+describe('event ids', () => {
+  test('should round-trip stream id and sequence', () => {
+    expect(parseEventId(formatEventId('abc_-123', 42))).toEqual({ streamId: 'abc_-123', seq: 42 });
+  });
+
+  test('should reject malformed ids', () => {
+    expect(parseEventId('no-separator')).toBeNull();
+    expect(parseEventId(':5')).toBeNull();
+    expect(parseEventId('abc:x')).toBeNull();
+    expect(parseEventId('abc:-1')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { signTenantToken, verifyTenantToken } = require('../utils/tenantToken');
+const { TenantRegistry, InMemoryTenantStore, FileTenantStore } = require('../utils/tenantRegistry');
+
+const tenant = {
+  tokenSecret: 'clinic-a-secret',
+  BOTDOJO_API_KEY: 'botdojo-key',
+  BOTDOJO_BASE_URL: 'https://test.example.com',
+  BOTDOJO_ACCOUNT_ID: 'account',
+  BOTDOJO_PROJECT_ID: 'project',
+  BOTDOJO_TEXT_FLOW_ID: 'text-flow',
+  BOTDOJO_PRODUCTS_FLOW_ID: 'products-flow',
+  SOURCE_API_BASE_URL: 'https://catalog.example.com',
+  SOURCE_AUTH_TOKEN: 'catalog-token'
+};
+
+describe('Tenant tokens', () => {
+  const options = { tenantId: 'clinic-a', maxAgeSeconds: 900 };
+
+  test('should verify a freshly signed token', () => {
+    const token = signTenantToken({ tid: 'clinic-a', sub: 'practitioner-1' }, 'secret');
+    const claims = verifyTenantToken(token, 'secret', options);
+
+    expect(claims.tid).toBe('clinic-a');
+    expect(claims.sub).toBe('practitioner-1');
+  });
+
+  test('should reject tokens signed with another secret', () => {
+    const token = signTenantToken({ tid: 'clinic-a' }, 'other-secret');
+    expect(() => verifyTenantToken(token, 'secret', options)).toThrow('Invalid tenant token signature');
+  });
+
+  test('should reject expired tokens', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = signTenantToken({ tid: 'clinic-a', iat: now - 600, exp: now - 300 }, 'secret');
+    expect(() => verifyTenantToken(token, 'secret', options)).toThrow('expired');
+  });
+
+  test('should reject tokens that live longer than the max age', () => {
+    const token = signTenantToken({ tid: 'clinic-a' }, 'secret', 3600);
+    expect(() => verifyTenantToken(token, 'secret', options)).toThrow('lifetime exceeds');
+  });
+
+  test('should reject tokens issued for another tenant', () => {
+    const token = signTenantToken({ tid: 'clinic-b' }, 'secret');
+    expect(() => verifyTenantToken(token, 'secret', options)).toThrow('different tenant');
+  });
+});
+
+describe('TenantRegistry', () => {
+  let registry;
+
+  beforeEach(() => {
+    registry = new TenantRegistry(new InMemoryTenantStore({ 'clinic-a': tenant }), 900);
+  });
+
+  test('should resolve credentials without exposing the token secret', async () => {
+    const token = signTenantToken({ tid: 'clinic-a' }, tenant.tokenSecret);
+    const { config } = await registry.resolve('clinic-a', token);
+
+    expect(config.TENANT_ID).toBe('clinic-a');
+    expect(config.BOTDOJO_API_KEY).toBe('botdojo-key');
+    expect(config.SOURCE_AUTH_TOKEN).toBe('catalog-token');
+    expect(config.tokenSecret).toBeUndefined();
+  });
+
+  test('should reject unknown tenants and missing tokens with 401', async () => {
+    const token = signTenantToken({ tid: 'clinic-z' }, tenant.tokenSecret);
+
+    await expect(registry.resolve('clinic-z', token)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(registry.resolve('clinic-a', undefined)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  test('should reject incomplete tenant entries', () => {
+    expect(() => new InMemoryTenantStore({ broken: { tokenSecret: 'x' } })).toThrow('missing required fields');
+  });
+
+  test('should keep serving the last registry while the registry file is missing', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tenants-'));
+    const registryFile = path.join(dir, 'tenants.json');
+    fs.writeFileSync(registryFile, JSON.stringify({ tenants: { 'clinic-a': tenant } }));
+
+    try {
+      const store = new FileTenantStore(registryFile);
+      fs.rmSync(registryFile);
+
+      await expect(store.getTenant('clinic-a')).resolves.toMatchObject({ BOTDOJO_API_KEY: 'botdojo-key' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
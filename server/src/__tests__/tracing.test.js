@@ -0,0 +1,70 @@
+const express = require('express');
+const request = require('supertest');
+const { InMemorySpanExporter, SimpleSpanProcessor } = require('@opentelemetry/sdk-trace-base');
+const { initTracing, shutdownTracing, tracingMiddleware, withSpan, injectTraceHeaders } = require('../utils/tracing');
+const { MemoryCacheStore } = require('../utils/cacheStore');
+const { CacheManager } = require('../utils/cacheManager');
+
+const exporter = new InMemorySpanExporter();
+const config = { exporter: 'none', serviceName: 'chatbot-test', sampleRatio: 1 };
+
+beforeAll(() => {
+  initTracing(config, new SimpleSpanProcessor(exporter));
+});
+
+afterEach(() => {
+  exporter.reset();
+});
+
+afterAll(async () => {
+  await shutdownTracing();
+});
+
+describe('tracing', () => {
+  test('should continue the caller trace and name the server span after the route', async () => {
+    const app = express();
+    app.use(tracingMiddleware);
+    app.get('/items/:id', (req, res) => {
+      withSpan('lookup', {}, async () => res.json(injectTraceHeaders({})));
+    });
+
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const response = await request(app).get('/items/42').set('traceparent', `00-${traceId}-00f067aa0ba902b7-01`);
+
+    // The outgoing traceparent names the lookup span, within the caller's trace
+    expect(response.body.traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+
+    await new Promise((resolve) => setImmediate(resolve));
+    const spans = exporter.getFinishedSpans();
+    const server = spans.find((span) => span.name === 'GET /items/:id');
+    const lookup = spans.find((span) => span.name === 'lookup');
+    expect(server.spanContext().traceId).toBe(traceId);
+    expect(server.parentSpanContext.spanId).toBe('00f067aa0ba902b7');
+    expect(server.attributes['http.route']).toBe('/items/:id');
+    expect(server.attributes['http.response.status_code']).toBe(200);
+    expect(lookup.parentSpanContext.spanId).toBe(server.spanContext().spanId);
+  });
+
+  test('should record errors thrown inside a span', async () => {
+    await expect(withSpan('failing', {}, async () => {
+      throw new Error('upstream down');
+    })).rejects.toThrow('upstream down');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status).toMatchObject({ code: 2, message: 'upstream down' });
+    expect(span.events[0].name).toBe('exception');
+  });
+
+  test('should trace cache operations', async () => {
+    const cache = new CacheManager(new MemoryCacheStore({ checkperiod: 0 }), 60);
+    const scope = { tenantId: 'clinic-a', accountId: 'account', projectId: 'project', flowId: 'flow' };
+
+    await cache.setProductSkus(scope, 'magnesium', ['SKU-1']);
+    await cache.getProductSkus(scope, 'magnesium');
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map((span) => span.name)).toEqual(['cache.set', 'cache.get']);
+    expect(spans[1].attributes).toMatchObject({ 'cache.namespace': 'products', 'cache.hit': true, 'tenant.id': 'clinic-a' });
+    await cache.close();
+  });
+});
@@ -1,13 +1,17 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import path from 'path';
-import rateLimit from 'express-rate-limit';
+import crypto from 'crypto';
 import helmet from 'helmet';
 import compression from 'compression';
-
-import { serverConfig } from './config/environment';
-import BotDojoService from './services/BotDojoService';
-import { botdojoConfig } from './config/environment';
+import { IncomingMessage } from 'http';
+import { WebSocketServer } from 'ws';
+import { context, propagation, SpanKind } from '@opentelemetry/api';
+import { ATTR_HTTP_RESPONSE_STATUS_CODE } from '@opentelemetry/semantic-conventions';
+
+import { serverConfig, metricsConfig } from './config/environment';
+import BotDojoService, { isAbortError } from './services/BotDojoService';
+import { botdojoConfig, tenantRegistryConfig, cacheBackendConfig, streamConfig } from './config/environment';
 import { logger } from './utils/logger';
 import {
   errorHandler,
@@ -17,10 +21,37 @@ import {
   validateString,
   validateNumber,
   validateEnum,
-  sanitizeString
+  validateArray,
+  sanitizeString,
+  AppError,
+  AuthenticationError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  BotDojoError
 } from './utils/errorHandler';
-import { cacheManager } from './utils/cacheManager';
-import { getPublicKey, decryptData, isEncryptedData } from './utils/encryption';
+import { cacheManager, CacheScope, CatalogScope, tenantKeyPrefix } from './utils/cacheManager';
+import { conversationMemory, ConversationMemoryScope } from './utils/conversationMemory';
+import { conversationStore, getConversationOwner, ConversationOwner } from './utils/conversationStore';
+import { feedbackStore, FEEDBACK_REASONS } from './utils/feedbackStore';
+import { analyticsStore } from './utils/analyticsStore';
+import { tenantRegistry } from './utils/tenantRegistry';
+import { sessionStore } from './utils/sessionStore';
+import { authenticator, getBearerToken, requireAuth, requireAdmin, requireMetricsToken, AuthContext } from './utils/auth';
+import { adminRouter } from './routes/admin';
+import { conversationsRouter } from './routes/conversations';
+import { replayGuard } from './utils/replayGuard';
+import { circuitBreakers } from './utils/circuitBreaker';
+import { rateLimiter } from './utils/rateLimiter';
+import { metrics, httpMetricsMiddleware } from './utils/metrics';
+import { initTracing, shutdownTracing, tracingMiddleware, injectTraceHeaders, withSpan } from './utils/tracing';
+import { redactor, RedactionSession } from './utils/redaction';
+import { guardrails, SafetyReview } from './utils/guardrails';
+import { SseStream, textDelta } from './utils/sseStream';
+import { chatStreams, ResumableStream, formatEventId, parseEventId } from './utils/streamRegistry';
+import { ChatSocketConnection, parseClientFrame } from './utils/chatSocket';
+import { getPublicKey, getCurrentKeyId, getKeyInfo, loadKeyStore, decryptData, isEncryptedData } from './utils/encryption';
 import {
   ChatRequest,
   ChatResponse,
@@ -29,9 +60,25 @@ import {
   TestStructuredRequest,
   ProductInfoRequest,
   ProductInfoResponse,
-  Message
+  Message,
+  ConversationTurn,
+  BotDojoRequestConfig,
+  RequestConfig,
+  SessionResponse,
+  ChatStreamEvent,
+  ChatSocketClientFrame,
+  ToolProgress,
+  RateLimitRoute,
+  SafetyReport,
+  StoredMessage,
+  FeedbackRequest,
+  EventsRequest,
+  AnalyticsEventType
 } from './types';
 
+// Register the tracer provider before any span is started
+initTracing();
+
 const app = express();
 
 // Security middleware
@@ -55,26 +102,26 @@ app.use(requestIdMiddleware);
 // Request logging middleware
 app.use(requestLoggingMiddleware);
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: {
-    error: 'Too many requests from this IP, please try again later.'
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+// Tracing middleware (continues the widget's trace from its traceparent header)
+app.use(tracingMiddleware);
 
-app.use('/text-suggQ', limiter);
-app.use('/products', limiter);
-app.use('/suggestions', limiter);
-app.use('/product-info', limiter);
+// Request count and latency metrics
+app.use(httpMetricsMiddleware);
+
+// Advertise the current encryption key id so clients re-fetch the public key after a rotation
+app.use((req: Request, res: Response, next: NextFunction) => {
+  res.setHeader('X-Encryption-Key-Id', getCurrentKeyId());
+  next();
+});
 
 // CORS configuration
+// Origins come from CORS_ORIGINS and the tenants' allowedOrigins; requireAuth checks them per tenant
 app.use(cors({
-  origin: '*',
-  allowedHeaders: ['Content-Type', 'X-Request-ID', 'Authorization'],
+  origin: (origin, callback) => {
+    authenticator.isOriginAllowed(origin).then((allowed) => callback(null, allowed), callback);
+  },
+  allowedHeaders: ['Content-Type', 'X-Request-ID', 'Authorization', 'X-Session-Token', 'Last-Event-ID', 'traceparent', 'tracestate'],
+  exposedHeaders: ['X-Request-ID', 'X-Encryption-Key-Id', 'X-Stream-Id', 'Retry-After', 'WWW-Authenticate'],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
 }));
 
@@ -82,18 +129,24 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Helper function to extract and parse BotDojo config from request body
+// Per-IP limit on the API routes, counted before authentication so failing requests are throttled too
+// (RATE_LIMIT_IP_MAX); IPs with too many failed authentications are turned away (RATE_LIMIT_AUTH_FAILURE_MAX)
+app.use(
+  ['/session', '/chat', '/text-suggQ', '/products', '/product-info', '/suggestions', '/feedback', '/events', '/conversations', '/admin', '/test-structured'],
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    await enforceIpRateLimit(req.ip ?? 'unknown');
+    next();
+  })
+);
+
+// Fields only the tenant registry may set; a caller naming a tenant or its own limits in initData could
+// take over that tenant's rate limit budgets and cache entries
+const TENANT_REGISTRY_FIELDS = ['TENANT_ID', 'RATE_LIMITS', 'tokenSecret', 'jwksFile', 'allowedOrigins'];
+
+// Helper function to parse legacy initData (BotDojo + catalog credentials) from request body
 // Supports both encrypted and plain text (for backward compatibility)
-function getBotDojoConfigFromBody(req: Request): {
-  BOTDOJO_API_KEY: string;
-  BOTDOJO_BASE_URL: string;
-  BOTDOJO_ACCOUNT_ID: string;
-  BOTDOJO_PROJECT_ID: string;
-  BOTDOJO_TEXT_FLOW_ID: string;
-  BOTDOJO_PRODUCTS_FLOW_ID: string;
-  PRODUCT_SOURCE?: string;
-  STORE?: string;
-} {
+// Encrypted payloads must carry a fresh iat + unused nonce (see replayGuard)
+async function parseInitDataFromBody(req: Request): Promise<RequestConfig> {
   const body = req.body as any;
   const configData = body?.initData;
 
@@ -109,13 +162,15 @@ function getBotDojoConfigFromBody(req: Request): {
 
   // Check if the data is encrypted (base64-encoded encrypted data)
   if (typeof configData === 'string' && isEncryptedData(configData)) {
+    let decrypted: string;
     try {
       // Decrypt the encrypted data
-      configString = decryptData(configData);
+      decrypted = decryptData(configData);
       logger.info('Decrypted BotDojo config from body', { requestId: req.headers['x-request-id'] as string });
     } catch (error) {
-      throw new Error(`Failed to decrypt BotDojo configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new AuthenticationError(`Failed to decrypt BotDojo configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    configString = await replayGuard.open(decrypted);
   } else {
     // Plain text (backward compatibility) or already an object
     if (typeof configData === 'string') {
@@ -126,40 +181,139 @@ function getBotDojoConfigFromBody(req: Request): {
     }
   }
 
-  let config;
+  let config: RequestConfig;
   try {
     config = JSON.parse(configString);
   } catch (error) {
     throw new Error('Invalid BotDojo configuration format in request body. Expected JSON.');
   }
+  for (const field of TENANT_REGISTRY_FIELDS) {
+    delete (config as Record<string, unknown>)[field];
+  }
+  return config;
+}
+
+// Helper function to resolve the credentials presented by the caller
+// Tenant mode: body.tenantId + tenant token (Authorization bearer), credentials come from the tenant registry
+// Legacy mode: credentials sent by the browser as initData (only when LEGACY_INIT_DATA is enabled)
+async function resolveCredentials(req: Request): Promise<RequestConfig> {
+  const tenantId = (req.body as any)?.tenantId;
+
+  if (tenantId !== undefined) {
+    validateString(tenantId, 'tenantId', 100);
+    const { config } = await tenantRegistry.resolve(tenantId, getBearerToken(req));
+    return config;
+  }
+
+  if (!tenantRegistryConfig.legacyInitData) {
+    throw new AuthenticationError('tenantId and a tenant token are required; initData credentials are disabled on this server.');
+  }
+
+  return parseInitDataFromBody(req);
+}
+
+// Helper function to read the session token created by the /session handshake
+function getSessionToken(req: Request): string | undefined {
+  const token = req.headers['x-session-token'];
+  return typeof token === 'string' && token.length > 0 ? token : undefined;
+}
+
+// Helper function to resolve the request configuration
+// Requests carrying X-Session-Token use the credentials captured at the handshake;
+// requests without one fall back to per-request credentials for older clients
+async function getRequestConfig(req: Request): Promise<RequestConfig> {
+  const sessionToken = getSessionToken(req);
+  if (sessionToken) {
+    return sessionStore.resolve(sessionToken);
+  }
+  return resolveCredentials(req);
+}
+
+// Helper function to resolve the configuration for an admin request
+// Admins name a registered tenant without a tenant token, or send initData like a legacy widget
+async function getAdminRequestConfig(req: Request): Promise<RequestConfig> {
+  const tenantId = (req.body as Record<string, unknown> | undefined)?.tenantId;
+  if (tenantId !== undefined) {
+    validateString(tenantId, 'tenantId', 100);
+    return tenantRegistry.getRequestConfig(tenantId as string);
+  }
+  return parseInitDataFromBody(req);
+}
+
+// Helper middleware to hide debug routes unless DEBUG_ROUTES is on (the default outside production)
+function requireDebugRoutes(req: Request, res: Response, next: NextFunction): void {
+  next(serverConfig.debugRoutes ? undefined : new NotFoundError('Debug routes are disabled on this server'));
+}
+
+// Helper function to count a request against a route's rate limits
+// Limits apply per tenant (or BotDojo account) and per session, falling back to the IP for requests without a session
+async function enforceRateLimit(route: RateLimitRoute, config: RequestConfig, clientKey: string): Promise<void> {
+  const tenantKey = tenantKeyPrefix({ tenantId: config.TENANT_ID, accountId: config.BOTDOJO_ACCOUNT_ID ?? '' });
+  try {
+    await rateLimiter.consume(route, { tenantKey, clientKey }, config.RATE_LIMITS);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      metrics.recordRateLimitRejection(route, String(error.context?.scope), config.TENANT_ID);
+    }
+    throw error;
+  }
+}
+
+// Helper function to count a request against its IP's limit, before it is authenticated
+async function enforceIpRateLimit(ip: string): Promise<void> {
+  try {
+    await rateLimiter.consumeIp(ip);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      metrics.recordRateLimitRejection('ip', String(error.context?.scope));
+    }
+    throw error;
+  }
+}
 
+// Helper function to identify the client of an HTTP request for rate limiting
+function getRateLimitClient(req: Request): string {
+  const sessionToken = getSessionToken(req);
+  return sessionToken ? `session=${sessionToken}` : `ip=${req.ip ?? 'unknown'}`;
+}
+
+// Helper function to read how long a rate limited caller should wait, from our own limits or BotDojo's
+function getRetryAfter(error: unknown): number | undefined {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterSeconds;
+  }
+  if (error instanceof BotDojoError && error.context?.status === 429) {
+    return error.context.retryAfterSeconds;
+  }
+  return undefined;
+}
+
+// Helper function to get the BotDojo config for a request, validating the flow credentials are present
+async function getBotDojoConfigFromBody(req: Request): Promise<BotDojoRequestConfig & RequestConfig> {
+  return requireFlowConfig(await getRequestConfig(req));
+}
+
+// Helper function to check a resolved configuration carries the flow credentials
+function requireFlowConfig(config: RequestConfig): BotDojoRequestConfig & RequestConfig {
   // Validate required fields
   if (!config.BOTDOJO_API_KEY || !config.BOTDOJO_BASE_URL || !config.BOTDOJO_ACCOUNT_ID || !config.BOTDOJO_PROJECT_ID || !config.BOTDOJO_TEXT_FLOW_ID || !config.BOTDOJO_PRODUCTS_FLOW_ID) {
     throw new Error('BotDojo configuration is incomplete. Please provide all required BotDojo credentials (BOTDOJO_API_KEY, BOTDOJO_BASE_URL, BOTDOJO_ACCOUNT_ID, BOTDOJO_PROJECT_ID, BOTDOJO_TEXT_FLOW_ID, BOTDOJO_PRODUCTS_FLOW_ID).');
   }
 
   return {
+    ...config,
     BOTDOJO_API_KEY: config.BOTDOJO_API_KEY,
     BOTDOJO_BASE_URL: config.BOTDOJO_BASE_URL,
     BOTDOJO_ACCOUNT_ID: config.BOTDOJO_ACCOUNT_ID,
     BOTDOJO_PROJECT_ID: config.BOTDOJO_PROJECT_ID,
     BOTDOJO_TEXT_FLOW_ID: config.BOTDOJO_TEXT_FLOW_ID,
     BOTDOJO_PRODUCTS_FLOW_ID: config.BOTDOJO_PRODUCTS_FLOW_ID,
-    PRODUCT_SOURCE: config.PRODUCT_SOURCE,
-    STORE: config.STORE,
   };
 }
 
-// Helper function to get BotDojoService instance from request body
+// Helper function to get a BotDojoService instance for one of the request's flows
 // flowType: 'text' uses BOTDOJO_TEXT_FLOW_ID, 'products' uses BOTDOJO_PRODUCTS_FLOW_ID
-function getBotDojoService(req: Request, requestConfig: {
-  BOTDOJO_API_KEY: string;
-  BOTDOJO_BASE_URL: string;
-  BOTDOJO_ACCOUNT_ID: string;
-  BOTDOJO_PROJECT_ID: string;
-  BOTDOJO_TEXT_FLOW_ID: string;
-  BOTDOJO_PRODUCTS_FLOW_ID: string;
-}, flowType: 'text' | 'products'): BotDojoService {
+function getBotDojoService(requestConfig: BotDojoRequestConfig & RequestConfig, flowType: 'text' | 'products'): BotDojoService {
   const flowId = flowType === 'text' ? requestConfig.BOTDOJO_TEXT_FLOW_ID : requestConfig.BOTDOJO_PRODUCTS_FLOW_ID;
   const serviceConfig = {
     apiKey: requestConfig.BOTDOJO_API_KEY,
@@ -167,15 +321,600 @@ function getBotDojoService(req: Request, requestConfig: {
     accountId: requestConfig.BOTDOJO_ACCOUNT_ID,
     projectId: requestConfig.BOTDOJO_PROJECT_ID,
     flowId,
+    tenantId: requestConfig.TENANT_ID,
     mediaBase: botdojoConfig.mediaBase,
   };
 
   return new BotDojoService(serviceConfig as any);
 }
 
+// Helper function to build the cache scope for a request, so cached answers never cross tenants, flows or stores
+function getCacheScope(requestConfig: BotDojoRequestConfig & RequestConfig, flowType: 'text' | 'products'): CacheScope {
+  return {
+    tenantId: requestConfig.TENANT_ID,
+    accountId: requestConfig.BOTDOJO_ACCOUNT_ID,
+    projectId: requestConfig.BOTDOJO_PROJECT_ID,
+    flowId: flowType === 'text' ? requestConfig.BOTDOJO_TEXT_FLOW_ID : requestConfig.BOTDOJO_PRODUCTS_FLOW_ID,
+    store: requestConfig.STORE,
+    productSource: requestConfig.PRODUCT_SOURCE,
+    // initData callers choose their own BotDojo endpoint and key; account/project/flow ids alone don't prove access
+    credentialDigest: getCredentialDigest(requestConfig, requestConfig.BOTDOJO_BASE_URL, requestConfig.BOTDOJO_API_KEY)
+  };
+}
+
+// Helper function to tie cache entries of initData callers to the credentials they were fetched with
+// Tenant credentials come from the registry, so the tenant id already scopes them
+function getCredentialDigest(config: RequestConfig, ...credentials: string[]): string | undefined {
+  return config.TENANT_ID ? undefined : crypto.createHash('sha256').update(JSON.stringify(credentials)).digest('hex');
+}
+
+// Helper function to tie upstream BotDojo calls to the client connection
+// The response's 'close' event fires before it finishes only when the client went away (stop button, tab closed),
+// in which case the upstream flow run is aborted instead of being read to completion
+function getClientAbortSignal(req: Request, res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      logger.info('Client disconnected, aborting upstream request', {
+        requestId: req.headers['x-request-id'] as string,
+        path: req.path
+      });
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+// Helper function to start PII redaction for a request
+// The widget can name people to redact (REDACT_NAMES) on top of REDACTION_NAMES_FILE
+function createRedactionSession(body: unknown): RedactionSession {
+  const { redactNames } = (body ?? {}) as ChatRequest;
+
+  if (redactNames !== undefined) {
+    validateArray(redactNames, 'redactNames');
+    if (redactNames.length > 100) {
+      throw new ValidationError('redactNames must have no more than 100 entries');
+    }
+    redactNames.forEach((name, index) => validateString(name, `redactNames[${index}]`, 100));
+  }
+
+  return redactor.createSession(redactNames);
+}
+
+interface ConversationContext {
+  conversationId?: string;
+  memoryScope: ConversationMemoryScope;
+  history: ConversationTurn[];
+  redaction: RedactionSession;
+}
+
+// Helper function to resolve the conversation id and prior turns for multi-turn memory
+// Server-held history wins; client-supplied history is the fallback (e.g. after a restart).
+// Client history is redacted either way, so the session can restore values from earlier turns in the answer.
+// Server-held history belongs to the tenant (or BotDojo account) and session subject, so a guessed conversation id reads nothing.
+function getConversationContext(body: unknown, redaction: RedactionSession, config: RequestConfig, subject: string | undefined): ConversationContext {
+  const { conversationId, history } = (body ?? {}) as ChatRequest;
+
+  if (conversationId !== undefined) {
+    validateString(conversationId, 'conversationId', 100);
+  }
+  if (history !== undefined) {
+    validateArray(history, 'history');
+    if (history.length > 100) {
+      throw new ValidationError('history must have no more than 100 turns');
+    }
+  }
+
+  // Only the turns that can be forwarded are redacted
+  const clientHistory = history && redaction.redactTurns(conversationMemory.selectClientHistory(history));
+  const memoryScope: ConversationMemoryScope = { tenantId: config.TENANT_ID, accountId: config.BOTDOJO_ACCOUNT_ID ?? '', subject };
+  return {
+    conversationId,
+    memoryScope,
+    history: conversationMemory.resolveHistory(memoryScope, conversationId, clientHistory),
+    redaction
+  };
+}
+
+// Helper function to build the flow body options shared by the text and products flows
+function getFlowOptions(requestConfig: BotDojoRequestConfig, conversation: ConversationContext): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  if (requestConfig.PRODUCT_SOURCE) {
+    options.product_source = requestConfig.PRODUCT_SOURCE;
+  }
+  if (requestConfig.STORE) {
+    options.store = requestConfig.STORE;
+  }
+  if (conversation.conversationId) {
+    options.conversation_id = conversation.conversationId;
+  }
+  if (conversation.history.length > 0) {
+    options.chat_history = conversation.history;
+  }
+  return options;
+}
+
+// Helper function to run the text + suggested questions flow (BOTDOJO_TEXT_FLOW_ID)
+// Follow-up answers depend on prior turns, so only first turns are served from / written to the cache.
+// Returns null when the client went away: cancelled generations are neither cached nor remembered.
+// Cached answers report no progress: there is no flow run behind them.
+// The cache and conversation memory keep the redacted text; what is streamed and returned has placeholders restored.
+// Answers pass the safety guardrails on the way out: the cache keeps the flow's answer, memory keeps what the user saw.
+async function runTextFlow(
+  requestConfig: BotDojoRequestConfig & RequestConfig,
+  conversation: ConversationContext,
+  message: string,
+  safety: SafetyReview,
+  signal: AbortSignal,
+  onChunk: (data: { text: string; suggestedQuestions: string[] }) => void,
+  onProgress?: (progress: ToolProgress) => void
+): Promise<{ text: string; suggestedQuestions: string[]; safety?: SafetyReport } | null> {
+  const { redaction } = conversation;
+  if (safety.isBlocked) {
+    // A block rule matched the message itself: the flow is not run
+    const reviewed = safety.finish('');
+    return { text: reviewed.text, suggestedQuestions: [], safety: reviewed.report };
+  }
+
+  const textService = getBotDojoService(requestConfig, 'text');
+  const isFirstTurn = conversation.history.length === 0;
+  const cacheScope = getCacheScope(requestConfig, 'text');
+
+  let transformed: ChatResponse;
+  const cachedResponse = isFirstTurn ? await cacheManager.getBotDojoResponse(cacheScope, message, { type: 'text' }) : undefined;
+  if (cachedResponse && cachedResponse.response) {
+    transformed = textService.transformToNewFormat(cachedResponse);
+  } else {
+    const textResponse = await textService.streamMessage(message, (data) => {
+      const text = redaction.restore(safety.apply(data.text), true);
+      onChunk({ text, suggestedQuestions: safety.isBlocked ? [] : data.suggestedQuestions.map((question) => redaction.restore(question)) });
+    }, getFlowOptions(requestConfig, conversation), signal, onProgress);
+    if (signal.aborted) {
+      return null;
+    }
+    transformed = textService.transformToNewFormat(textResponse);
+    if (isFirstTurn) {
+      // Don't hold the "done" event on the cache write
+      void cacheManager.setBotDojoResponse(cacheScope, message, { response: { text: transformed.text, suggestedQuestions: transformed.suggestedQuestions, products: [] } }, { type: 'text' });
+    }
+  }
+
+  const reviewed = safety.finish(transformed.text);
+  if (conversation.conversationId) {
+    conversationMemory.appendExchange(conversation.memoryScope, conversation.conversationId, message, reviewed.text, conversation.history);
+  }
+  return {
+    text: redaction.restore(reviewed.text),
+    suggestedQuestions: safety.isBlocked ? [] : transformed.suggestedQuestions.map((question) => redaction.restore(question)),
+    safety: reviewed.report
+  };
+}
+
+// Helper function to run the products flow (BOTDOJO_PRODUCTS_FLOW_ID) and return the recommended SKUs
+// Like the text flow, only first turns are cached; returns null when the client went away
+async function runProductsFlow(
+  requestConfig: BotDojoRequestConfig & RequestConfig,
+  conversation: ConversationContext,
+  message: string,
+  signal: AbortSignal
+): Promise<string[] | null> {
+  const productsService = getBotDojoService(requestConfig, 'products');
+  const isFirstTurn = conversation.history.length === 0;
+  const cacheScope = getCacheScope(requestConfig, 'products');
+
+  const cachedSkus = isFirstTurn ? await cacheManager.getProductSkus(cacheScope, message) : undefined;
+  if (cachedSkus) {
+    return cachedSkus;
+  }
+
+  const productsResponse = await productsService.sendMessage(message, getFlowOptions(requestConfig, conversation), signal, true);
+  if (signal.aborted) {
+    return null;
+  }
+  const skus = productsService.transformToNewFormat(productsResponse).products.map((p) => p.sku);
+  if (isFirstTurn) {
+    void cacheManager.setProductSkus(cacheScope, message, skus, cacheBackendConfig.productSkusTtlSeconds);
+  }
+  return skus;
+}
+
+// Catalog API credentials needed to look up product details
+interface CatalogAccess {
+  sourceApiBaseUrl: string;
+  sourceAuthToken: string;
+  practiceToken?: string;
+  sourceAppType?: string;
+}
+
+// Helper function to turn SKUs as the products flow writes them ("ABC 123") into catalog SKUs ("ABC-123")
+// The widget does the same before calling /product-info, so cached details match either way
+function toCatalogSku(sku: string): string {
+  return sku.split(' ').join('-');
+}
+
+// Helper function to get the catalog credentials from the request configuration, or null if they are incomplete
+function getCatalogAccess(config: RequestConfig): CatalogAccess | null {
+  if (!config.SOURCE_API_BASE_URL || !config.SOURCE_AUTH_TOKEN) {
+    return null;
+  }
+  return {
+    sourceApiBaseUrl: config.SOURCE_API_BASE_URL,
+    sourceAuthToken: config.SOURCE_AUTH_TOKEN,
+    practiceToken: config.SOURCE_PRACTICE_TOKEN,
+    sourceAppType: config.SOURCE_APP_TYPE
+  };
+}
+
+// Helper function to fetch catalog details for SKUs (served from cache with stale-while-revalidate)
+// Details are cached unfiltered; the cux hide_on_curation filter below is applied on every call.
+// Per-SKU failures are logged and reported in failed instead of failing the whole lookup.
+async function loadProductDetails(
+  requestId: string,
+  config: RequestConfig,
+  catalog: CatalogAccess,
+  skus: string[],
+  product_source: string | undefined
+): Promise<{ products: Record<string, unknown>[]; failed: string[] }> {
+  const { sourceApiBaseUrl, sourceAuthToken, practiceToken, sourceAppType } = catalog;
+  const catalogScope: CatalogScope = {
+    tenantId: config.TENANT_ID,
+    accountId: config.BOTDOJO_ACCOUNT_ID ?? '',
+    sourceApiBaseUrl,
+    practiceToken,
+    store: config.STORE,
+    productSource: product_source,
+    credentialDigest: getCredentialDigest(config, sourceApiBaseUrl, sourceAuthToken)
+  };
+
+  // Fetch product info for each SKU (served from cache with stale-while-revalidate)
+  const fetchProductDetail = async (sku: string): Promise<unknown> => {
+    const productUrl = `${sourceApiBaseUrl}/dispensary/catalog/product/${sku}`;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${sourceAuthToken}`,
+    };
+
+    // Only include Practice-Token header if practiceToken is provided
+    if (practiceToken) {
+      headers['Practice-Token'] = practiceToken;
+    }
+
+    return withSpan('catalog.fetch_product', { 'catalog.sku': sku, 'tenant.id': config.TENANT_ID ?? 'none' }, async (span) => {
+      const response = await fetch(productUrl, {
+        method: 'GET',
+        headers: injectTraceHeaders(headers),
+      }).catch((error: unknown) => {
+        metrics.recordProductInfoFailure('network', config.TENANT_ID);
+        throw error;
+      });
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+
+      if (!response.ok) {
+        metrics.recordProductInfoFailure(response.status, config.TENANT_ID);
+        logger.warn('Failed to fetch product info', {
+          requestId,
+          sku,
+          status: response.status,
+          statusText: response.statusText
+        });
+        throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+      }
+
+      const productData = await response.json();
+      logger.info('Successfully fetched product info', { requestId, sku });
+      return productData;
+    }, SpanKind.CLIENT);
+  };
+
+  const productInfoPromises = skus.map(async (sku: string) => {
+    try {
+      const data = await cacheManager.getProductDetail(catalogScope, sku, () => fetchProductDetail(sku), {
+        freshSeconds: cacheBackendConfig.productDetailFreshSeconds,
+        staleSeconds: cacheBackendConfig.productDetailStaleSeconds
+      });
+      return { sku, data };
+    } catch (error) {
+      logger.error('Error fetching product info', {
+        requestId,
+        sku,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return { sku, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+
+  const productResults = await Promise.all(productInfoPromises);
+  const failedProducts = productResults.filter(result => result.error);
+
+  /**
+    cux:
+      - catalog:  don't show hideOnCuration products
+      - lab_tests:  don't show hideOnCuration products
+      - recommendation:  (as it is, no change)
+    dispensary:
+      - (as it is, no change)
+  */
+  let successfulProducts = null;
+  switch (sourceAppType) {
+    case 'cux':
+      if (product_source === 'catalog' || product_source === 'lab_tests') {
+        successfulProducts = productResults.filter(result => !result.error && !(result.data as { hide_on_curation?: boolean }).hide_on_curation);
+      } else {
+        successfulProducts = productResults.filter(result => !result.error);
+      }
+      break;
+    case 'dispensary':
+      successfulProducts = productResults.filter(result => !result.error);
+      break;
+    default:
+      successfulProducts = productResults.filter(result => !result.error);
+      break;
+  }
+
+  if (failedProducts.length > 0) {
+    logger.warn('Some products failed to fetch', {
+      requestId,
+      failed: failedProducts.map(p => p.sku)
+    });
+  }
+
+  return {
+    products: successfulProducts ? successfulProducts.map(p => {
+      const product = { sku: p.sku };
+      if (p.data && typeof p.data === 'object') {
+        return { ...product, ...(p.data as Record<string, any>) };
+      }
+      return product;
+    }) : [],
+    failed: failedProducts.map(p => p.sku)
+  };
+}
+
+// Helper function to read the tenant a request was authenticated for, to label metrics
+function getAuthTenantId(res: Response): string | undefined {
+  return (res.locals.auth as AuthContext | undefined)?.tenantId;
+}
+
+// Helper function to log and count the guardrail rules a chat turn matched
+function recordSafetyReport(requestId: string, requestConfig: RequestConfig, report: SafetyReport): void {
+  logger.info('Safety guardrails matched', {
+    requestId,
+    action: report.action,
+    rules: report.findings.map((finding) => `${finding.rule}:${finding.source}`)
+  });
+  for (const finding of report.findings) {
+    metrics.recordSafetyFinding(finding.rule, finding.action, requestConfig.TENANT_ID);
+  }
+}
+
+// Helper function to identify who a chat stream belongs to (tenant, or BotDojo account for initData callers)
+function getStreamOwner(config: RequestConfig): string {
+  return tenantKeyPrefix({ tenantId: config.TENANT_ID, accountId: config.BOTDOJO_ACCOUNT_ID ?? '' });
+}
+
+// Helper function to attach a response to a resumable chat stream
+// Events carry `<streamId>:<seq>` ids so a client that lost its connection can resume with Last-Event-ID,
+// and heartbeat comments keep proxies from dropping the connection while a flow is busy with slow tool calls
+function attachChatStream(req: Request, res: Response, run: ResumableStream<ChatStreamEvent>, afterSeq: number): void {
+  const stream = new SseStream<ChatStreamEvent>(res, getAuthTenantId(res));
+  res.setHeader('X-Stream-Id', run.id);
+  stream.open(streamConfig.heartbeatMs);
+
+  const detach = run.attach(afterSeq, {
+    onEvent: ({ seq, event }) => {
+      stream.send(event, formatEventId(run.id, seq));
+    },
+    onEnd: () => stream.end()
+  });
+
+  // A dropped client no longer cancels the flows right away: the stream keeps running for the resume grace period,
+  // unless the client never got an event (and so has no Last-Event-ID to resume with)
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      logger.info('Client disconnected from chat stream', {
+        requestId: req.headers['x-request-id'] as string,
+        streamId: run.id
+      });
+    }
+    detach();
+  });
+}
+
+// Helper function to add a completed chat turn to the practitioner's conversation history
+// Failures are only logged: the answer has already been delivered
+function recordChatTurn(requestId: string, owner: ConversationOwner, conversationId: string, messages: StoredMessage[]): void {
+  conversationStore?.appendMessages(owner, conversationId, messages).catch((error) => {
+    logger.warn('Failed to record conversation turn', {
+      requestId,
+      conversationId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+}
+
+// Helper function to run one chat turn: the text and products flows run concurrently and their results are
+// pushed to the resumable stream as typed events (text.delta, progress, suggestions, products.skus, products.detail, safety, done, error).
+// Shared by POST /chat/stream and the /chat/ws WebSocket; never throws, failures become error events.
+// A message a block rule matched gets neither flow run: the turn ends with the block message.
+// Completed turns of a known practitioner (owner) are recorded in the conversation store as the practitioner saw them.
+async function runChatTurn(
+  run: ResumableStream<ChatStreamEvent>,
+  requestId: string,
+  requestConfig: BotDojoRequestConfig & RequestConfig,
+  conversation: ConversationContext,
+  sanitizedMessage: string,
+  owner?: ConversationOwner
+): Promise<void> {
+  const startedAt = Date.now();
+  let firstTokenAt: number | undefined;
+  let productDetails: Record<string, unknown>[] | undefined;
+
+  // Cancelled by DELETE /chat/stream/:streamId or a chat.cancel frame, or when no client has been attached for the resume grace period
+  const signal = run.signal;
+  // The turn can't complete without text, so a failed text flow also cancels the products flow
+  const productsController = new AbortController();
+  signal.addEventListener('abort', () => productsController.abort(), { once: true });
+
+  let streamedText = '';
+  let streamedSuggestions: string[] = [];
+  const sendText = (text: string) => {
+    const delta = textDelta(streamedText, text);
+    if (delta) {
+      firstTokenAt ??= Date.now();
+      streamedText = text;
+      run.push({ type: 'text.delta', ...delta });
+    }
+  };
+  const sendSuggestions = (suggestedQuestions: string[]) => {
+    if (suggestedQuestions.length > 0 && suggestedQuestions.join('\n') !== streamedSuggestions.join('\n')) {
+      streamedSuggestions = suggestedQuestions;
+      run.push({ type: 'suggestions', suggestedQuestions });
+    }
+  };
+
+  const safety = guardrails.createReview(sanitizedMessage);
+  const textTask = runTextFlow(requestConfig, conversation, sanitizedMessage, safety, signal, (data) => {
+    sendText(data.text);
+    sendSuggestions(data.suggestedQuestions);
+  }, (progress) => run.push({ type: 'progress', ...progress }));
+
+  // Products are optional: failures are reported as a non-fatal error event and the turn still completes
+  const productsTask = (async (): Promise<string[]> => {
+    if (safety.isBlocked) {
+      return [];
+    }
+    try {
+      const skus = await runProductsFlow(requestConfig, conversation, sanitizedMessage, productsController.signal);
+      if (!skus) {
+        return [];
+      }
+      run.push({ type: 'products.skus', skus });
+
+      const catalog = getCatalogAccess(requestConfig);
+      if (skus.length > 0 && catalog) {
+        const details = await loadProductDetails(requestId, requestConfig, catalog, skus.map(toCatalogSku), requestConfig.PRODUCT_SOURCE);
+        productDetails = details.products;
+        run.push({ type: 'products.detail', ...details });
+      }
+      return skus;
+    } catch (error) {
+      if (!productsController.signal.aborted && !isAbortError(error)) {
+        logger.warn('Products flow failed', { requestId, error: error instanceof Error ? error.message : 'Unknown error' });
+        run.push({ type: 'error', source: 'products', error: error instanceof Error ? error.message : 'Unknown error', retryAfter: getRetryAfter(error) });
+      }
+      return [];
+    }
+  })();
+
+  try {
+    const textResult = await textTask;
+    if (!textResult) {
+      productsController.abort();
+      return;
+    }
+    if (textResult.safety) {
+      recordSafetyReport(requestId, requestConfig, textResult.safety);
+      run.push({ type: 'safety', ...textResult.safety });
+    }
+    // Cached answers arrive here in one piece, and disclaimers are appended at the end
+    sendText(textResult.text);
+    sendSuggestions(textResult.suggestedQuestions);
+
+    const skus = await productsTask;
+    if (signal.aborted) {
+      return;
+    }
+    run.push({ type: 'done', text: textResult.text, suggestedQuestions: textResult.suggestedQuestions, products: skus, requestId });
+
+    if (owner && conversation.conversationId) {
+      const finishedAt = Date.now();
+      recordChatTurn(requestId, owner, conversation.conversationId, [
+        { role: 'user', text: conversation.redaction.restore(sanitizedMessage), createdAt: new Date(startedAt).toISOString() },
+        {
+          role: 'assistant',
+          text: textResult.text,
+          createdAt: new Date(finishedAt).toISOString(),
+          suggestedQuestions: textResult.suggestedQuestions,
+          skus,
+          products: productDetails,
+          timings: { firstTokenMs: firstTokenAt && firstTokenAt - startedAt, totalMs: finishedAt - startedAt }
+        }
+      ]);
+    }
+  } catch (error) {
+    productsController.abort();
+    if (signal.aborted || isAbortError(error)) {
+      return;
+    }
+    run.push({ type: 'error', source: 'text', error: error instanceof Error ? error.message : 'Unknown error', retryAfter: getRetryAfter(error) });
+  } finally {
+    run.finish();
+  }
+}
+
+// Helper function to handle one frame from a /chat/ws client
+// chat.send authenticates with the session token from the /session handshake, since browsers can't set headers on a WebSocket
+async function handleChatSocketFrame(connection: ChatSocketConnection, data: string, origin: string | undefined, ip: string): Promise<void> {
+  const requestId = `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  let frame: ChatSocketClientFrame | undefined;
+  let reserved = false;
+
+  try {
+    frame = parseClientFrame(data);
+
+    if (frame.type === 'chat.cancel') {
+      const cancelled = connection.cancel(frame.id);
+      logger.info('Chat turn cancelled over WebSocket', { requestId, id: frame.id, cancelled });
+      return;
+    }
+
+    // Reserved before any await, so a second frame with this id is refused and a chat.cancel sent meanwhile is kept
+    reserved = connection.reserve(frame.id);
+    if (!reserved) {
+      throw new ValidationError('A turn with this id is already running, or too many turns are running on this socket');
+    }
+    validateString(frame.message, 'message', 1000);
+
+    await enforceIpRateLimit(ip);
+    const redaction = createRedactionSession(frame);
+    const sanitizedMessage = redaction.redact(sanitizeString(frame.message));
+    logger.chatRequest(sanitizedMessage, { requestId, transport: 'websocket', redacted: redaction.redactedCount });
+
+    const session = sessionStore.resolveSession(frame.sessionToken);
+    const requestConfig = requireFlowConfig(session.config);
+    await authenticator.checkOrigin(origin, requestConfig.TENANT_ID);
+    await enforceRateLimit('chat', requestConfig, `session=${frame.sessionToken}`);
+    const conversation = getConversationContext(frame, redaction, requestConfig, session.subject);
+
+    const run = chatStreams.create(getStreamOwner(requestConfig));
+    if (!connection.attach(frame.id, run)) {
+      logger.info('Chat turn cancelled over WebSocket before it started', { requestId, id: frame.id });
+      return;
+    }
+
+    // A WebSocket has no per-message headers, so the widget sends its traceparent in the frame
+    const parent = propagation.extract(context.active(), typeof frame.traceparent === 'string' ? { traceparent: frame.traceparent } : {});
+    await context.with(parent, () => withSpan('WS chat.send', { 'request.id': requestId, 'tenant.id': requestConfig.TENANT_ID ?? 'none' }, () =>
+      runChatTurn(run, requestId, requestConfig, conversation, sanitizedMessage,
+        getConversationOwner({ method: 'session', tenantId: requestConfig.TENANT_ID, subject: session.subject })), SpanKind.SERVER));
+  } catch (error) {
+    if (reserved) {
+      connection.release(frame!.id);
+    }
+    const status = error instanceof AppError ? error.statusCode : 500;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn('Chat WebSocket frame rejected', { requestId, status, error: message });
+    if (error instanceof AuthenticationError) {
+      void rateLimiter.recordAuthFailure(ip);
+    }
+    const code = error instanceof AuthenticationError || error instanceof ForbiddenError ? error.code : undefined;
+    connection.send({ type: 'chat.error', id: frame?.id ?? (error as AppError).context?.id, status, error: message, code, retryAfter: getRetryAfter(error) });
+  }
+}
+
 // Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  const cacheStats = cacheManager.getStats();
+app.get('/health', asyncHandler(async (req: Request, res: Response) => {
+  const cacheStats = await cacheManager.getStats();
 
   res.json({
     status: 'OK',
@@ -183,24 +922,40 @@ app.get('/health', (req: Request, res: Response) => {
     version: process.env.npm_package_version || '1.0.0',
     environment: serverConfig.nodeEnv,
     cache: {
+      backend: cacheStats.backend,
       keys: cacheStats.keys,
       hitRate: Math.round(cacheStats.hitRate * 100) + '%',
       memory: {
         keys: cacheStats.ksize,
         values: cacheStats.vsize
       }
+    },
+    sessions: sessionStore.size(),
+    upstream: {
+      // Counts only: circuit names carry flow ids and their failures upstream error messages (see /admin/circuits)
+      circuits: circuitBreakers.summary()
     }
   });
-});
+}));
+
+// Prometheus metrics (METRICS_TOKEN as a bearer token; off unless a token is set or METRICS_ENABLED=true)
+if (metricsConfig.enabled) {
+  app.get('/metrics', requireMetricsToken, asyncHandler(async (req: Request, res: Response) => {
+    res.setHeader('Content-Type', metrics.contentType);
+    res.send(await metrics.render());
+  }));
+}
 
 // Public key endpoint for RSA encryption
 app.get('/encryption/public-key', (req: Request, res: Response) => {
   try {
     const publicKey = getPublicKey();
+    const keyInfo = getKeyInfo();
     res.json({
       publicKey,
-      algorithm: 'RSA-OAEP',
-      keySize: 4096,
+      kid: getCurrentKeyId(),
+      algorithm: keyInfo.algorithm,
+      keySize: keyInfo.keySize,
       hash: 'SHA-256'
     });
   } catch (error) {
@@ -212,112 +967,180 @@ app.get('/encryption/public-key', (req: Request, res: Response) => {
   }
 });
 
+// Session handshake: exchange credentials (encrypted initData or a tenant token) for a session token
+// In initData mode the caller also presents a host token when AUTH_REQUIRED is on (checked by requireAuth)
+app.post('/session', requireAuth, asyncHandler(async (req: Request, res: Response<SessionResponse>) => {
+  const requestId = req.headers['x-request-id'] as string;
+  const config = await resolveCredentials(req);
+  await enforceRateLimit('session', config, getRateLimitClient(req));
+  const subject = (res.locals.auth as AuthContext).subject;
+  const { token, expiresAt } = sessionStore.create(config, subject);
+
+  logger.info('Session created', {
+    requestId,
+    tenantId: config.TENANT_ID,
+    auth: (res.locals.auth as AuthContext).method,
+    expiresAt: new Date(expiresAt).toISOString()
+  });
+
+  res.json({
+    sessionToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    expiresIn: sessionStore.ttlSeconds,
+    conversationHistory: conversationStore !== null && Boolean(subject)
+  });
+}));
+
+// End a session (e.g. when the widget is closed or the host user logs out)
+app.delete('/session', (req: Request, res: Response) => {
+  const sessionToken = getSessionToken(req);
+  const revoked = sessionToken ? sessionStore.revoke(sessionToken) : false;
+  res.json({ revoked });
+});
+
+// Unified chat stream: runs the text and products flows server-side and multiplexes them over one connection
+// as typed SSE events (text.delta, suggestions, products.skus, products.detail, done, error).
+// A request with Last-Event-ID resumes an earlier stream from the event after that id instead of starting a new turn.
+app.post('/chat/stream', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const requestId = req.headers['x-request-id'] as string;
+  const lastEventId = req.headers['last-event-id'];
+
+  if (typeof lastEventId === 'string' && lastEventId.length > 0) {
+    const config = await getRequestConfig(req);
+    const position = parseEventId(lastEventId);
+    const run = position ? chatStreams.get(position.streamId) : undefined;
+    // Unknown, expired, overflowed and foreign streams all look the same to the caller
+    if (!position || !run || run.owner !== getStreamOwner(config) || !run.canResume(position.seq)) {
+      throw new NotFoundError('Chat stream can no longer be resumed, please send the message again');
+    }
+    logger.info('Resuming chat stream', { requestId, streamId: run.id, afterSeq: position.seq });
+    attachChatStream(req, res, run, position.seq);
+    return;
+  }
+
+  const { message } = req.body as ChatRequest;
+
+  validateString(message, 'message', 1000);
+
+  const redaction = createRedactionSession(req.body);
+  const sanitizedMessage = redaction.redact(sanitizeString(message));
+  logger.chatRequest(sanitizedMessage, { requestId, redacted: redaction.redactedCount });
+
+  const requestConfig = await getBotDojoConfigFromBody(req);
+  await enforceRateLimit('chat', requestConfig, getRateLimitClient(req));
+  const conversation = getConversationContext(req.body, redaction, requestConfig, (res.locals.auth as AuthContext | undefined)?.subject);
+
+  const run = chatStreams.create(getStreamOwner(requestConfig));
+  attachChatStream(req, res, run, 0);
+
+  await runChatTurn(run, requestId, requestConfig, conversation, sanitizedMessage, getConversationOwner(res.locals.auth as AuthContext));
+}));
+
+// Cancel a chat stream (stop button); otherwise a stream whose client went away runs on for the resume grace period
+app.delete('/chat/stream/:streamId', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  const config = await getRequestConfig(req);
+  const run = chatStreams.get(String(req.params.streamId));
+  const cancelled = Boolean(run && run.owner === getStreamOwner(config) && !run.isFinished);
+  if (run && cancelled) {
+    run.cancel();
+  }
+  res.json({ cancelled });
+}));
+
+
 // Text + suggested questions stream (BOTDOJO_TEXT_FLOW_ID)
-app.post('/text-suggQ', asyncHandler(async (req: Request<{}, ChatResponse, ChatRequest>, res: Response) => {
+app.post('/text-suggQ', requireAuth, asyncHandler(async (req: Request<{}, ChatResponse, ChatRequest>, res: Response) => {
   const requestId = req.headers['x-request-id'] as string;
   const { message } = req.body;
 
   validateString(message, 'message', 1000);
 
-  const sanitizedMessage = sanitizeString(message);
-  logger.chatRequest(sanitizedMessage, { requestId });
+  const redaction = createRedactionSession(req.body);
+  const sanitizedMessage = redaction.redact(sanitizeString(message));
+  logger.chatRequest(sanitizedMessage, { requestId, redacted: redaction.redactedCount });
 
-  const requestConfig = getBotDojoConfigFromBody(req);
-  const textService = getBotDojoService(req, requestConfig, 'text');
-  const streamOptions: any = {};
-  if (requestConfig.PRODUCT_SOURCE) {
-    streamOptions.product_source = requestConfig.PRODUCT_SOURCE;
-  }
-  if (requestConfig.STORE) {
-    streamOptions.store = requestConfig.STORE;
-  }
+  const requestConfig = await getBotDojoConfigFromBody(req);
+  await enforceRateLimit('chat', requestConfig, getRateLimitClient(req));
+  const conversation = getConversationContext(req.body, redaction, requestConfig, (res.locals.auth as AuthContext | undefined)?.subject);
 
-  const cachedResponse = cacheManager.getBotDojoResponse(sanitizedMessage, { type: 'text' });
-  if (cachedResponse && cachedResponse.response) {
-    const transformed = textService.transformToNewFormat(cachedResponse);
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
-    if (typeof (res as any).flushHeaders === 'function') (res as any).flushHeaders();
-    res.write(`data: ${JSON.stringify({ type: 'done', response: { text: transformed.text, suggestedQuestions: transformed.suggestedQuestions } })}\n\n`);
-    res.end();
-    return;
-  }
+  const stream = new SseStream(res, getAuthTenantId(res));
+  stream.open(streamConfig.heartbeatMs);
 
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no');
-  if (typeof (res as any).flushHeaders === 'function') (res as any).flushHeaders();
+  const signal = getClientAbortSignal(req, res);
 
   try {
-    const textResponse = await textService.streamMessage(sanitizedMessage, (data: { text: string; suggestedQuestions: string[] }) => {
-      res.write(`data: ${JSON.stringify({ type: 'chunk', response: { text: data.text, suggestedQuestions: data.suggestedQuestions } })}\n\n`);
-      if (typeof (res as any).flush === 'function') (res as any).flush();
-    }, streamOptions);
-
-    const transformed = textService.transformToNewFormat(textResponse);
-    cacheManager.setBotDojoResponse(sanitizedMessage, { response: { text: transformed.text, suggestedQuestions: transformed.suggestedQuestions, products: [] } }, { type: 'text' });
-    res.write(`data: ${JSON.stringify({ type: 'done', response: { text: transformed.text, suggestedQuestions: transformed.suggestedQuestions } })}\n\n`);
-    res.end();
+    const safety = guardrails.createReview(sanitizedMessage);
+    const textResult = await runTextFlow(requestConfig, conversation, sanitizedMessage, safety, signal, (data: { text: string; suggestedQuestions: string[] }) => {
+      stream.sendData({ type: 'chunk', response: { text: data.text, suggestedQuestions: data.suggestedQuestions } });
+    });
+
+    if (!textResult) {
+      return;
+    }
+    if (textResult.safety) {
+      recordSafetyReport(requestId, requestConfig, textResult.safety);
+      stream.sendData({ type: 'safety', ...textResult.safety });
+    }
+    stream.sendData({ type: 'done', response: { text: textResult.text, suggestedQuestions: textResult.suggestedQuestions } });
+    stream.end();
   } catch (error) {
-    res.write(`data: ${JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' })}\n\n`);
-    res.end();
+    if (signal.aborted || isAbortError(error)) {
+      return;
+    }
+    stream.sendData({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error', retryAfter: getRetryAfter(error) });
+    stream.end();
   }
 }));
 
 // Products stream (BOTDOJO_PRODUCTS_FLOW_ID)
-app.post('/products', asyncHandler(async (req: Request<{}, ChatResponse, ChatRequest>, res: Response) => {
+app.post('/products', requireAuth, asyncHandler(async (req: Request<{}, ChatResponse, ChatRequest>, res: Response) => {
   const requestId = req.headers['x-request-id'] as string;
   const { message } = req.body;
 
   validateString(message, 'message', 1000);
 
-  const sanitizedMessage = sanitizeString(message);
-  logger.chatRequest(sanitizedMessage, { requestId });
+  const redaction = createRedactionSession(req.body);
+  const sanitizedMessage = redaction.redact(sanitizeString(message));
+  logger.chatRequest(sanitizedMessage, { requestId, redacted: redaction.redactedCount });
 
-  const requestConfig = getBotDojoConfigFromBody(req);
-  const productsService = getBotDojoService(req, requestConfig, 'products');
-  const streamOptions: any = {};
-  if (requestConfig.PRODUCT_SOURCE) {
-    streamOptions.product_source = requestConfig.PRODUCT_SOURCE;
-  }
-  if (requestConfig.STORE) {
-    streamOptions.store = requestConfig.STORE;
-  }
+  const requestConfig = await getBotDojoConfigFromBody(req);
+  await enforceRateLimit('products', requestConfig, getRateLimitClient(req));
+  const conversation = getConversationContext(req.body, redaction, requestConfig, (res.locals.auth as AuthContext | undefined)?.subject);
+
+  const stream = new SseStream(res, getAuthTenantId(res));
+  stream.open(streamConfig.heartbeatMs);
 
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no');
-  if (typeof (res as any).flushHeaders === 'function') (res as any).flushHeaders();
+  const signal = getClientAbortSignal(req, res);
 
   try {
-    const productsResponse = await productsService.sendMessage(sanitizedMessage, streamOptions);
-    const transformed = productsService.transformToNewFormat(productsResponse);
-    const skuArray = transformed.products.map((p) => p.sku);
-    res.write(`data: ${JSON.stringify({ type: 'done', response: { products: skuArray } })}\n\n`);
-    res.end();
+    const skuArray = await runProductsFlow(requestConfig, conversation, sanitizedMessage, signal);
+    if (!skuArray) {
+      return;
+    }
+    stream.sendData({ type: 'done', response: { products: skuArray } });
+    stream.end();
   } catch (error) {
-    res.write(`data: ${JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' })}\n\n`);
-    res.end();
+    if (signal.aborted || isAbortError(error)) {
+      return;
+    }
+    stream.sendData({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error', retryAfter: getRetryAfter(error) });
+    stream.end();
   }
 }));
 
-// Debug endpoint to see raw BotDojo response
-app.post('/debug-botdojo', asyncHandler(async (req: Request<{}, any, ChatRequest>, res: Response) => {
+// Debug endpoint to see raw BotDojo response (admins only); body { message, tenantId } or { message, initData }
+app.post('/admin/debug/botdojo', requireDebugRoutes, requireAdmin, asyncHandler(async (req: Request<{}, any, ChatRequest>, res: Response) => {
   const requestId = req.headers['x-request-id'] as string;
   const { message } = req.body;
 
   // Input validation
   validateString(message, 'message', 1000);
 
-  const sanitizedMessage = sanitizeString(message);
+  const sanitizedMessage = createRedactionSession(req.body).redact(sanitizeString(message));
   logger.info('Debug BotDojo request', { requestId, message: sanitizedMessage });
 
-  const requestConfig = getBotDojoConfigFromBody(req);
-  const service = getBotDojoService(req, requestConfig, 'text');
+  const requestConfig = requireFlowConfig(await getAdminRequestConfig(req));
+  const service = getBotDojoService(requestConfig, 'text');
   const sendOptions: any = {};
   if (requestConfig.PRODUCT_SOURCE) {
     sendOptions.product_source = requestConfig.PRODUCT_SOURCE;
@@ -343,24 +1166,33 @@ app.post('/debug-botdojo', asyncHandler(async (req: Request<{}, any, ChatRequest
 }));
 
 // Suggestions endpoint for multiple question sets
-app.post('/suggestions', asyncHandler(async (req: Request<{}, SuggestionsResponse, SuggestionsRequest>, res: Response<SuggestionsResponse>) => {
+app.post('/suggestions', requireAuth, asyncHandler(async (req: Request<{}, SuggestionsResponse, SuggestionsRequest>, res: Response<SuggestionsResponse>) => {
   const requestId = req.headers['x-request-id'] as string;
   const { context = '', currentSetIndex = 0 } = req.body;
 
   // Input validation
   validateNumber(currentSetIndex, 'currentSetIndex', 0);
 
-  const sanitizedContext = sanitizeString(context);
+  const redaction = createRedactionSession(req.body);
+  const sanitizedContext = redaction.redact(sanitizeString(context));
   logger.info('Suggestions request', { requestId, context: sanitizedContext, currentSetIndex });
 
-  const requestConfig = getBotDojoConfigFromBody(req);
-  const service = getBotDojoService(req, requestConfig, 'text');
+  const requestConfig = await getBotDojoConfigFromBody(req);
+  await enforceRateLimit('suggestions', requestConfig, getRateLimitClient(req));
+  const service = getBotDojoService(requestConfig, 'text');
+
+  // Suggestions are cached with their placeholders; the widget gets the original values back
+  const restoreSuggestions = (suggestions: SuggestionsResponse): SuggestionsResponse => ({
+    ...suggestions,
+    suggestedQuestions: suggestions.suggestedQuestions.map((set) => set.map((question) => redaction.restore(question)))
+  });
 
   // Check cache first
-  const cachedSuggestions = cacheManager.getSuggestions(sanitizedContext, currentSetIndex);
+  const cacheScope = getCacheScope(requestConfig, 'text');
+  const cachedSuggestions = await cacheManager.getSuggestions(cacheScope, sanitizedContext, currentSetIndex);
   if (cachedSuggestions) {
     logger.info('Using cached suggestions', { requestId });
-    return res.json(cachedSuggestions);
+    return res.json(restoreSuggestions(cachedSuggestions));
   }
 
   const sendOptions: any = { requestType: "suggestions" };
@@ -370,10 +1202,24 @@ app.post('/suggestions', asyncHandler(async (req: Request<{}, SuggestionsRespons
   if (requestConfig.STORE) {
     sendOptions.store = requestConfig.STORE;
   }
-  const botdojoResponse = await service.sendMessage(
-    sanitizedContext || "Please provide suggested follow-up questions",
-    sendOptions
-  );
+  const signal = getClientAbortSignal(req, res);
+  let botdojoResponse;
+  try {
+    botdojoResponse = await service.sendMessage(
+      sanitizedContext || "Please provide suggested follow-up questions",
+      sendOptions,
+      signal,
+      true
+    );
+  } catch (error) {
+    if (signal.aborted || isAbortError(error)) {
+      return;
+    }
+    throw error;
+  }
+  if (signal.aborted) {
+    return;
+  }
 
   // Extract and normalize suggestions from BotDojo response
   const suggestedQuestions = service.extractSuggestedQuestions(botdojoResponse);
@@ -385,7 +1231,7 @@ app.post('/suggestions', asyncHandler(async (req: Request<{}, SuggestionsRespons
   };
 
   // Cache the suggestions
-  cacheManager.setSuggestions(sanitizedContext, currentSetIndex, response, 600); // 10 minutes
+  await cacheManager.setSuggestions(cacheScope, sanitizedContext, currentSetIndex, response, 600); // 10 minutes
 
   logger.info('Suggestions response', {
     requestId,
@@ -393,11 +1239,11 @@ app.post('/suggestions', asyncHandler(async (req: Request<{}, SuggestionsRespons
     currentSetIndex: response.currentSetIndex
   });
 
-  res.json(response);
+  res.json(restoreSuggestions(response));
 }));
 
 // Test endpoint for different structured content types
-app.post('/test-structured', asyncHandler(async (req: Request<{}, { messages: Message[] }, TestStructuredRequest>, res: Response) => {
+app.post('/test-structured', requireDebugRoutes, requireAuth, asyncHandler(async (req: Request<{}, { messages: Message[] }, TestStructuredRequest>, res: Response) => {
   const requestId = req.headers['x-request-id'] as string;
   const { contentType } = req.body;
 
@@ -613,7 +1459,7 @@ app.post('/test-structured', asyncHandler(async (req: Request<{}, { messages: Me
 }));
 
 // Product info endpoint
-app.post('/product-info', asyncHandler(async (req: Request<{}, ProductInfoResponse, ProductInfoRequest>, res: Response<ProductInfoResponse>) => {
+app.post('/product-info', requireAuth, asyncHandler(async (req: Request<{}, ProductInfoResponse, ProductInfoRequest>, res: Response<ProductInfoResponse>) => {
   const requestId = req.headers['x-request-id'] as string;
   const { products, product_source } = req.body;
 
@@ -638,45 +1484,27 @@ app.post('/product-info', asyncHandler(async (req: Request<{}, ProductInfoRespon
     products
   });
 
-  // Get SOURCE_API_BASE_URL, SOURCE_PRACTICE_TOKEN, SOURCE_AUTH_TOKEN, and SOURCE_APP_TYPE from initData
+  // Get SOURCE_API_BASE_URL, SOURCE_PRACTICE_TOKEN, SOURCE_AUTH_TOKEN, and SOURCE_APP_TYPE from the tenant registry or initData
   let sourceApiBaseUrl: string | undefined;
   let practiceToken: string | undefined;
   let sourceAuthToken: string | undefined;
   let sourceAppType: string | undefined;
+  let config: RequestConfig = {};
 
   try {
-    const body = req.body as any;
-    const configData = body?.initData;
-
-    if (configData) {
-      let configString: string | undefined;
-
-      // Check if the data is encrypted
-      if (typeof configData === 'string' && isEncryptedData(configData)) {
-        try {
-          configString = decryptData(configData);
-        } catch (error) {
-          logger.error('Failed to decrypt initData for product-info', { requestId, error });
-        }
-      } else {
-        if (typeof configData === 'string') {
-          configString = configData;
-        } else {
-          configString = JSON.stringify(configData);
-        }
-      }
-
-      if (configString) {
-        const config = JSON.parse(configString);
-        sourceApiBaseUrl = config.SOURCE_API_BASE_URL;
-        practiceToken = config.SOURCE_PRACTICE_TOKEN;
-        sourceAuthToken = config.SOURCE_AUTH_TOKEN;
-        sourceAppType = config.SOURCE_APP_TYPE;
-      }
-    }
+    config = await getRequestConfig(req);
+    sourceApiBaseUrl = config.SOURCE_API_BASE_URL;
+    practiceToken = config.SOURCE_PRACTICE_TOKEN;
+    sourceAuthToken = config.SOURCE_AUTH_TOKEN;
+    sourceAppType = config.SOURCE_APP_TYPE;
   } catch (error) {
+    // Authentication failures must surface; malformed legacy initData falls through to the checks below
+    if (error instanceof AppError) {
+      throw error;
+    }
     logger.warn('Failed to extract config from initData', { requestId, error });
   }
+  await enforceRateLimit('products', config, getRateLimitClient(req));
 
   if (!sourceApiBaseUrl) {
     logger.warn('SOURCE_API_BASE_URL not found in initData', { requestId });
@@ -694,93 +1522,146 @@ app.post('/product-info', asyncHandler(async (req: Request<{}, ProductInfoRespon
     });
   }
 
-  // Fetch product info for each SKU
-  const productInfoPromises = products.map(async (sku: string) => {
-    try {
-      const productUrl = `${sourceApiBaseUrl}/dispensary/catalog/product/${sku}`;
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${sourceAuthToken}`,
-      };
-
-      // Only include Practice-Token header if practiceToken is provided
-      if (practiceToken) {
-        headers['Practice-Token'] = practiceToken;
-      }
+  const { products: details } = await loadProductDetails(
+    requestId,
+    config,
+    { sourceApiBaseUrl, sourceAuthToken, practiceToken, sourceAppType },
+    products,
+    product_source
+  );
 
-      const response = await fetch(productUrl, {
-        method: 'GET',
-        headers,
-      });
+  res.json({
+    success: true,
+    products: details
+  });
+}));
 
-      if (!response.ok) {
-        logger.warn('Failed to fetch product info', {
-          requestId,
-          sku,
-          status: response.status,
-          statusText: response.statusText
-        });
-        return { sku, error: `Failed to fetch: ${response.status} ${response.statusText}` };
-      }
+// Practitioner feedback on an answer, or on one product recommended with it, kept with the turn's request id for flow tuning
+// Question, answer and comment are redacted like chat messages before they are stored
+app.post('/feedback', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  if (!feedbackStore) {
+    throw new NotFoundError('Feedback is not enabled on this server');
+  }
+  const requestId = req.headers['x-request-id'] as string;
+  const body = (req.body ?? {}) as FeedbackRequest;
+  const { target = 'answer', rating, reasons = [], skus = [] } = body;
 
-      const productData = await response.json();
-      logger.info('Successfully fetched product info', { requestId, sku });
-      return { sku, data: productData };
-    } catch (error) {
-      logger.error('Error fetching product info', {
-        requestId,
-        sku,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-      return { sku, error: error instanceof Error ? error.message : 'Unknown error' };
-    }
+  // Input validation
+  validateString(body.messageId, 'messageId', 100);
+  if (body.conversationId !== undefined) {
+    validateString(body.conversationId, 'conversationId', 100);
+  }
+  if (body.requestId !== undefined) {
+    validateString(body.requestId, 'requestId', 100);
+  }
+  validateEnum(target, 'target', ['answer', 'product']);
+  validateEnum(rating, 'rating', ['helpful', 'not_helpful']);
+  if (target === 'product') {
+    validateString(body.sku, 'sku', 100);
+  }
+  validateArray(reasons, 'reasons');
+  reasons.forEach((reason, index) => validateEnum(reason, `reasons[${index}]`, FEEDBACK_REASONS[target]));
+  if (body.comment !== undefined && body.comment !== '') {
+    validateString(body.comment, 'comment', 2000);
+  }
+  validateString(body.question, 'question', 10000);
+  validateString(body.answer, 'answer', 20000);
+  validateArray(skus, 'skus');
+  if (skus.length > 100) {
+    throw new ValidationError('skus must have no more than 100 entries');
+  }
+  skus.forEach((sku, index) => validateString(sku, `skus[${index}]`, 100));
+
+  const config = await getRequestConfig(req);
+  await enforceRateLimit('feedback', config, getRateLimitClient(req));
+  const redaction = createRedactionSession(req.body);
+
+  const record = await feedbackStore.save({
+    tenantId: config.TENANT_ID,
+    accountId: config.TENANT_ID ? undefined : config.BOTDOJO_ACCOUNT_ID,
+    practitionerId: (res.locals.auth as AuthContext | undefined)?.subject,
+    messageId: body.messageId,
+    conversationId: body.conversationId,
+    requestId: body.requestId,
+    target,
+    sku: target === 'product' ? body.sku : undefined,
+    rating,
+    reasons: [...new Set(reasons)],
+    comment: body.comment ? redaction.redact(sanitizeString(body.comment)) : undefined,
+    question: redaction.redact(sanitizeString(body.question)),
+    answer: redaction.redact(body.answer),
+    skus
   });
 
-  const productResults = await Promise.all(productInfoPromises);
-  const failedProducts = productResults.filter(result => result.error);
+  metrics.recordFeedback(rating, target, config.TENANT_ID);
+  logger.info('Feedback recorded', { requestId, feedbackId: record.id, turnRequestId: body.requestId, target, rating, reasons: record.reasons });
+  res.status(201).json({ id: record.id });
+}));
 
-  /**
-    cux:
-      - catalog:  don't show hideOnCuration products
-      - lab_tests:  don't show hideOnCuration products
-      - recommendation:  (as it is, no change)
-    dispensary:
-      - (as it is, no change)
-  */
-  let successfulProducts = null;
-  switch (sourceAppType) {
-    case 'cux':
-      if (product_source === 'catalog' || product_source === 'lab_tests') {
-        successfulProducts = productResults.filter(result => !result.error && !(result.data as { hide_on_curation?: boolean }).hide_on_curation);
-      } else {
-        successfulProducts = productResults.filter(result => !result.error);
-      }
-      break;
-    case 'dispensary':
-      successfulProducts = productResults.filter(result => !result.error);
-      break;
-    default:
-      successfulProducts = productResults.filter(result => !result.error);
-      break;
-  }
+// Most events accepted in one POST /events batch
+const MAX_EVENTS_PER_BATCH = 50;
 
-  if (failedProducts.length > 0) {
-    logger.warn('Some products failed to fetch', {
-      requestId,
-      failed: failedProducts.map(p => p.sku)
-    });
+const ANALYTICS_EVENT_TYPES: AnalyticsEventType[] = [
+  'question_asked', 'products_shown', 'sidebar_opened', 'product_selected', 'suggestion_clicked', 'cancelled'
+];
+
+// Widget analytics (questions asked, products shown and selected, suggestions clicked, cancels), sent in batches
+// Questions are redacted like chat messages before they are stored
+app.post('/events', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  if (!analyticsStore) {
+    throw new NotFoundError('Analytics is not enabled on this server');
   }
+  const body = (req.body ?? {}) as EventsRequest;
 
-  res.json({
-    success: true,
-    products: successfulProducts ? successfulProducts.map(p => {
-      const product = { sku: p.sku };
-      if (p.data && typeof p.data === 'object') {
-        return { ...product, ...(p.data as Record<string, any>) };
+  // Input validation
+  validateArray(body.events, 'events');
+  if (body.events.length === 0 || body.events.length > MAX_EVENTS_PER_BATCH) {
+    throw new ValidationError(`events must have between 1 and ${MAX_EVENTS_PER_BATCH} entries`);
+  }
+  body.events.forEach((event, index) => {
+    const field = `events[${index}]`;
+    if (!event || typeof event !== 'object') {
+      throw new ValidationError(`${field} must be an object`);
+    }
+    validateEnum(event.type, `${field}.type`, ANALYTICS_EVENT_TYPES);
+    for (const key of ['conversationId', 'messageId', 'requestId', 'sku'] as const) {
+      if (event[key] !== undefined) {
+        validateString(event[key], `${field}.${key}`, 100);
       }
-      return product;
-    }) : []
+    }
+    if (event.question !== undefined) {
+      validateString(event.question, `${field}.question`, 10000);
+    }
+    if (event.skus !== undefined) {
+      validateArray(event.skus, `${field}.skus`);
+      if (event.skus.length > 100) {
+        throw new ValidationError(`${field}.skus must have no more than 100 entries`);
+      }
+      event.skus.forEach((sku, skuIndex) => validateString(sku, `${field}.skus[${skuIndex}]`, 100));
+    }
   });
+
+  const config = await getRequestConfig(req);
+  await enforceRateLimit('events', config, getRateLimitClient(req));
+  const redaction = createRedactionSession(req.body);
+
+  const events = body.events.map((event) => ({
+    type: event.type,
+    conversationId: event.conversationId,
+    messageId: event.messageId,
+    requestId: event.requestId,
+    question: event.question === undefined ? undefined : redaction.redact(sanitizeString(event.question)),
+    skus: event.skus,
+    sku: event.sku
+  }));
+  await analyticsStore.record({
+    tenantId: config.TENANT_ID,
+    accountId: config.TENANT_ID ? undefined : config.BOTDOJO_ACCOUNT_ID,
+    practitionerId: (res.locals.auth as AuthContext | undefined)?.subject
+  }, events);
+
+  events.forEach((event) => metrics.recordAnalyticsEvent(event.type, config.TENANT_ID));
+  res.status(202).json({ accepted: events.length });
 }));
 
 // Serve static files from the built frontend (after API routes)
@@ -789,18 +1670,21 @@ app.use(express.static(path.join(__dirname, '../../dist')));
 // Serve static files from the public directory (fallback)
 app.use(express.static('public'));
 
-// Cache management endpoint (for debugging)
-app.get('/cache/stats', (req: Request, res: Response) => {
-  const stats = cacheManager.getStats();
-  res.json(stats);
-});
+// Admin operations: cache keys, recent logs, tenant configuration (ADMIN_TOKEN or a host token with ADMIN_ROLE)
+app.use('/admin', requireAdmin, adminRouter);
 
-app.post('/cache/clear', (req: Request, res: Response) => {
-  cacheManager.clear();
-  res.json({ message: 'Cache cleared successfully' });
-});
+// Conversation history of the practitioner named by the session or host token
+app.use('/conversations', requireAuth, conversationsRouter);
 
 
+// Count failed authentications per IP, so an IP guessing tokens is turned away before authentication
+app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+  if (error instanceof AuthenticationError) {
+    void rateLimiter.recordAuthFailure(req.ip ?? 'unknown');
+  }
+  next(error);
+});
+
 // Error handling middleware
 app.use(errorHandler);
 
@@ -812,20 +1696,76 @@ const server = app.listen(serverConfig.port, () => {
   });
 });
 
+// WebSocket transport for hosts behind proxies that buffer text/event-stream: the same turns and events as POST /chat/stream
+const chatSocketServer = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+server.on('upgrade', (req, socket, head) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname !== '/chat/ws') {
+    socket.destroy();
+    return;
+  }
+  // Browsers don't apply CORS to WebSockets, so the origin is checked here and again per turn for the session's tenant
+  authenticator.isOriginAllowed(req.headers.origin).then((allowed) => {
+    if (!allowed) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    chatSocketServer.handleUpgrade(req, socket, head, (ws) => chatSocketServer.emit('connection', ws, req));
+  }, () => socket.destroy());
+});
+
+chatSocketServer.on('connection', (ws, req: IncomingMessage) => {
+  const connection = new ChatSocketConnection(ws, streamConfig.heartbeatMs);
+  ws.on('message', (data) => {
+    void handleChatSocketFrame(connection, data.toString(), req.headers.origin, req.socket.remoteAddress ?? 'unknown');
+  });
+});
+
+// Helper function to close WebSocket clients, which would otherwise keep server.close() waiting
+function closeChatSockets(): void {
+  chatSocketServer.clients.forEach((client) => client.close(1001, 'Server shutting down'));
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    cacheManager.close();
+  closeChatSockets();
+  server.close(async () => {
+    await cacheManager.close();
+    await conversationStore?.close();
+    await feedbackStore?.close();
+    await analyticsStore?.close();
+    conversationMemory.close();
+    sessionStore.close();
+    await shutdownTracing();
     logger.info('Process terminated');
     process.exit(0);
   });
 });
 
+// Reload the encryption keystore (e.g. after adding a new key for rotation)
+process.on('SIGHUP', () => {
+  try {
+    loadKeyStore();
+  } catch (error) {
+    logger.error('Failed to reload encryption keystore, keeping current keys', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
-  server.close(() => {
-    cacheManager.close();
+  closeChatSockets();
+  server.close(async () => {
+    await cacheManager.close();
+    await conversationStore?.close();
+    await feedbackStore?.close();
+    await analyticsStore?.close();
+    conversationMemory.close();
+    sessionStore.close();
+    await shutdownTracing();
     logger.info('Process terminated');
     process.exit(0);
   });
@@ -1,5 +1,6 @@
 import dotenv from "dotenv";
 import path from "path";
+import type { IpRateLimitRule, RateLimitRoute, RateLimitRule, SafetyRule } from "../types";
 
 // Get __dirname equivalent for CommonJS (available at runtime after compilation)
 // TypeScript needs this declaration since we're using ES6 imports but compiling to CommonJS
@@ -18,9 +19,139 @@ export interface BotDojoConfig {
   mediaBase: string;
 }
 
+export interface EncryptionConfig {
+  keysDir?: string;
+  keysJson?: string;
+  activeKeyId?: string;
+}
+
+export interface TenantRegistryConfig {
+  registryFile?: string;
+  legacyInitData: boolean;
+  tokenMaxAgeSeconds: number;
+}
+
+export interface CacheBackendConfig {
+  backend: "memory" | "redis";
+  redisUrl?: string;
+  keyPrefix: string;
+  ttlSeconds: number;
+  maxKeys: number;
+  productSkusTtlSeconds: number;
+  productDetailFreshSeconds: number;
+  productDetailStaleSeconds: number;
+}
+
+export interface UpstreamConfig {
+  connectTimeoutMs: number;
+  firstTokenTimeoutMs: number;
+  totalTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  breakerFailureThreshold: number;
+  breakerResetTimeoutMs: number;
+  breakerMaxCircuits: number;
+}
+
+export interface ReplayProtectionConfig {
+  maxAgeSeconds: number;
+  clockToleranceSeconds: number;
+  allowUnprotected: boolean;
+  backend: "memory" | "redis";
+  redisUrl?: string;
+  keyPrefix: string;
+  maxNonces: number; // memory backend only
+}
+
+export interface SessionConfig {
+  ttlSeconds: number;
+  maxSessions: number;
+  maxSessionsPerTenant: number; // Live sessions one tenant (or BotDojo account) may hold, so it can't fill the store for the others
+}
+
+export interface ConversationMemoryConfig {
+  historyWindow: number; // Maximum number of turns (user + assistant messages) forwarded to BotDojo
+  ttl: number; // Idle time in seconds before a conversation is forgotten
+  maxConversations: number; // Maximum number of conversations held in memory
+  maxTurnLength: number; // Maximum characters kept per turn
+}
+
+export interface StreamConfig {
+  heartbeatMs: number;
+  replayMaxEvents: number;
+  replayTtlMs: number;
+  resumeGraceMs: number;
+}
+
+export interface RateLimitConfig {
+  backend: "memory" | "redis";
+  redisUrl?: string;
+  keyPrefix: string;
+  routes: Record<RateLimitRoute, RateLimitRule>;
+  ip: IpRateLimitRule;
+}
+
+export interface AuthConfig {
+  jwtSecret?: string;
+  jwksFile?: string;
+  issuer?: string;
+  audience?: string;
+  required: boolean;
+  tokenMaxAgeSeconds: number;
+  allowedOrigins: string[];
+  adminToken?: string;
+  adminRole: string;
+}
+
+export interface MetricsConfig {
+  enabled: boolean;
+  token?: string;
+  prefix: string;
+}
+
+export interface TracingConfig {
+  exporter: "none" | "console" | "otlp";
+  serviceName: string;
+  sampleRatio: number;
+}
+
+export type RedactionType = "email" | "phone" | "date";
+
+export interface RedactionConfig {
+  enabled: boolean;
+  types: RedactionType[];
+  namesFile?: string;
+  patterns: Record<string, string>;
+  restore: boolean;
+  secret?: string;
+}
+
+export interface SafetyConfig {
+  enabled: boolean;
+  rules: Record<string, Partial<SafetyRule> | null>;
+  blockMessage: string;
+}
+
+export interface ConversationStoreConfig {
+  backend: "sqlite" | "none";
+  dbFile: string;
+}
+
+export interface FeedbackStoreConfig {
+  backend: "sqlite" | "none";
+  dbFile: string;
+}
+
+export interface AnalyticsStoreConfig {
+  backend: "sqlite" | "none";
+  dbFile: string;
+}
+
 export interface ServerConfig {
   port: number;
   nodeEnv: string;
+  debugRoutes: boolean;
+  logBufferSize: number;
 }
 
 // BotDojo configuration (for mediaBase only - credentials come from request body as initData field)
@@ -35,7 +166,270 @@ export const botdojoConfig: BotDojoConfig = {
 };
 
 // Server configuration
+// DEBUG_ROUTES: enable /test-structured and /admin/debug/* (defaults to off in production)
+// LOG_BUFFER_SIZE: recent log entries kept in memory for /admin/logs (0 disables the buffer)
 export const serverConfig: ServerConfig = {
   port: parseInt(process.env.PORT || "3001", 10),
   nodeEnv: process.env.NODE_ENV || "development",
+  debugRoutes: process.env.DEBUG_ROUTES
+    ? process.env.DEBUG_ROUTES === "true"
+    : process.env.NODE_ENV !== "production",
+  logBufferSize: parseInt(process.env.LOG_BUFFER_SIZE || "2000", 10),
+};
+
+// RSA keystore configuration for initData encryption
+// ENCRYPTION_KEYS_DIR: directory of PKCS8 PEM private keys, file name (without .pem) is the key id
+// ENCRYPTION_KEYS: JSON map of key id -> PEM private key (e.g. injected from a secrets manager)
+// ENCRYPTION_ACTIVE_KEY_ID: key advertised to clients; defaults to the last key id in sort order
+export const encryptionConfig: EncryptionConfig = {
+  keysDir: process.env.ENCRYPTION_KEYS_DIR,
+  keysJson: process.env.ENCRYPTION_KEYS,
+  activeKeyId: process.env.ENCRYPTION_ACTIVE_KEY_ID,
+};
+
+// Tenant registry configuration
+// TENANT_REGISTRY_FILE: JSON file of tenants (BotDojo + catalog credentials held server-side)
+// LEGACY_INIT_DATA: accept credentials in the request body as initData (defaults to on when no registry is configured)
+// TENANT_TOKEN_MAX_AGE: longest tenant token lifetime accepted, in seconds
+export const tenantRegistryConfig: TenantRegistryConfig = {
+  registryFile: process.env.TENANT_REGISTRY_FILE,
+  legacyInitData: process.env.LEGACY_INIT_DATA
+    ? process.env.LEGACY_INIT_DATA === "true"
+    : !process.env.TENANT_REGISTRY_FILE,
+  tokenMaxAgeSeconds: parseInt(process.env.TENANT_TOKEN_MAX_AGE || "900", 10),
+};
+
+// Response cache configuration
+// CACHE_BACKEND: "memory" (per-instance, default) or "redis" (shared across instances, requires REDIS_URL)
+// CACHE_KEY_PREFIX: namespace for cache keys in Redis
+// CACHE_TTL / CACHE_MAX_KEYS: default TTL in seconds / key limit of the in-memory backend
+// PRODUCTS_CACHE_TTL: lifetime of SKU lists from the products flow, in seconds
+// PRODUCT_INFO_CACHE_TTL / PRODUCT_INFO_STALE_TTL: product details are fresh for the first, then served
+//   stale (and refreshed in the background) until the second
+export const cacheBackendConfig: CacheBackendConfig = {
+  backend: process.env.CACHE_BACKEND === "redis" ? "redis" : "memory",
+  redisUrl: process.env.REDIS_URL,
+  keyPrefix: process.env.CACHE_KEY_PREFIX || "chatbot:cache:",
+  ttlSeconds: parseInt(process.env.CACHE_TTL || "300", 10),
+  maxKeys: parseInt(process.env.CACHE_MAX_KEYS || "1000", 10),
+  productSkusTtlSeconds: parseInt(process.env.PRODUCTS_CACHE_TTL || "300", 10),
+  productDetailFreshSeconds: parseInt(process.env.PRODUCT_INFO_CACHE_TTL || "600", 10),
+  productDetailStaleSeconds: parseInt(process.env.PRODUCT_INFO_STALE_TTL || "86400", 10),
+};
+
+// BotDojo upstream resilience
+// BOTDOJO_CONNECT_TIMEOUT_MS: time allowed until BotDojo responds with headers
+// BOTDOJO_FIRST_TOKEN_TIMEOUT_MS: time allowed from headers until the first streamed chunk
+// BOTDOJO_TOTAL_TIMEOUT_MS: hard limit for a whole flow run
+// BOTDOJO_MAX_RETRIES / BOTDOJO_RETRY_BASE_DELAY_MS: retries (exponential backoff) for idempotent calls only
+// BOTDOJO_BREAKER_THRESHOLD / BOTDOJO_BREAKER_RESET_MS: consecutive failures that open a flow's circuit, and how long it stays open
+// BOTDOJO_BREAKER_MAX_CIRCUITS: flows with a circuit held in memory; the least recently used is dropped beyond this
+export const upstreamConfig: UpstreamConfig = {
+  connectTimeoutMs: parseInt(process.env.BOTDOJO_CONNECT_TIMEOUT_MS || "10000", 10),
+  firstTokenTimeoutMs: parseInt(process.env.BOTDOJO_FIRST_TOKEN_TIMEOUT_MS || "30000", 10),
+  totalTimeoutMs: parseInt(process.env.BOTDOJO_TOTAL_TIMEOUT_MS || "120000", 10),
+  maxRetries: parseInt(process.env.BOTDOJO_MAX_RETRIES || "2", 10),
+  retryBaseDelayMs: parseInt(process.env.BOTDOJO_RETRY_BASE_DELAY_MS || "500", 10),
+  breakerFailureThreshold: parseInt(process.env.BOTDOJO_BREAKER_THRESHOLD || "5", 10),
+  breakerResetTimeoutMs: parseInt(process.env.BOTDOJO_BREAKER_RESET_MS || "30000", 10),
+  breakerMaxCircuits: parseInt(process.env.BOTDOJO_BREAKER_MAX_CIRCUITS || "1000", 10),
+};
+
+// Replay protection for encrypted initData
+// REPLAY_MAX_AGE: how long after its issued-at time an encrypted payload is accepted, in seconds
+// REPLAY_CLOCK_TOLERANCE: allowed clock skew between browser and server, in seconds
+// REPLAY_ALLOW_UNPROTECTED: accept encrypted payloads without iat/nonce (clients that predate replay protection)
+// REPLAY_NONCE_BACKEND: "memory" (per-instance, default) or "redis" (shared across instances, requires REDIS_URL)
+// REPLAY_NONCE_KEY_PREFIX: namespace for used nonces in Redis
+// REPLAY_MAX_NONCES: used nonces held by the memory backend; beyond it encrypted initData is refused with 503 until some expire
+export const replayProtectionConfig: ReplayProtectionConfig = {
+  maxAgeSeconds: parseInt(process.env.REPLAY_MAX_AGE || "300", 10),
+  clockToleranceSeconds: parseInt(process.env.REPLAY_CLOCK_TOLERANCE || "30", 10),
+  allowUnprotected: process.env.REPLAY_ALLOW_UNPROTECTED === "true",
+  backend: process.env.REPLAY_NONCE_BACKEND === "redis" ? "redis" : "memory",
+  redisUrl: process.env.REDIS_URL,
+  keyPrefix: process.env.REPLAY_NONCE_KEY_PREFIX || "chatbot:nonce:",
+  maxNonces: parseInt(process.env.REPLAY_MAX_NONCES || "100000", 10),
+};
+
+// Session handshake configuration
+// SESSION_TTL: lifetime of a session token in seconds (clients re-run the handshake after it expires)
+// SESSION_MAX_KEYS: maximum number of live sessions held in memory
+// SESSION_MAX_PER_TENANT: maximum number of live sessions per tenant (or BotDojo account for initData callers)
+export const sessionConfig: SessionConfig = {
+  ttlSeconds: parseInt(process.env.SESSION_TTL || "1800", 10),
+  maxSessions: parseInt(process.env.SESSION_MAX_KEYS || "10000", 10),
+  maxSessionsPerTenant: parseInt(process.env.SESSION_MAX_PER_TENANT || "2500", 10),
+};
+
+// Conversation memory (server-held history for follow-up questions)
+// CONVERSATION_HISTORY_WINDOW: prior turns forwarded to BotDojo
+// CONVERSATION_TTL: seconds of inactivity before a conversation's history is dropped
+// CONVERSATION_MAX_KEYS: maximum number of conversations held in memory
+export const conversationMemoryConfig: ConversationMemoryConfig = {
+  historyWindow: parseInt(process.env.CONVERSATION_HISTORY_WINDOW || "10", 10),
+  ttl: parseInt(process.env.CONVERSATION_TTL || "1800", 10),
+  maxConversations: parseInt(process.env.CONVERSATION_MAX_KEYS || "5000", 10),
+  maxTurnLength: 2000,
+};
+
+// Server-sent event streams
+// STREAM_HEARTBEAT_MS: interval of keep-alive comments on open streams (0 disables them)
+// STREAM_REPLAY_MAX_EVENTS: events kept per /chat/stream for Last-Event-ID resume
+// STREAM_REPLAY_TTL_MS: how long a finished stream can still be resumed
+// STREAM_RESUME_GRACE_MS: how long a stream keeps running after its client dropped, waiting for a resume
+export const streamConfig: StreamConfig = {
+  heartbeatMs: parseInt(process.env.STREAM_HEARTBEAT_MS || "15000", 10),
+  replayMaxEvents: parseInt(process.env.STREAM_REPLAY_MAX_EVENTS || "2000", 10),
+  replayTtlMs: parseInt(process.env.STREAM_REPLAY_TTL_MS || "60000", 10),
+  resumeGraceMs: parseInt(process.env.STREAM_RESUME_GRACE_MS || "15000", 10),
+};
+
+// Rate limiting, per tenant and per session (IP for requests without a session)
+// RATE_LIMIT_BACKEND: "memory" (per-instance, default) or "redis" (shared across instances, any Redis-protocol server, requires REDIS_URL)
+// RATE_LIMIT_KEY_PREFIX: namespace for counters in Redis
+// RATE_LIMIT_WINDOW_SECONDS / RATE_LIMIT_TENANT_MAX / RATE_LIMIT_CLIENT_MAX: default rule for every route (0 disables a limit)
+// RATE_LIMIT_ROUTES: JSON overrides per route, e.g. {"chat":{"clientMax":30},"session":{"windowSeconds":60}}
+//   Tenant registry entries can override further with RATE_LIMITS in the same shape.
+// RATE_LIMIT_IP_WINDOW_SECONDS / RATE_LIMIT_IP_MAX: requests per window from one IP, counted before authentication (0 disables)
+// RATE_LIMIT_AUTH_FAILURE_MAX: failed authentications per window from one IP before its requests are turned away (0 disables)
+function parseRateLimitRoutes(defaults: RateLimitRule): Record<RateLimitRoute, RateLimitRule> {
+  const overrides: Partial<Record<RateLimitRoute, Partial<RateLimitRule>>> = process.env.RATE_LIMIT_ROUTES
+    ? JSON.parse(process.env.RATE_LIMIT_ROUTES)
+    : {};
+  return {
+    chat: { ...defaults, ...overrides.chat },
+    products: { ...defaults, ...overrides.products },
+    suggestions: { ...defaults, ...overrides.suggestions },
+    session: { ...defaults, ...overrides.session },
+    feedback: { ...defaults, ...overrides.feedback },
+    events: { ...defaults, ...overrides.events },
+  };
+}
+
+export const rateLimitConfig: RateLimitConfig = {
+  backend: process.env.RATE_LIMIT_BACKEND === "redis" ? "redis" : "memory",
+  redisUrl: process.env.REDIS_URL,
+  keyPrefix: process.env.RATE_LIMIT_KEY_PREFIX || "chatbot:ratelimit:",
+  routes: parseRateLimitRoutes({
+    windowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "900", 10),
+    tenantMax: parseInt(process.env.RATE_LIMIT_TENANT_MAX || "5000", 10),
+    clientMax: parseInt(process.env.RATE_LIMIT_CLIENT_MAX || "100", 10),
+  }),
+  ip: {
+    windowSeconds: parseInt(process.env.RATE_LIMIT_IP_WINDOW_SECONDS || "900", 10),
+    max: parseInt(process.env.RATE_LIMIT_IP_MAX || "1000", 10),
+    authFailureMax: parseInt(process.env.RATE_LIMIT_AUTH_FAILURE_MAX || "20", 10),
+  },
+};
+
+// API authentication for host-issued tokens (requests without a tenant registry entry)
+// AUTH_JWT_SECRET: HMAC secret (HS256/384/512) shared with the host backend that mints tokens
+// AUTH_JWKS_FILE: JWKS file with the public keys of a host backend that signs tokens (RS*, PS*, ES*)
+// AUTH_ISSUER / AUTH_AUDIENCE: required iss / aud claims, when set
+// AUTH_REQUIRED: reject chat, suggestions and product requests without a verified token, session or tenant token
+//   (defaults to on when AUTH_JWT_SECRET or AUTH_JWKS_FILE is set)
+// AUTH_TOKEN_MAX_AGE: longest token lifetime accepted, in seconds
+// CORS_ORIGINS: comma-separated browser origins allowed for every tenant ("*" for any).
+//   Tenant registry entries add their own with allowedOrigins; when neither is configured any origin is allowed.
+// ADMIN_TOKEN: static bearer token for the /admin routes
+// ADMIN_ROLE: role (in a roles array or role claim) that grants /admin access to host tokens
+//   The /admin routes are disabled when neither an admin token nor host token keys are configured.
+export const authConfig: AuthConfig = {
+  jwtSecret: process.env.AUTH_JWT_SECRET || undefined,
+  jwksFile: process.env.AUTH_JWKS_FILE || undefined,
+  issuer: process.env.AUTH_ISSUER || undefined,
+  audience: process.env.AUTH_AUDIENCE || undefined,
+  required: process.env.AUTH_REQUIRED
+    ? process.env.AUTH_REQUIRED === "true"
+    : Boolean(process.env.AUTH_JWT_SECRET || process.env.AUTH_JWKS_FILE),
+  tokenMaxAgeSeconds: parseInt(process.env.AUTH_TOKEN_MAX_AGE || "900", 10),
+  allowedOrigins: (process.env.CORS_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  adminToken: process.env.ADMIN_TOKEN || undefined,
+  adminRole: process.env.ADMIN_ROLE || "admin",
+};
+
+// Prometheus metrics
+// METRICS_ENABLED: serve GET /metrics (defaults to on only when METRICS_TOKEN is set)
+// METRICS_TOKEN: bearer token required to scrape /metrics; without one, /metrics is refused in production
+// METRICS_PREFIX: prefix of every metric name
+export const metricsConfig: MetricsConfig = {
+  enabled: process.env.METRICS_ENABLED
+    ? process.env.METRICS_ENABLED === "true"
+    : Boolean(process.env.METRICS_TOKEN),
+  token: process.env.METRICS_TOKEN || undefined,
+  prefix: process.env.METRICS_PREFIX ?? "chatbot_",
+};
+
+// OpenTelemetry tracing
+// TRACING_EXPORTER: "none" (default), "console" (spans printed to stdout, for local checks) or "otlp" (OTLP over HTTP;
+//   the endpoint and headers come from the standard OTEL_EXPORTER_OTLP_* variables, default http://localhost:4318)
+// OTEL_SERVICE_NAME: service.name of the exported spans
+// TRACING_SAMPLE_RATIO: share of traces recorded, 0 to 1
+export const tracingConfig: TracingConfig = {
+  exporter: process.env.TRACING_EXPORTER === "console" || process.env.TRACING_EXPORTER === "otlp"
+    ? process.env.TRACING_EXPORTER
+    : "none",
+  serviceName: process.env.OTEL_SERVICE_NAME || "chatbot-server",
+  sampleRatio: parseFloat(process.env.TRACING_SAMPLE_RATIO || "1"),
+};
+
+// PII redaction of chat messages before they are logged or sent to BotDojo
+// REDACTION_ENABLED: redact messages, history and suggestion context (default true)
+// REDACTION_TYPES: comma-separated built-in detectors: email, phone, date (default all three)
+// REDACTION_NAMES_FILE: file with one name per line to redact (client names, practitioners); the widget can add more per request
+// REDACTION_PATTERNS: JSON map of placeholder label to regex, e.g. {"MEDICATION":"\\b(?:warfarin|lithium)\\b"} (case-insensitive)
+// REDACTION_RESTORE: put the original values back in place of placeholders in answers streamed to the widget (default true)
+// REDACTION_SECRET: key for the placeholder ids, so the same value gets the same placeholder across restarts and instances
+//   (a random key per process when unset)
+const REDACTION_TYPES: RedactionType[] = ["email", "phone", "date"];
+
+export const redactionConfig: RedactionConfig = {
+  enabled: process.env.REDACTION_ENABLED !== "false",
+  types: process.env.REDACTION_TYPES !== undefined
+    ? REDACTION_TYPES.filter((type) => process.env.REDACTION_TYPES!.split(",").map((value) => value.trim()).includes(type))
+    : REDACTION_TYPES,
+  namesFile: process.env.REDACTION_NAMES_FILE || undefined,
+  patterns: process.env.REDACTION_PATTERNS ? JSON.parse(process.env.REDACTION_PATTERNS) : {},
+  restore: process.env.REDACTION_RESTORE !== "false",
+  secret: process.env.REDACTION_SECRET || undefined,
+};
+
+// Safety guardrails for bot answers (dosage claims, disease-cure language, pregnancy and pediatric contexts)
+// SAFETY_ENABLED: check answers before they reach the widget (default true)
+// SAFETY_RULES: JSON overrides of the built-in rules by id (dosage, cure_claim, pregnancy, pediatric), null to drop one,
+//   or new ids with a pattern to add rules, e.g. {"dosage":{"action":"flag"},"detox":{"pattern":"\\bdetox\\b","action":"disclaimer","disclaimer":"..."}}
+// SAFETY_BLOCK_MESSAGE: shown instead of an answer a block rule matched
+export const safetyConfig: SafetyConfig = {
+  enabled: process.env.SAFETY_ENABLED !== "false",
+  rules: process.env.SAFETY_RULES ? JSON.parse(process.env.SAFETY_RULES) : {},
+  blockMessage: process.env.SAFETY_BLOCK_MESSAGE
+    || "I can't share an answer to that here. Please talk it through with your practitioner.",
+};
+
+// Conversation history persisted per practitioner (GET /conversations)
+// CONVERSATION_STORE: "sqlite" (default) or "none" (conversations only live in the widget)
+// CONVERSATION_DB_FILE: SQLite database file, created on first start (default server/data/conversations.db)
+export const conversationStoreConfig: ConversationStoreConfig = {
+  backend: process.env.CONVERSATION_STORE === "none" ? "none" : "sqlite",
+  dbFile: process.env.CONVERSATION_DB_FILE || path.resolve(__dirname, "../../data/conversations.db"),
+};
+
+// Answer and product feedback (POST /feedback, exported with GET /admin/feedback)
+// FEEDBACK_STORE: "sqlite" (default) or "none" (POST /feedback answers 404)
+// FEEDBACK_DB_FILE: SQLite database file, created on first start (default server/data/feedback.db)
+export const feedbackStoreConfig: FeedbackStoreConfig = {
+  backend: process.env.FEEDBACK_STORE === "none" ? "none" : "sqlite",
+  dbFile: process.env.FEEDBACK_DB_FILE || path.resolve(__dirname, "../../data/feedback.db"),
+};
+
+// Recommendation analytics (POST /events, aggregated with GET /admin/analytics/questions and /admin/analytics/skus)
+// ANALYTICS_STORE: "sqlite" (default) or "none" (POST /events answers 404 and the widget stops sending)
+// ANALYTICS_DB_FILE: SQLite database file, created on first start (default server/data/analytics.db)
+export const analyticsStoreConfig: AnalyticsStoreConfig = {
+  backend: process.env.ANALYTICS_STORE === "none" ? "none" : "sqlite",
+  dbFile: process.env.ANALYTICS_DB_FILE || path.resolve(__dirname, "../../data/analytics.db"),
 };
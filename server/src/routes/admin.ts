@@ -0,0 +1,241 @@
+import express, { Request, Response } from 'express';
+import { authConfig } from '../config/environment';
+import { FeedbackRating, FeedbackTarget, TenantConfig } from '../types';
+import { cacheManager, tenantKeyPrefix } from '../utils/cacheManager';
+import { circuitBreakers } from '../utils/circuitBreaker';
+import { feedbackStore, formatFeedbackCsv } from '../utils/feedbackStore';
+import { analyticsStore, AnalyticsFilter } from '../utils/analyticsStore';
+import { asyncHandler, NotFoundError, ValidationError, validateString, validateEnum } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+import { rateLimiter } from '../utils/rateLimiter';
+import { tenantRegistry } from '../utils/tenantRegistry';
+
+// Registry fields holding credentials, masked in /admin/tenants responses
+const SECRET_FIELD = /KEY|SECRET|TOKEN|PASSWORD/i;
+
+// Most entries returned by list endpoints
+const MAX_LIMIT = 1000;
+
+// Most feedback records in one export
+const MAX_EXPORT_LIMIT = 50000;
+
+/**
+ * Mask a secret, keeping the last 4 characters of long values so admins can tell keys apart
+ */
+export function maskSecret(value: string): string {
+  return value.length >= 16 ? `****${value.slice(-4)}` : '****';
+}
+
+/**
+ * Copy of a registry entry with its credentials masked
+ */
+export function maskTenantConfig(tenant: TenantConfig): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(tenant).map(([field, value]) => [
+    field,
+    SECRET_FIELD.test(field) && typeof value === 'string' ? maskSecret(value) : value
+  ]));
+}
+
+// Helper function to read the ?limit= query parameter of list endpoints
+function parseLimit(value: unknown, fallback: number = 100, max: number = MAX_LIMIT): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > max) {
+    throw new ValidationError(`limit must be an integer between 1 and ${max}`);
+  }
+  return limit;
+}
+
+// Helper function to read the ?tenantId=, ?since=, ?until= and ?limit= parameters of analytics reports
+function parseAnalyticsFilter(req: Request): AnalyticsFilter {
+  const { tenantId } = req.query;
+  if (tenantId !== undefined) {
+    validateString(tenantId, 'tenantId', 100);
+  }
+  return {
+    tenantId: tenantId as string | undefined,
+    since: parseDate(req.query.since, 'since'),
+    until: parseDate(req.query.until, 'until'),
+    limit: parseLimit(req.query.limit, 50)
+  };
+}
+
+// Helper function to read an ISO date query parameter as ms since epoch
+function parseDate(value: unknown, fieldName: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`${fieldName} must be an ISO date`);
+  }
+  return time;
+}
+
+/**
+ * Admin operations, mounted at /admin behind requireAdmin
+ */
+export const adminRouter = express.Router();
+
+// Cache statistics (hit rate, key count, backend)
+adminRouter.get('/cache/stats', asyncHandler(async (req: Request, res: Response) => {
+  res.json(await cacheManager.getStats());
+}));
+
+// Cache keys starting with ?prefix= (e.g. "tenant=clinic-a:"), sorted, with their expiry; at most ?limit= keys
+adminRouter.get('/cache/keys', asyncHandler(async (req: Request, res: Response) => {
+  const prefix = typeof req.query.prefix === 'string' ? req.query.prefix : '';
+  const limit = parseLimit(req.query.limit);
+
+  const keys = (await cacheManager.getKeys(prefix)).sort();
+  const listed = await Promise.all(keys.slice(0, limit).map(async (key) => {
+    const expiresAt = await cacheManager.getTtl(key);
+    return { key, expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null };
+  }));
+
+  res.json({ prefix, total: keys.length, keys: listed });
+}));
+
+// Delete the cache keys starting with ?prefix= (required; POST /admin/cache/clear empties the whole cache)
+adminRouter.delete('/cache/keys', asyncHandler(async (req: Request, res: Response) => {
+  const { prefix } = req.query;
+  validateString(prefix, 'prefix', 500);
+
+  const deleted = await cacheManager.deleteByPrefix(prefix as string);
+  logger.info('Cache keys deleted by admin', { requestId: req.headers['x-request-id'] as string, prefix, deleted });
+  res.json({ prefix, deleted });
+}));
+
+// Body { tenantId } or { accountId } (legacy initData callers) clears one tenant; an empty body clears everything
+adminRouter.post('/cache/clear', asyncHandler(async (req: Request, res: Response) => {
+  const { tenantId, accountId } = (req.body ?? {}) as { tenantId?: string; accountId?: string };
+
+  if (tenantId !== undefined || accountId !== undefined) {
+    if (tenantId !== undefined) {
+      validateString(tenantId, 'tenantId', 100);
+    } else {
+      validateString(accountId, 'accountId', 100);
+    }
+    const deleted = await cacheManager.clearTenant({ tenantId, accountId: accountId ?? '' });
+    res.json({ message: 'Tenant cache cleared successfully', deleted });
+    return;
+  }
+
+  await cacheManager.clear();
+  res.json({ message: 'Cache cleared successfully' });
+}));
+
+// BotDojo circuit breakers with the flows they protect and their last failure (/health only counts them)
+adminRouter.get('/circuits', (req: Request, res: Response) => {
+  res.json({ circuits: circuitBreakers.snapshot() });
+});
+
+// Recent log entries across all requests, oldest first; ?level= (error, warn, info, http) and ?limit=
+adminRouter.get('/logs', (req: Request, res: Response) => {
+  const level = req.query.level as string | undefined;
+  if (level !== undefined) {
+    validateEnum(level, 'level', ['error', 'warn', 'info', 'http']);
+  }
+  res.json({ entries: logger.recent({ level, limit: parseLimit(req.query.limit) }) });
+});
+
+// Recent log entries of one request, by the X-Request-ID header (also the requestId of error responses)
+adminRouter.get('/logs/:requestId', (req: Request<{ requestId: string }>, res: Response) => {
+  const { requestId } = req.params;
+  const entries = logger.recent({ requestId, limit: parseLimit(req.query.limit, MAX_LIMIT) });
+  if (entries.length === 0) {
+    throw new NotFoundError('No recent log entries for this request id; it may have left the log buffer');
+  }
+  res.json({ requestId, entries });
+});
+
+// Registered tenant ids
+adminRouter.get('/tenants', asyncHandler(async (req: Request, res: Response) => {
+  res.json({ tenants: await tenantRegistry.listTenantIds() });
+}));
+
+// Effective configuration of a tenant: its registry entry with credentials masked, and the limits and origins that apply to it
+adminRouter.get('/tenants/:tenantId', asyncHandler(async (req: Request<{ tenantId: string }>, res: Response) => {
+  const { tenantId } = req.params;
+  const tenant = await tenantRegistry.getTenant(tenantId);
+  if (!tenant) {
+    throw new NotFoundError(`Tenant not found: ${tenantId}`);
+  }
+
+  const allowedOrigins = tenant.allowedOrigins?.length ? tenant.allowedOrigins : authConfig.allowedOrigins;
+  res.json({
+    tenantId,
+    config: maskTenantConfig(tenant),
+    effective: {
+      tokenKeys: [tenant.tokenSecret && 'hmac', tenant.jwksFile && 'jwks'].filter(Boolean),
+      allowedOrigins: allowedOrigins.length > 0 ? allowedOrigins : ['*'],
+      rateLimits: rateLimiter.rulesFor(tenant.RATE_LIMITS),
+      cacheKeyPrefix: tenantKeyPrefix({ tenantId, accountId: tenant.BOTDOJO_ACCOUNT_ID })
+    }
+  });
+}));
+
+// Feedback for flow tuning, most recent first, as ?format=json (default) or csv
+// Filtered by ?tenantId= (BotDojo account id for initData callers), ?since= / ?until= (ISO dates), ?rating= and ?target=
+adminRouter.get('/feedback', asyncHandler(async (req: Request, res: Response) => {
+  if (!feedbackStore) {
+    throw new NotFoundError('Feedback is not enabled on this server');
+  }
+  const { format = 'json', tenantId, rating, target } = req.query;
+  validateEnum(format, 'format', ['json', 'csv']);
+  if (tenantId !== undefined) {
+    validateString(tenantId, 'tenantId', 100);
+  }
+  if (rating !== undefined) {
+    validateEnum(rating, 'rating', ['helpful', 'not_helpful']);
+  }
+  if (target !== undefined) {
+    validateEnum(target, 'target', ['answer', 'product']);
+  }
+
+  const records = await feedbackStore.list({
+    tenantId: tenantId as string | undefined,
+    since: parseDate(req.query.since, 'since'),
+    until: parseDate(req.query.until, 'until'),
+    rating: rating as FeedbackRating | undefined,
+    target: target as FeedbackTarget | undefined,
+    limit: parseLimit(req.query.limit, MAX_EXPORT_LIMIT, MAX_EXPORT_LIMIT)
+  });
+  logger.info('Feedback exported by admin', { requestId: req.headers['x-request-id'] as string, format, count: records.length });
+
+  if (format === 'csv') {
+    res.attachment(`feedback-${new Date().toISOString().slice(0, 10)}.csv`).send(formatFeedbackCsv(records));
+    return;
+  }
+  res.json({ total: records.length, feedback: records });
+}));
+
+// Most asked questions, per tenant; filtered by ?tenantId= (BotDojo account id for initData callers), ?since= / ?until=
+adminRouter.get('/analytics/questions', asyncHandler(async (req: Request, res: Response) => {
+  if (!analyticsStore) {
+    throw new NotFoundError('Analytics is not enabled on this server');
+  }
+  res.json({ questions: await analyticsStore.topQuestions(parseAnalyticsFilter(req)) });
+}));
+
+// Recommendations and click-through rate per SKU and tenant, most recommended first or ?sort=clickThroughRate
+// ?minShown= leaves out SKUs recommended fewer times (default 1)
+adminRouter.get('/analytics/skus', asyncHandler(async (req: Request, res: Response) => {
+  if (!analyticsStore) {
+    throw new NotFoundError('Analytics is not enabled on this server');
+  }
+  const { sort = 'shown' } = req.query;
+  validateEnum(sort, 'sort', ['shown', 'clickThroughRate']);
+  const minShown = req.query.minShown === undefined ? 1 : Number(req.query.minShown);
+  if (!Number.isInteger(minShown) || minShown < 1) {
+    throw new ValidationError('minShown must be a positive integer');
+  }
+
+  const skus = await analyticsStore.skuStats(parseAnalyticsFilter(req), {
+    sort: sort as 'shown' | 'clickThroughRate',
+    minShown
+  });
+  res.json({ skus });
+}));
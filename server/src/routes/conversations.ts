@@ -0,0 +1,91 @@
+import express, { Request, Response } from 'express';
+import { AuthContext } from '../utils/auth';
+import { conversationMemory } from '../utils/conversationMemory';
+import { ConversationOwner, ConversationRepository, conversationStore, getConversationOwner } from '../utils/conversationStore';
+import { asyncHandler, ForbiddenError, NotFoundError, ValidationError } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+
+// Most conversations returned by one GET /conversations
+const MAX_LIMIT = 200;
+
+// Helper function to read the ?limit= query parameter
+function parseLimit(value: unknown, fallback: number = 50): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  return limit;
+}
+
+// Helper function to read the ?before= query parameter (an updatedAt from the previous page)
+function parseBefore(value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const before = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(before)) {
+    throw new ValidationError('before must be an ISO timestamp');
+  }
+  return before;
+}
+
+// Helper function to get the practitioner a request may read conversations of
+function requireOwner(res: Response): ConversationOwner {
+  const owner = getConversationOwner(res.locals.auth as AuthContext | undefined);
+  if (!owner) {
+    throw new ForbiddenError('Conversation history requires a token that names the practitioner (sub claim)', undefined, 'practitioner_required');
+  }
+  return owner;
+}
+
+/**
+ * Conversation history of the authenticated practitioner, mounted at /conversations behind requireAuth
+ * Chat turns are recorded by runChatTurn; these routes only read and delete them.
+ *
+ * @param repository - Conversation store; null when CONVERSATION_STORE=none
+ */
+export function createConversationsRouter(repository: ConversationRepository | null): express.Router {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    next(repository ? undefined : new NotFoundError('Conversation history is not enabled on this server'));
+  });
+
+  // Conversations, most recently updated first; page with ?before=<updatedAt of the last one>
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const conversations = await repository!.list(requireOwner(res), {
+      limit: parseLimit(req.query.limit),
+      before: parseBefore(req.query.before)
+    });
+    res.json({ conversations });
+  }));
+
+  // One conversation with its messages, suggested questions, products and timings
+  router.get('/:conversationId', asyncHandler(async (req: Request<{ conversationId: string }>, res: Response) => {
+    const conversation = await repository!.get(requireOwner(res), req.params.conversationId);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+    res.json(conversation);
+  }));
+
+  // Delete a conversation; the server also forgets its history, so a new message starts afresh
+  router.delete('/:conversationId', asyncHandler(async (req: Request<{ conversationId: string }>, res: Response) => {
+    const { conversationId } = req.params;
+    const owner = requireOwner(res);
+    const deleted = await repository!.delete(owner, conversationId);
+    if (!deleted) {
+      throw new NotFoundError('Conversation not found');
+    }
+    conversationMemory.clearOwned(owner, conversationId);
+    logger.info('Conversation deleted', { requestId: req.headers['x-request-id'] as string, conversationId });
+    res.json({ deleted });
+  }));
+
+  return router;
+}
+
+export const conversationsRouter = createConversationsRouter(conversationStore);
@@ -1,6 +1,15 @@
+import { SpanKind } from '@opentelemetry/api';
+import { ATTR_HTTP_RESPONSE_STATUS_CODE } from '@opentelemetry/semantic-conventions';
 import { normalizeImageUrl, isLikelyImage } from '../utils/mediaUtils';
 import { parseCanvasDataForStructuredContent, cleanTextContent } from '../utils/canvasParser';
-import { BotDojoResponse, ChatMessage, StructuredContentItem, Product } from '../types';
+import { BotDojoResponse, ChatMessage, StructuredContentItem, Product, ToolProgress } from '../types';
+import { upstreamConfig, UpstreamConfig } from '../config/environment';
+import { circuitBreakers, CircuitBreaker } from '../utils/circuitBreaker';
+import { BotDojoError, ServiceUnavailableError, UpstreamTimeoutError } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+import { metrics, BotDojoRunOutcome } from '../utils/metrics';
+import { injectTraceHeaders, recordSpanError, startSpan } from '../utils/tracing';
+import { parseToolEvent } from '../utils/toolProgress';
 
 /** Separator between text and suggestedQuestions in text/suggQ API response stream */
 const TEXT_SUGGQ_SEPARATOR = '====================================';
@@ -11,6 +20,76 @@ export interface BotDojoConfig {
   accountId: string;
   projectId: string;
   flowId: string;
+  upstream?: UpstreamConfig; // Timeouts, retries and circuit breaker settings (defaults to upstreamConfig)
+  tenantId?: string; // Tenant registry id, for metrics labels
+}
+
+/**
+ * An open BotDojo response stream with timeouts and circuit breaker bookkeeping
+ */
+interface UpstreamStream {
+  read(): Promise<{ done: boolean; value?: Uint8Array }>;
+  close(): void;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.ceil(seconds);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Whether an error was caused by aborting the upstream request (client disconnected)
+ */
+export function isAbortError(error: unknown): boolean {
+  // fetch rejects with a DOMException, which is not always an `instanceof Error`
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Whether a failure is worth retrying and counts against the flow's circuit breaker
+ * (timeouts, network errors, 429 and 5xx responses; never client aborts or 4xx)
+ */
+export function isTransientUpstreamError(error: unknown): boolean {
+  if (error instanceof UpstreamTimeoutError) {
+    return true;
+  }
+  if (error instanceof BotDojoError) {
+    const status = error.context?.status;
+    return typeof status === 'number' && (status === 429 || status >= 500);
+  }
+  // fetch rejects with a TypeError on DNS / connection failures
+  return error instanceof TypeError;
+}
+
+/**
+ * Wait before a retry; rejects early if the request is cancelled
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -23,6 +102,8 @@ export default class BotDojoService {
   private accountId: string;
   private projectId: string;
   private flowId: string;
+  private upstream: UpstreamConfig;
+  private breaker: CircuitBreaker;
 
   constructor(config: BotDojoConfig) {
     this.config = config;
@@ -31,32 +112,115 @@ export default class BotDojoService {
     this.accountId = config.accountId;
     this.projectId = config.projectId;
     this.flowId = config.flowId;
+    this.upstream = config.upstream ?? upstreamConfig;
+    this.breaker = circuitBreakers.get({
+      baseUrl: config.baseUrl,
+      accountId: config.accountId,
+      projectId: config.projectId,
+      flowId: config.flowId
+    });
   }
 
   /**
-   * Make a request to BotDojo API
-   * @param message - User message
-   * @param options - Additional options
-   * @returns BotDojo response
+   * Run a call, retrying transient failures with exponential backoff and jitter
+   *
+   * @param maxRetries - Retries after the first attempt (0 for non-idempotent calls)
+   * @param signal - Stops retrying once the client has gone away
+   * @param call - The upstream call
    */
-  async sendMessage(message: string, options: any = {}): Promise<BotDojoResponse> {
+  private async withRetries<T>(maxRetries: number, signal: AbortSignal | undefined, call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        if (attempt >= maxRetries || signal?.aborted || !isTransientUpstreamError(error)) {
+          throw error;
+        }
+        const backoffMs = this.upstream.retryBaseDelayMs * 2 ** attempt + Math.random() * this.upstream.retryBaseDelayMs;
+        logger.warn('Retrying BotDojo call', {
+          flowId: this.flowId,
+          attempt: attempt + 1,
+          backoffMs: Math.round(backoffMs),
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        await delay(backoffMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Start a flow run and return its response stream
+   * Enforces the connect, first-token and total timeouts, and records the outcome on the flow's circuit breaker,
+   * in the time-to-first-token and run duration metrics, and as a botdojo.flow_run span that ends with the stream.
+   *
+   * @throws ServiceUnavailableError when the circuit is open, UpstreamTimeoutError, BotDojoError for non-2xx responses
+   */
+  private async openStream(requestBody: unknown, signal?: AbortSignal): Promise<UpstreamStream> {
+    if (!this.breaker.tryAcquire()) {
+      throw new ServiceUnavailableError('BotDojo flow is temporarily unavailable, please try again shortly', { flowId: this.flowId });
+    }
+
     const endpoint = `${this.baseUrl}/accounts/${this.accountId}/projects/${this.projectId}/flows/${this.flowId}/run`;
+    const controller = new AbortController();
+    const timers: NodeJS.Timeout[] = [];
+    let timedOut: { phase: string; ms: number } | null = null;
+    let settled = false;
+    const startedAt = Date.now();
+    const span = startSpan('botdojo.flow_run', {
+      'botdojo.flow_id': this.flowId,
+      'tenant.id': this.config.tenantId ?? 'none'
+    }, SpanKind.CLIENT);
+    const finishRun = (outcome: BotDojoRunOutcome, error?: unknown) => {
+      metrics.observeBotDojoRun(this.flowId, this.config.tenantId, outcome, (Date.now() - startedAt) / 1000);
+      span.setAttribute('botdojo.outcome', outcome);
+      if (error !== undefined && outcome !== 'cancelled') {
+        recordSpanError(span, error);
+      }
+      span.end();
+    };
 
-    const requestBody = {
-      options: {
-        stream: 'http',
-        stream_events: [
-          "onNewToken",
-          "onToolStart",
-          "onToolEnd",
-        ],
-      },
-      body: {
-        text_input: message,
-        ...options
+    const startTimer = (phase: string, ms: number): NodeJS.Timeout | undefined => {
+      if (ms <= 0) return undefined;
+      const timer = setTimeout(() => {
+        timedOut = { phase, ms };
+        controller.abort();
+      }, ms);
+      timers.push(timer);
+      return timer;
+    };
+    const onClientAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal?.addEventListener('abort', onClientAbort, { once: true });
+    }
+
+    const cleanup = () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      signal?.removeEventListener('abort', onClientAbort);
+    };
+    // Timeouts surface as UpstreamTimeoutError; anything else (client abort, network error) is passed through
+    const mapError = (error: unknown): unknown => {
+      const timeout = timedOut as { phase: string; ms: number } | null;
+      return timeout
+        ? new UpstreamTimeoutError(`BotDojo ${timeout.phase} timeout after ${timeout.ms}ms`, { flowId: this.flowId })
+        : error;
+    };
+    const fail = (error: unknown) => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      finishRun(error instanceof UpstreamTimeoutError ? 'timeout' : isAbortError(error) ? 'cancelled' : 'error', error);
+      if (isTransientUpstreamError(error)) {
+        this.breaker.recordFailure(error instanceof Error ? error.message : 'Unknown error');
+      } else {
+        this.breaker.release();
       }
     };
 
+    startTimer('total', this.upstream.totalTimeoutMs);
+    const connectTimer = startTimer('connect', this.upstream.connectTimeoutMs);
+
     // Trim API key to remove any whitespace
     const trimmedApiKey = this.apiKey?.trim() || this.apiKey;
 
@@ -70,31 +234,119 @@ export default class BotDojoService {
       headers['Authorization'] = trimmedApiKey;
     }
 
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`BotDojo API error: ${response.status} ${response.statusText} - ${errorText}`);
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: injectTraceHeaders(headers, span),
+        body: JSON.stringify(requestBody),
+        signal: controller.signal
+      });
+      clearTimeout(connectTimer);
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new BotDojoError(`BotDojo API error: ${response.status} ${response.statusText} - ${errorText}`, {
+          flowId: this.flowId,
+          status: response.status,
+          retryAfterSeconds: parseRetryAfter(response.headers.get('retry-after'))
+        });
+      }
+      if (!response.body) {
+        throw new Error('Response body is not readable');
+      }
+    } catch (error) {
+      const mapped = mapError(error);
+      fail(mapped);
+      throw mapped;
     }
 
+    const reader = response.body.getReader();
+    let firstTokenTimer = startTimer('first-token', this.upstream.firstTokenTimeoutMs);
+    let receivedFirstChunk = false;
+
+    return {
+      read: async () => {
+        try {
+          const result = await reader.read();
+          if (firstTokenTimer) {
+            clearTimeout(firstTokenTimer);
+            firstTokenTimer = undefined;
+          }
+          if (!result.done && !receivedFirstChunk) {
+            receivedFirstChunk = true;
+            span.addEvent('first_chunk');
+            metrics.observeBotDojoFirstToken(this.flowId, this.config.tenantId, (Date.now() - startedAt) / 1000);
+          }
+          if (result.done && !settled) {
+            settled = true;
+            cleanup();
+            finishRun('success');
+            this.breaker.recordSuccess();
+          }
+          return result;
+        } catch (error) {
+          const mapped = mapError(error);
+          fail(mapped);
+          throw mapped;
+        }
+      },
+      close: () => {
+        // Stopped early by the caller (e.g. a parsing error): free the slot without judging the flow
+        if (!settled) {
+          settled = true;
+          cleanup();
+          finishRun('cancelled');
+          this.breaker.release();
+          controller.abort();
+        }
+        reader.releaseLock();
+      }
+    };
+  }
+
+  /**
+   * Make a request to BotDojo API
+   * @param message - User message
+   * @param options - Additional options
+   * @param signal - Aborts the upstream request and stream (e.g. when the client disconnects)
+   * @param retryable - Retry transient failures with backoff; only for idempotent calls (suggestions, products)
+   * @returns BotDojo response
+   */
+  async sendMessage(message: string, options: any = {}, signal?: AbortSignal, retryable: boolean = false): Promise<BotDojoResponse> {
+    const requestBody = {
+      options: {
+        stream: 'http',
+        stream_events: [
+          "onNewToken",
+          "onToolStart",
+          "onToolEnd",
+        ],
+      },
+      body: {
+        text_input: message,
+        ...options
+      }
+    };
+
+    return this.withRetries(retryable ? this.upstream.maxRetries : 0, signal, () => this.runFlow(requestBody, signal));
+  }
+
+  /**
+   * Run the flow once and read the complete NDJSON response
+   */
+  private async runFlow(requestBody: unknown, signal?: AbortSignal): Promise<BotDojoResponse> {
     // Handle streaming response - read as stream and log chunks as they arrive
-    const reader = response.body?.getReader();
+    const stream = await this.openStream(requestBody, signal);
     const decoder = new TextDecoder();
     let buffer = '';
     let fullResponseText = '';
     let lastValidJson: any = null;
 
-    if (!reader) {
-      throw new Error('Response body is not readable');
-    }
-
     try {
       while (true) {
-        const { done, value } = await reader.read();
+        const { done, value } = await stream.read();
 
         if (done) {
           break;
@@ -136,7 +388,7 @@ export default class BotDojoService {
         }
       }
     } finally {
-      reader.releaseLock();
+      stream.close();
     }
 
     // Try to parse as JSON
@@ -181,14 +433,16 @@ export default class BotDojoService {
    * Stream BotDojo response with callback for each chunk.
    * API stream format: text, then "====================================", then suggestedQuestions.
    * onChunk receives { text, suggestedQuestions } so the server can stream JSON in that shape to the frontend.
+   * signal aborts the upstream request and stream (e.g. when the client disconnects).
+   * onProgress receives the flow's onToolStart / onToolEnd events as labelled tool progress.
    */
   async streamMessage(
     message: string,
     onChunk: (data: { text: string; suggestedQuestions: string[] }) => void,
-    options: any = {}
+    options: any = {},
+    signal?: AbortSignal,
+    onProgress?: (progress: ToolProgress) => void
   ): Promise<BotDojoResponse> {
-    const endpoint = `${this.baseUrl}/accounts/${this.accountId}/projects/${this.projectId}/flows/${this.flowId}/run`;
-
     const requestBody = {
       options: {
         stream: 'http',
@@ -204,24 +458,8 @@ export default class BotDojoService {
       }
     };
 
-    const trimmedApiKey = this.apiKey?.trim() || this.apiKey;
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (trimmedApiKey) {
-      headers['Authorization'] = trimmedApiKey;
-    }
-
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`BotDojo API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const reader = response.body?.getReader();
+    // Not retried: chunks may already have been forwarded to the client
+    const stream = await this.openStream(requestBody, signal);
     const decoder = new TextDecoder();
     let buffer = '';
     /** Accumulated content: from NDJSON tokens or, if none, from raw stream */
@@ -229,13 +467,9 @@ export default class BotDojoService {
     /** Raw decoded stream (used when API sends plain text instead of NDJSON) */
     let rawStream = '';
 
-    if (!reader) {
-      throw new Error('Response body is not readable');
-    }
-
     try {
       while (true) {
-        const { done, value } = await reader.read();
+        const { done, value } = await stream.read();
         if (done) break;
 
         const chunk = decoder.decode(value, { stream: true });
@@ -258,6 +492,8 @@ export default class BotDojoService {
                 const parsed = this.parseTextAndSuggestedQuestions(contentAccumulator);
                 onChunk({ text: parsed.text, suggestedQuestions: parsed.suggestedQuestions });
               }
+            } else {
+              this.emitProgress(event, onProgress);
             }
           } catch {
             // Not valid JSON: treat stream as raw text and accumulate by line
@@ -278,6 +514,8 @@ export default class BotDojoService {
               const parsed = this.parseTextAndSuggestedQuestions(contentAccumulator);
               onChunk({ text: parsed.text, suggestedQuestions: parsed.suggestedQuestions });
             }
+          } else {
+            this.emitProgress(event, onProgress);
           }
         } catch {
           contentAccumulator += (contentAccumulator ? '\n' : '') + buffer;
@@ -293,13 +531,28 @@ export default class BotDojoService {
         onChunk({ text: parsed.text, suggestedQuestions: parsed.suggestedQuestions });
       }
     } finally {
-      reader.releaseLock();
+      stream.close();
     }
 
     const { text, suggestedQuestions } = this.parseTextAndSuggestedQuestions(contentAccumulator);
     return { response: { text, suggestedQuestions, products: [] } };
   }
 
+  /**
+   * Forward a tool event to onProgress; a throwing callback must not be mistaken for a raw text line
+   */
+  private emitProgress(event: unknown, onProgress?: (progress: ToolProgress) => void): void {
+    const progress = onProgress && parseToolEvent(event as { tag?: unknown; data?: unknown });
+    if (!progress) {
+      return;
+    }
+    try {
+      onProgress(progress);
+    } catch (error) {
+      logger.warn('Tool progress callback failed', { error: (error as Error).message });
+    }
+  }
+
   /**
    * Transform BotDojo response to new format (text, suggestedQuestions, products)
    * @param botdojoResponse - Raw BotDojo response
@@ -99,9 +99,72 @@ export interface BotDojoOutput {
   items?: string[];
 }
 
+// BotDojo credentials and flow settings needed to call a flow
+export interface BotDojoRequestConfig {
+  BOTDOJO_API_KEY: string;
+  BOTDOJO_BASE_URL: string;
+  BOTDOJO_ACCOUNT_ID: string;
+  BOTDOJO_PROJECT_ID: string;
+  BOTDOJO_TEXT_FLOW_ID: string;
+  BOTDOJO_PRODUCTS_FLOW_ID: string;
+  PRODUCT_SOURCE?: string;
+  STORE?: string;
+}
+
+// Routes that share a rate limit budget: chat (/chat/stream, /chat/ws, /text-suggQ), products (/products, /product-info),
+// suggestions (/suggestions) and session (/session)
+export type RateLimitRoute = 'chat' | 'products' | 'suggestions' | 'session' | 'feedback' | 'events';
+
+export interface RateLimitRule {
+  windowSeconds: number;
+  tenantMax: number; // Requests per window for a whole tenant (or BotDojo account); 0 disables
+  clientMax: number; // Requests per window for one session (or IP, for requests without one); 0 disables
+}
+
+// Limits per IP, counted before a request is authenticated
+export interface IpRateLimitRule {
+  windowSeconds: number;
+  max: number; // Requests per window from one IP to the API routes; 0 disables
+  authFailureMax: number; // Failed authentications per window after which the IP is turned away; 0 disables
+}
+
+// Per-route overrides of the server's default limits
+export type RateLimitOverrides = Partial<Record<RateLimitRoute, Partial<RateLimitRule>>>;
+
+// Configuration resolved for a request, from the tenant registry or from legacy initData
+export interface RequestConfig extends Partial<BotDojoRequestConfig> {
+  TENANT_ID?: string; // Set when resolved from the tenant registry
+  SOURCE_API_BASE_URL?: string;
+  SOURCE_PRACTICE_TOKEN?: string;
+  SOURCE_AUTH_TOKEN?: string;
+  SOURCE_APP_TYPE?: string;
+  RATE_LIMITS?: RateLimitOverrides; // Tenant registry only; ignored in initData
+}
+
+// Tenant registry entry: everything a widget used to send in initData, held server-side
+export interface TenantConfig extends BotDojoRequestConfig {
+  tokenSecret?: string; // HMAC secret shared with the host backend that mints tenant tokens
+  jwksFile?: string; // Or: JWKS file with the public keys of a host backend that signs tenant tokens (RS*, PS*, ES*)
+  allowedOrigins?: string[]; // Browser origins allowed to call the API for this tenant (any when unset)
+  SOURCE_API_BASE_URL?: string;
+  SOURCE_PRACTICE_TOKEN?: string;
+  SOURCE_AUTH_TOKEN?: string;
+  SOURCE_APP_TYPE?: string;
+  RATE_LIMITS?: RateLimitOverrides;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface ChatRequest {
   message: string;
-  initData: string | {
+  conversationId?: string; // Client-generated id shared by every turn of a conversation
+  history?: ConversationTurn[]; // Prior turns, used when the server holds no history for conversationId
+  redactNames?: string[]; // Names to redact on top of REDACTION_NAMES_FILE (the widget's REDACT_NAMES)
+  tenantId?: string; // Tenant registry id; the tenant token is sent as the Authorization bearer
+  initData?: string | {
     BOTDOJO_API_KEY: string;
     BOTDOJO_BASE_URL: string;
     BOTDOJO_ACCOUNT_ID: string;
@@ -117,7 +180,9 @@ export interface ChatRequest {
 export interface SuggestionsRequest {
   context?: string;
   currentSetIndex?: number;
-  initData: string | {
+  redactNames?: string[]; // Names to redact on top of REDACTION_NAMES_FILE (the widget's REDACT_NAMES)
+  tenantId?: string; // Tenant registry id; the tenant token is sent as the Authorization bearer
+  initData?: string | {
     BOTDOJO_API_KEY: string;
     BOTDOJO_BASE_URL: string;
     BOTDOJO_ACCOUNT_ID: string;
@@ -132,7 +197,8 @@ export interface SuggestionsRequest {
 
 export interface TestStructuredRequest {
   contentType: 'guide' | 'faq' | 'labResult' | 'image' | 'linkList' | 'product';
-  initData: string | {
+  tenantId?: string; // Tenant registry id; the tenant token is sent as the Authorization bearer
+  initData?: string | {
     BOTDOJO_API_KEY: string;
     BOTDOJO_BASE_URL: string;
     BOTDOJO_ACCOUNT_ID: string;
@@ -168,6 +234,7 @@ export interface SuggestionsResponse {
 export interface ProductInfoRequest {
   products: string[];
   product_source: string;
+  tenantId?: string;
   initData?: string | {
     BOTDOJO_API_KEY: string;
     BOTDOJO_BASE_URL: string;
@@ -188,5 +255,180 @@ export interface ProductInfoResponse {
   error?: string;
 }
 
+export interface SessionResponse {
+  sessionToken: string; // Opaque token sent as X-Session-Token on chat requests
+  expiresAt: string; // ISO timestamp
+  expiresIn: number; // Seconds
+  conversationHistory: boolean; // Turns of this session are saved and can be read and deleted through /conversations
+}
+
+// A flow tool starting or finishing, as shown to the user while the answer is on its way
+export interface ToolProgress {
+  stage: 'start' | 'end';
+  tool: string; // Tool name as reported by BotDojo
+  label: string; // User-facing description, e.g. "Searching catalog"
+}
+
+// Safety guardrails applied to bot answers
+// flag: report only; disclaimer: append the rule's disclaimer; rewrite: replace each sentence that matches;
+// block: withhold the whole answer
+export type SafetyAction = 'flag' | 'disclaimer' | 'rewrite' | 'block';
+
+export type SafetyCategory = 'dosage' | 'cure_claim' | 'pregnancy' | 'pediatric' | 'custom';
+
+export interface SafetyRule {
+  category: SafetyCategory;
+  pattern: string; // Case-insensitive regex
+  scope: 'answer' | 'message' | 'both'; // Checked against the bot's answer, the user's message, or both
+  action: SafetyAction;
+  disclaimer?: string; // Appended to the answer (disclaimer and rewrite actions)
+  replacement?: string; // Replaces each matching sentence (rewrite action); empty removes it
+}
+
+// A rule that matched a chat turn
+export interface SafetyFinding {
+  rule: string; // Rule id, e.g. "cure_claim"
+  category: SafetyCategory;
+  action: SafetyAction;
+  source: 'answer' | 'message';
+}
+
+// What the guardrails did to an answer; action is the strongest action applied
+export interface SafetyReport {
+  action: SafetyAction;
+  findings: SafetyFinding[];
+  disclaimers: string[];
+}
+
+// A message of a persisted conversation (GET /conversations/:id)
+export interface StoredMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: string; // ISO timestamp
+  suggestedQuestions?: string[];
+  skus?: string[]; // Products the flow recommended
+  products?: Record<string, unknown>[]; // Their catalog details, when they were loaded
+  timings?: { firstTokenMs?: number; totalMs: number }; // From the start of the turn
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string; // Start of the first message
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface StoredConversation extends ConversationSummary {
+  messages: StoredMessage[];
+}
+
+// Practitioner feedback on an answer, or on one of the products recommended with it
+export type FeedbackRating = 'helpful' | 'not_helpful';
+export type FeedbackTarget = 'answer' | 'product';
+export type FeedbackReason =
+  | 'inaccurate' | 'not_relevant' | 'incomplete' | 'unsafe' | 'wrong_products' // answers
+  | 'contraindicated' | 'wrong_form' | 'unavailable' // products
+  | 'other';
+
+export interface FeedbackRequest {
+  messageId: string; // The widget's id for the answer; feedback sent again for the same answer (and product) replaces it
+  conversationId?: string;
+  requestId?: string; // From the answer's done event
+  target?: FeedbackTarget; // Default 'answer'
+  sku?: string; // Required for product feedback
+  rating: FeedbackRating;
+  reasons?: FeedbackReason[];
+  comment?: string;
+  question: string;
+  answer: string;
+  skus?: string[]; // Products recommended with the answer
+  redactNames?: string[];
+}
+
+export interface FeedbackRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  tenantId?: string;
+  accountId?: string; // BotDojo account of initData callers
+  practitionerId?: string;
+  messageId: string;
+  conversationId?: string;
+  requestId?: string;
+  target: FeedbackTarget;
+  sku?: string;
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+  comment?: string;
+  question: string; // Question, answer and comment are stored redacted
+  answer: string;
+  skus: string[];
+}
+
+// Widget analytics events (POST /events), aggregated by GET /admin/analytics/*
+export type AnalyticsEventType =
+  | 'question_asked' // question: the message sent
+  | 'products_shown' // skus: the products recommended with an answer
+  | 'sidebar_opened' // skus: the products in the opened sidebar
+  | 'product_selected' // sku: the product card clicked
+  | 'suggestion_clicked' // question: the suggested question clicked
+  | 'cancelled'; // the user stopped an answer
+
+export interface AnalyticsEventInput {
+  type: AnalyticsEventType;
+  conversationId?: string;
+  messageId?: string; // The widget's id for the question (question_asked, cancelled) or the answer
+  requestId?: string; // From the answer's done event
+  question?: string;
+  skus?: string[];
+  sku?: string;
+}
+
+export interface EventsRequest {
+  events: AnalyticsEventInput[];
+  redactNames?: string[];
+}
+
+export interface TopQuestion {
+  tenantId?: string;
+  accountId?: string; // BotDojo account of initData callers
+  question: string; // As last asked; questions differing only in case, spacing or closing punctuation count together
+  count: number;
+  lastAskedAt: string;
+}
+
+export interface SkuStats {
+  tenantId?: string;
+  accountId?: string;
+  sku: string;
+  shown: number; // Answers that recommended the SKU
+  clicks: number; // Of those, answers whose product card for the SKU was clicked
+  clickThroughRate: number; // clicks / shown
+}
+
+// Events emitted by POST /chat/stream; the SSE event name is the type
+export type ChatStreamEvent =
+  | { type: 'text.delta'; delta: string; reset?: boolean } // reset: delta replaces the text received so far
+  | ({ type: 'progress' } & ToolProgress)
+  | { type: 'suggestions'; suggestedQuestions: string[] }
+  | ({ type: 'safety' } & SafetyReport) // sent before done when a guardrail rule matched
+  | { type: 'products.skus'; skus: string[] }
+  | { type: 'products.detail'; products: Record<string, unknown>[]; failed: string[] }
+  | { type: 'done'; text: string; suggestedQuestions: string[]; products: string[]; requestId?: string } // requestId names the turn in logs and POST /feedback
+  | { type: 'error'; source: 'text' | 'products'; error: string; retryAfter?: number }; // text errors end the stream, products errors do not; retryAfter (seconds) when rate limited
+
+// Frames sent by the client over the /chat/ws WebSocket; `id` is chosen by the client and names the turn
+export type ChatSocketClientFrame =
+  | { type: 'chat.send'; id: string; sessionToken: string; message: string; conversationId?: string; history?: ConversationTurn[]; redactNames?: string[]; traceparent?: string }
+  | { type: 'chat.cancel'; id: string };
+
+// Frames sent by the server over /chat/ws; chat.event carries the same events as POST /chat/stream
+export type ChatSocketServerFrame =
+  | { type: 'chat.started'; id: string; streamId: string }
+  | { type: 'chat.event'; id: string; eventId: string; event: ChatStreamEvent }
+  | { type: 'chat.end'; id: string } // no more events for this turn
+  | { type: 'chat.error'; id?: string; status: number; error: string; code?: string; retryAfter?: number }; // the turn was rejected before it started
+
 // Alias for compatibility
 export type ChatMessage = Message;
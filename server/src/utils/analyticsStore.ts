@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { analyticsStoreConfig, AnalyticsStoreConfig } from '../config/environment';
+import { AnalyticsEventInput, SkuStats, TopQuestion } from '../types';
+import { logger } from './logger';
+
+// Who sent a batch of events, from the request's credentials
+export interface AnalyticsScope {
+  tenantId?: string;
+  accountId?: string; // BotDojo account of initData callers
+  practitionerId?: string;
+}
+
+export interface AnalyticsFilter {
+  tenantId?: string; // Tenant id, or BotDojo account id for initData callers
+  since?: number; // ms since epoch, inclusive
+  until?: number; // ms since epoch, exclusive
+  limit: number;
+}
+
+export interface SkuStatsOptions {
+  sort: 'shown' | 'clickThroughRate';
+  minShown: number; // Leave out SKUs recommended fewer times, so one lucky click doesn't top the rates
+}
+
+/**
+ * Storage backend for widget analytics
+ * Events are kept as received; the aggregations run over them on request.
+ */
+export interface AnalyticsRepository {
+  readonly backend: string;
+  record(scope: AnalyticsScope, events: AnalyticsEventInput[]): Promise<void>;
+  /** Most asked questions per tenant */
+  topQuestions(filter: AnalyticsFilter): Promise<TopQuestion[]>;
+  /** How often each SKU was recommended and clicked, per tenant */
+  skuStats(filter: AnalyticsFilter, options: SkuStatsOptions): Promise<SkuStats[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Grouping key of a question: case, spacing and closing punctuation don't make it a different question
+ */
+export function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[\s?.!]+$/, '');
+}
+
+interface TopQuestionRow {
+  tenant_id: string;
+  account_id: string;
+  question: string;
+  count: number;
+  last_at: number;
+}
+
+interface SkuStatsRow {
+  tenant_id: string;
+  account_id: string;
+  sku: string;
+  shown: number;
+  clicks: number;
+  rate: number;
+}
+
+/**
+ * SQLite analytics store (default)
+ */
+export class SqliteAnalyticsRepository implements AnalyticsRepository {
+  readonly backend = 'sqlite';
+  private db: Database.Database;
+
+  /**
+   * @param filePath - Database file (created with its directory if missing), or ":memory:"
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS analytics_events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL,
+        tenant_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        practitioner_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        request_id TEXT,
+        question TEXT,
+        question_key TEXT,
+        skus TEXT NOT NULL,
+        sku TEXT
+      );
+      CREATE INDEX IF NOT EXISTS analytics_events_by_type ON analytics_events (type, created_at);
+    `);
+  }
+
+  async record(scope: AnalyticsScope, events: AnalyticsEventInput[]): Promise<void> {
+    const now = Date.now();
+    const insert = this.db.prepare(`
+      INSERT INTO analytics_events (created_at, tenant_id, account_id, practitioner_id, type, conversation_id, message_id,
+        request_id, question, question_key, skus, sku)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insert.run(
+          now,
+          scope.tenantId ?? '',
+          scope.accountId ?? '',
+          scope.practitionerId ?? '',
+          event.type,
+          event.conversationId ?? '',
+          event.messageId ?? '',
+          event.requestId ?? null,
+          event.question ?? null,
+          event.question === undefined ? null : normalizeQuestion(event.question),
+          JSON.stringify(event.skus ?? []),
+          event.sku ?? null
+        );
+      }
+    })();
+  }
+
+  async topQuestions(filter: AnalyticsFilter): Promise<TopQuestion[]> {
+    const { conditions, params } = this.buildFilter(filter);
+    // The bare question and created_at columns come from the row holding MAX(seq), i.e. the latest wording
+    const rows = this.db.prepare(`
+      SELECT e.tenant_id, e.account_id, e.question, e.created_at AS last_at, COUNT(*) AS count, MAX(e.seq) AS last_seq
+      FROM analytics_events e
+      WHERE e.type = 'question_asked' AND e.question_key <> '' AND ${conditions}
+      GROUP BY e.tenant_id, e.account_id, e.question_key
+      ORDER BY count DESC, last_seq DESC
+      LIMIT @limit
+    `).all({ ...params, limit: filter.limit }) as TopQuestionRow[];
+
+    return rows.map((row) => ({
+      tenantId: row.tenant_id || undefined,
+      accountId: row.account_id || undefined,
+      question: row.question,
+      count: row.count,
+      lastAskedAt: new Date(row.last_at).toISOString()
+    }));
+  }
+
+  async skuStats(filter: AnalyticsFilter, options: SkuStatsOptions): Promise<SkuStats[]> {
+    const { conditions, params } = this.buildFilter(filter);
+    // Clicks count answers, not clicks, so the rate stays the share of recommendations that were followed
+    const rows = this.db.prepare(`
+      WITH shown AS (
+        SELECT e.tenant_id, e.account_id, j.value AS sku, COUNT(*) AS shown
+        FROM analytics_events e, json_each(e.skus) j
+        WHERE e.type = 'products_shown' AND ${conditions}
+        GROUP BY e.tenant_id, e.account_id, j.value
+      ), clicks AS (
+        SELECT e.tenant_id, e.account_id, e.sku, COUNT(DISTINCT e.conversation_id || ':' || e.message_id) AS clicks
+        FROM analytics_events e
+        WHERE e.type = 'product_selected' AND e.sku IS NOT NULL AND ${conditions}
+        GROUP BY e.tenant_id, e.account_id, e.sku
+      )
+      SELECT s.tenant_id, s.account_id, s.sku, s.shown, COALESCE(c.clicks, 0) AS clicks,
+        MIN(1.0, CAST(COALESCE(c.clicks, 0) AS REAL) / s.shown) AS rate
+      FROM shown s
+      LEFT JOIN clicks c ON c.tenant_id = s.tenant_id AND c.account_id = s.account_id AND c.sku = s.sku
+      WHERE s.shown >= @minShown
+      ORDER BY ${options.sort === 'clickThroughRate' ? 'rate DESC, s.shown DESC' : 's.shown DESC, clicks DESC'}, s.sku
+      LIMIT @limit
+    `).all({ ...params, minShown: options.minShown, limit: filter.limit }) as SkuStatsRow[];
+
+    return rows.map((row) => ({
+      tenantId: row.tenant_id || undefined,
+      accountId: row.account_id || undefined,
+      sku: row.sku,
+      shown: row.shown,
+      clicks: row.clicks,
+      clickThroughRate: Math.round(row.rate * 10000) / 10000
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  // Conditions on analytics_events aliased as e, with their named parameters
+  private buildFilter(filter: AnalyticsFilter): { conditions: string; params: Record<string, string | number> } {
+    const conditions = ['e.created_at >= @since', 'e.created_at < @until'];
+    const params: Record<string, string | number> = {
+      since: filter.since ?? 0,
+      until: filter.until ?? Number.MAX_SAFE_INTEGER
+    };
+    if (filter.tenantId !== undefined) {
+      conditions.push('(e.tenant_id = @tenantId OR (e.tenant_id = \'\' AND e.account_id = @tenantId))');
+      params.tenantId = filter.tenantId;
+    }
+    return { conditions: conditions.join(' AND '), params };
+  }
+}
+
+/**
+ * Create the analytics store selected by configuration, or null when analytics is off
+ */
+export function createAnalyticsRepository(config: AnalyticsStoreConfig = analyticsStoreConfig): AnalyticsRepository | null {
+  if (config.backend === 'none') {
+    return null;
+  }
+  const repository = new SqliteAnalyticsRepository(config.dbFile);
+  logger.info('Analytics store opened', { backend: repository.backend, file: config.dbFile });
+  return repository;
+}
+
+// Create singleton instance
+export const analyticsStore = createAnalyticsRepository();
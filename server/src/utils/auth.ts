@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { authConfig, AuthConfig, metricsConfig, serverConfig } from '../config/environment';
+import { AuthenticationError, ForbiddenError, NotFoundError } from './errorHandler';
+import { FileJwksKeySet, JwksKeySet, JwtClaims, JwtKeys, verifyJwt } from './jwt';
+import { sessionStore, SessionStore } from './sessionStore';
+import { tenantRegistry, TenantRegistry } from './tenantRegistry';
+
+/**
+ * How a request was authenticated
+ * - session: X-Session-Token from the /session handshake (itself authenticated by one of the others)
+ * - tenant: tenant token for body.tenantId, verified with the tenant's keys from the registry
+ * - host: token minted by the host backend, verified with the server's AUTH_JWT_SECRET / AUTH_JWKS_FILE
+ * - anonymous: no credentials, only when AUTH_REQUIRED is off (legacy initData deployments)
+ * - admin: ADMIN_TOKEN, or a host token with ADMIN_ROLE (admin routes only)
+ */
+export interface AuthContext {
+  method: 'session' | 'tenant' | 'host' | 'anonymous' | 'admin';
+  tenantId?: string;
+  subject?: string; // sub claim of the verified token
+}
+
+/**
+ * Read the bearer token of the Authorization header
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  const token = authorization?.startsWith('Bearer ') ? authorization.substring(7).trim() : undefined;
+  return token || undefined;
+}
+
+/**
+ * Compare secrets in constant time (hashing first so lengths need not match)
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Authenticates API requests and enforces the browser origins allowed for each tenant
+ */
+class Authenticator {
+  private config: AuthConfig;
+  private keys: JwtKeys;
+  private tenants: TenantRegistry;
+  private sessions: SessionStore;
+
+  constructor(config: AuthConfig, jwks: JwksKeySet | undefined, tenants: TenantRegistry, sessions: SessionStore) {
+    this.config = config;
+    this.keys = { secret: config.jwtSecret, jwks };
+    this.tenants = tenants;
+    this.sessions = sessions;
+  }
+
+  get required(): boolean {
+    return this.config.required;
+  }
+
+  /**
+   * Verify a token minted by the host backend with the server-wide keys
+   *
+   * @throws AuthenticationError if no keys are configured or the token does not verify
+   */
+  verifyHostToken(token: string): JwtClaims {
+    if (!this.keys.secret && !this.keys.jwks) {
+      throw new AuthenticationError('This server does not accept host tokens; use a tenant token or a session', undefined, 'token_invalid');
+    }
+    return verifyJwt(token, this.keys, {
+      issuer: this.config.issuer,
+      audience: this.config.audience,
+      maxAgeSeconds: this.config.tokenMaxAgeSeconds
+    });
+  }
+
+  /**
+   * Authenticate a request
+   * A session token takes precedence, then a tenant token for body.tenantId, then a host token.
+   *
+   * @throws AuthenticationError (401) for missing or invalid credentials, ForbiddenError (403) for a disallowed origin
+   */
+  async authenticate(req: Request): Promise<AuthContext> {
+    const sessionToken = req.headers['x-session-token'];
+    const tenantId = (req.body as Record<string, unknown> | undefined)?.tenantId;
+    const token = getBearerToken(req);
+    let auth: AuthContext;
+
+    if (typeof sessionToken === 'string' && sessionToken.length > 0) {
+      const session = this.sessions.resolveSession(sessionToken);
+      auth = { method: 'session', tenantId: session.config.TENANT_ID, subject: session.subject };
+    } else if (typeof tenantId === 'string') {
+      const { claims } = await this.tenants.resolve(tenantId, token);
+      auth = { method: 'tenant', tenantId, subject: claims.sub };
+    } else if (token && (this.keys.secret || this.keys.jwks || this.config.required)) {
+      const claims = this.verifyHostToken(token);
+      auth = { method: 'host', tenantId: claims.tid, subject: claims.sub };
+    } else if (this.config.required) {
+      throw new AuthenticationError('A bearer token, tenant token or session token is required', undefined, 'token_required');
+    } else {
+      auth = { method: 'anonymous' };
+    }
+
+    await this.checkOrigin(req.get('Origin'), auth.tenantId);
+    return auth;
+  }
+
+  /**
+   * Authenticate an admin request: ADMIN_TOKEN, or a host token whose roles (or role) claim includes ADMIN_ROLE
+   *
+   * @throws NotFoundError when no admin credentials are configured, AuthenticationError (401) or ForbiddenError (403)
+   */
+  authenticateAdmin(req: Request): AuthContext {
+    const hostKeys = Boolean(this.keys.secret || this.keys.jwks);
+    if (!this.config.adminToken && !hostKeys) {
+      throw new NotFoundError('Admin API is not enabled on this server');
+    }
+
+    const token = getBearerToken(req);
+    if (!token) {
+      throw new AuthenticationError('An admin token is required', undefined, 'token_required');
+    }
+    if (this.config.adminToken && safeEqual(token, this.config.adminToken)) {
+      return { method: 'admin' };
+    }
+    if (!hostKeys) {
+      throw new AuthenticationError('Invalid admin token', undefined, 'token_invalid');
+    }
+
+    const claims = this.verifyHostToken(token);
+    const roles = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+    if (!roles.includes(this.config.adminRole)) {
+      throw new ForbiddenError('This token does not grant admin access', { subject: claims.sub }, 'admin_role_required');
+    }
+    return { method: 'admin', subject: claims.sub };
+  }
+
+  /**
+   * Check a browser origin against the tenant's allowedOrigins, or CORS_ORIGINS for tenants without any
+   * Requests without an Origin header (server-to-server) are not restricted.
+   *
+   * @throws ForbiddenError (code origin_not_allowed)
+   */
+  async checkOrigin(origin: string | undefined, tenantId?: string): Promise<void> {
+    if (!origin) {
+      return;
+    }
+    const allowed = (tenantId ? await this.tenants.getAllowedOrigins(tenantId) : undefined) ?? this.config.allowedOrigins;
+    if (allowed.length === 0 || allowed.includes('*') || allowed.includes(origin)) {
+      return;
+    }
+    throw new ForbiddenError(
+      tenantId ? `Origin ${origin} is not allowed for this tenant` : `Origin ${origin} is not allowed`,
+      { origin, tenantId },
+      'origin_not_allowed'
+    );
+  }
+
+  /**
+   * Whether an origin may call the API at all, for CORS and WebSocket upgrades
+   * These do not say which tenant they are for, so any tenant's origins are accepted here; checkOrigin narrows it per request.
+   */
+  async isOriginAllowed(origin: string | undefined): Promise<boolean> {
+    if (!origin || this.config.allowedOrigins.includes('*')) {
+      return true;
+    }
+    const tenantOrigins = await this.tenants.listAllowedOrigins();
+    if (this.config.allowedOrigins.length === 0 && tenantOrigins.length === 0) {
+      return true;
+    }
+    return this.config.allowedOrigins.includes(origin) || tenantOrigins.includes(origin);
+  }
+}
+
+// Create singleton instance
+export const authenticator = new Authenticator(
+  authConfig,
+  authConfig.jwksFile ? new FileJwksKeySet(authConfig.jwksFile) : undefined,
+  tenantRegistry,
+  sessionStore
+);
+
+// Authentication middleware for chat, suggestions and product routes; the result is available as res.locals.auth
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  authenticator.authenticate(req).then((auth) => {
+    res.locals.auth = auth;
+    next();
+  }, next);
+};
+
+// Admin middleware for the /admin router and debug routes; the result is available as res.locals.auth
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    res.locals.auth = authenticator.authenticateAdmin(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Scrape middleware for /metrics: requires METRICS_TOKEN as a bearer token
+// Only outside production may metrics be served without one (METRICS_ENABLED=true on a trusted network)
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction): void => {
+  if (!metricsConfig.token) {
+    if (serverConfig.nodeEnv === 'production') {
+      next(new ForbiddenError('Metrics require METRICS_TOKEN in production', undefined, 'metrics_token_not_configured'));
+    } else {
+      next();
+    }
+    return;
+  }
+  const token = getBearerToken(req);
+  if (!token) {
+    next(new AuthenticationError('A metrics token is required', undefined, 'token_required'));
+  } else if (!safeEqual(token, metricsConfig.token)) {
+    next(new AuthenticationError('Invalid metrics token', undefined, 'token_invalid'));
+  } else {
+    next();
+  }
+};
+
+// Export class for testing
+export { Authenticator };
@@ -1,11 +1,9 @@
-import NodeCache from 'node-cache';
-
-export interface CacheConfig {
-  ttl: number; // Time to live in seconds
-  checkperiod: number; // Check for expired keys every X seconds
-  useClones: boolean; // Clone cached values
-  maxKeys: number; // Maximum number of keys
-}
+import crypto from 'crypto';
+import { CacheStore, MemoryCacheStore, RedisCacheStore } from './cacheStore';
+import { getRedisClient } from './redisClient';
+import { metrics } from './metrics';
+import { recordSpanError, withSpan } from './tracing';
+import { cacheBackendConfig, CacheBackendConfig } from '../config/environment';
 
 export interface CacheStats {
   keys: number;
@@ -15,196 +13,408 @@ export interface CacheStats {
   vsize: number;
 }
 
+/**
+ * Who a cached entry belongs to; every field that changes the upstream answer is part of the key
+ */
+export interface CacheScope {
+  tenantId?: string; // Tenant registry id (tenant mode)
+  accountId: string;
+  projectId: string;
+  flowId: string;
+  store?: string;
+  productSource?: string;
+  credentialDigest?: string; // Digest of the BotDojo base URL and API key (initData callers, who pick their own)
+}
+
+/**
+ * Catalog a product detail was fetched from; the same SKU can differ per store and source
+ */
+export interface CatalogScope {
+  tenantId?: string;
+  accountId: string;
+  sourceApiBaseUrl: string;
+  practiceToken?: string;
+  store?: string;
+  productSource?: string;
+  credentialDigest?: string; // Digest of the catalog auth token (initData callers, who pick their own)
+}
+
+export interface StaleWhileRevalidateOptions {
+  freshSeconds: number; // Served without revalidation
+  staleSeconds: number; // Total lifetime; between freshSeconds and this the entry is served while refreshing in the background
+}
+
+interface TimestampedEntry<T> {
+  value: T;
+  fetchedAt: number; // ms since epoch
+}
+
+/**
+ * Key segment that all of a tenant's entries start with, used for per-tenant invalidation
+ * Legacy (initData) callers have no tenant id and are grouped by BotDojo account instead.
+ */
+export function tenantKeyPrefix(scope: Pick<CacheScope, 'tenantId' | 'accountId'>): string {
+  return scope.tenantId
+    ? `tenant=${encodeURIComponent(scope.tenantId)}:`
+    : `account=${encodeURIComponent(scope.accountId)}:`;
+}
+
+/**
+ * Namespace (key kind, e.g. "botdojo") and tenant id of a key generated by CacheManager, for metrics labels
+ */
+function describeKey(key: string): { namespace: string; tenantId?: string } {
+  // Key segments are URI-encoded, so ":" only ever separates them
+  const [owner, namespace = 'unknown'] = key.split(':');
+  return {
+    namespace,
+    tenantId: owner.startsWith('tenant=') ? decodeURIComponent(owner.substring('tenant='.length)) : undefined
+  };
+}
+
 class CacheManager {
-  private cache: NodeCache;
+  private store: CacheStore;
   public defaultTtl: number;
   private stats: {
     hits: number;
     misses: number;
   };
 
-  constructor(config: CacheConfig = {
-    ttl: 300, // 5 minutes default
-    checkperiod: 60, // Check every minute
-    useClones: false,
-    maxKeys: 1000
-  }) {
-    this.defaultTtl = config.ttl;
-    this.cache = new NodeCache(config);
-    this.stats = { hits: 0, misses: 0 };
+  private revalidating = new Map<string, Promise<void>>();
 
-    // Set up event listeners
-    this.cache.on('set', (key, value) => {
-      console.log(`Cache SET: ${key}`);
-    });
+  constructor(store: CacheStore = new MemoryCacheStore(), defaultTtl: number = 300) {
+    this.store = store;
+    this.defaultTtl = defaultTtl;
+    this.stats = { hits: 0, misses: 0 };
+  }
 
-    this.cache.on('del', (key, value) => {
-      console.log(`Cache DEL: ${key}`);
-    });
+  /**
+   * Name of the active backend ("memory" or "redis")
+   */
+  get backend(): string {
+    return this.store.backend;
+  }
 
-    this.cache.on('expired', (key, value) => {
-      console.log(`Cache EXPIRED: ${key}`);
-    });
+  /**
+   * Generate a scoped, fixed-length cache key
+   * Format: <tenant prefix><kind>:<sha256 of scope + inputs>
+   */
+  private generateKey(kind: string, scope: CacheScope, ...inputs: unknown[]): string {
+    // JSON array encoding keeps field boundaries unambiguous ("ab" + "c" never equals "a" + "bc")
+    const material = JSON.stringify([
+      scope.accountId,
+      scope.projectId,
+      scope.flowId,
+      scope.store ?? null,
+      scope.productSource ?? null,
+      scope.credentialDigest ?? null,
+      ...inputs
+    ]);
+    const digest = crypto.createHash('sha256').update(material).digest('hex');
+    return `${tenantKeyPrefix(scope)}${kind}:${digest}`;
   }
 
   /**
    * Generate cache key for BotDojo requests
    */
-  private generateBotDojoKey(message: string, options?: any): string {
-    const optionsStr = options ? JSON.stringify(options) : '';
-    const key = `botdojo:${Buffer.from(message + optionsStr).toString('base64')}`;
-    return key.substring(0, 100); // Limit key length
+  private generateBotDojoKey(scope: CacheScope, message: string, options?: any): string {
+    return this.generateKey('botdojo', scope, message, options ?? null);
   }
 
   /**
    * Generate cache key for suggestions
    */
-  private generateSuggestionsKey(context: string, currentSetIndex: number): string {
-    const key = `suggestions:${Buffer.from(context + currentSetIndex.toString()).toString('base64')}`;
-    return key.substring(0, 100);
+  private generateSuggestionsKey(scope: CacheScope, context: string, currentSetIndex: number): string {
+    return this.generateKey('suggestions', scope, context, currentSetIndex);
+  }
+
+  /**
+   * Generate cache key for SKU lists returned by the products flow
+   */
+  private generateProductSkusKey(scope: CacheScope, message: string): string {
+    return this.generateKey('products', scope, message);
+  }
+
+  /**
+   * Generate cache key for a catalog product detail
+   */
+  private generateProductDetailKey(scope: CatalogScope, sku: string): string {
+    const material = JSON.stringify([
+      scope.sourceApiBaseUrl,
+      scope.practiceToken ?? null,
+      scope.store ?? null,
+      scope.productSource ?? null,
+      scope.credentialDigest ?? null,
+      sku
+    ]);
+    const digest = crypto.createHash('sha256').update(material).digest('hex');
+    return `${tenantKeyPrefix(scope)}product:${digest}`;
   }
 
   /**
    * Get cached BotDojo response
    */
-  getBotDojoResponse(message: string, options?: any): any | undefined {
-    const key = this.generateBotDojoKey(message, options);
-    const value = this.cache.get(key);
-    
-    if (value !== undefined) {
-      this.stats.hits++;
-      console.log(`Cache HIT: ${key}`);
-      return value;
-    } else {
-      this.stats.misses++;
-      console.log(`Cache MISS: ${key}`);
-      return undefined;
-    }
+  async getBotDojoResponse(scope: CacheScope, message: string, options?: any): Promise<any | undefined> {
+    return this.read(this.generateBotDojoKey(scope, message, options));
   }
 
   /**
    * Set cached BotDojo response
    */
-  setBotDojoResponse(message: string, response: any, options?: any, ttl?: number): void {
-    const key = this.generateBotDojoKey(message, options);
-    const success = this.cache.set(key, response, ttl || this.defaultTtl);
-    
-    if (success) {
-      console.log(`Cache SET: ${key} (TTL: ${ttl || 'default'})`);
-    } else {
-      console.log(`Cache SET FAILED: ${key}`);
-    }
+  async setBotDojoResponse(scope: CacheScope, message: string, response: any, options?: any, ttl?: number): Promise<void> {
+    await this.write(this.generateBotDojoKey(scope, message, options), response, ttl);
   }
 
   /**
    * Get cached suggestions
    */
-  getSuggestions(context: string, currentSetIndex: number): any | undefined {
-    const key = this.generateSuggestionsKey(context, currentSetIndex);
-    const value = this.cache.get(key);
-    
-    if (value !== undefined) {
-      this.stats.hits++;
-      console.log(`Cache HIT: ${key}`);
-      return value;
-    } else {
-      this.stats.misses++;
-      console.log(`Cache MISS: ${key}`);
-      return undefined;
-    }
+  async getSuggestions(scope: CacheScope, context: string, currentSetIndex: number): Promise<any | undefined> {
+    return this.read(this.generateSuggestionsKey(scope, context, currentSetIndex));
   }
 
   /**
    * Set cached suggestions
    */
-  setSuggestions(context: string, currentSetIndex: number, suggestions: any, ttl?: number): void {
-    const key = this.generateSuggestionsKey(context, currentSetIndex);
-    const success = this.cache.set(key, suggestions, ttl || this.defaultTtl);
-    
-    if (success) {
-      console.log(`Cache SET: ${key} (TTL: ${ttl || 'default'})`);
-    } else {
-      console.log(`Cache SET FAILED: ${key}`);
+  async setSuggestions(scope: CacheScope, context: string, currentSetIndex: number, suggestions: any, ttl?: number): Promise<void> {
+    await this.write(this.generateSuggestionsKey(scope, context, currentSetIndex), suggestions, ttl);
+  }
+
+  /**
+   * Get cached SKU list for a products flow question
+   */
+  async getProductSkus(scope: CacheScope, message: string): Promise<string[] | undefined> {
+    const value = await this.read(this.generateProductSkusKey(scope, message));
+    return Array.isArray(value) ? value : undefined;
+  }
+
+  /**
+   * Set cached SKU list for a products flow question
+   */
+  async setProductSkus(scope: CacheScope, message: string, skus: string[], ttl?: number): Promise<void> {
+    await this.write(this.generateProductSkusKey(scope, message), skus, ttl);
+  }
+
+  /**
+   * Get a catalog product detail with stale-while-revalidate semantics
+   * - fresh entry: returned as is
+   * - stale entry: returned immediately, refreshed in the background (one refresh per key at a time)
+   * - missing entry: loaded, cached and returned; loader errors propagate and are not cached
+   *
+   * @param scope - Catalog the product comes from
+   * @param sku - Product SKU
+   * @param loader - Fetches the product from the catalog API
+   * @param options - Fresh and stale lifetimes
+   */
+  async getProductDetail<T>(
+    scope: CatalogScope,
+    sku: string,
+    loader: () => Promise<T>,
+    options: StaleWhileRevalidateOptions
+  ): Promise<T> {
+    const key = this.generateProductDetailKey(scope, sku);
+    const entry = await this.read(key) as TimestampedEntry<T> | undefined;
+
+    if (entry && typeof entry.fetchedAt === 'number') {
+      if (Date.now() - entry.fetchedAt > options.freshSeconds * 1000) {
+        this.revalidate(key, loader, options);
+      }
+      return entry.value;
     }
+
+    const value = await loader();
+    await this.write(key, { value, fetchedAt: Date.now() }, options.staleSeconds);
+    return value;
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): CacheStats & { hitRate: number } {
-    const nodeStats = this.cache.getStats();
+  async getStats(): Promise<CacheStats & { hitRate: number; backend: string }> {
+    const storeStats = await this.store.stats();
     const hitRate = this.stats.hits + this.stats.misses > 0 
       ? this.stats.hits / (this.stats.hits + this.stats.misses) 
       : 0;
 
     return {
-      ...nodeStats,
+      ...storeStats,
       hits: this.stats.hits,
       misses: this.stats.misses,
-      hitRate
+      hitRate,
+      backend: this.store.backend
     };
   }
 
   /**
    * Clear all cache
    */
-  clear(): void {
-    this.cache.flushAll();
+  async clear(): Promise<void> {
+    await this.store.clear();
     this.stats = { hits: 0, misses: 0 };
     console.log('Cache cleared');
   }
 
+  /**
+   * Clear every entry belonging to one tenant (or legacy BotDojo account)
+   *
+   * @returns Number of keys deleted
+   */
+  async clearTenant(scope: Pick<CacheScope, 'tenantId' | 'accountId'>): Promise<number> {
+    return this.deleteByPrefix(tenantKeyPrefix(scope));
+  }
+
+  /**
+   * Delete every key starting with prefix
+   *
+   * @returns Number of keys deleted
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    return withSpan('cache.delete_prefix', { 'cache.prefix': prefix, 'cache.backend': this.store.backend }, async (span) => {
+      const keys = await this.store.keys(prefix);
+      let deleted = 0;
+      for (const key of keys) {
+        if (await this.store.delete(key)) {
+          deleted++;
+        }
+      }
+      span.setAttribute('cache.deleted', deleted);
+      console.log(`Cache cleared for ${prefix} (${deleted} keys)`);
+      return deleted;
+    });
+  }
+
   /**
    * Get cache keys (for debugging)
    */
-  getKeys(): string[] {
-    return this.cache.keys();
+  async getKeys(prefix?: string): Promise<string[]> {
+    return this.store.keys(prefix);
   }
 
   /**
    * Delete specific key
    */
-  delete(key: string): boolean {
-    return this.cache.del(key) > 0;
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
   }
 
   /**
    * Check if key exists
    */
-  has(key: string): boolean {
-    return this.cache.has(key);
+  async has(key: string): Promise<boolean> {
+    return this.store.has(key);
   }
 
   /**
    * Get TTL for a key
    */
-  getTtl(key: string): number | undefined {
-    return this.cache.getTtl(key);
+  async getTtl(key: string): Promise<number | undefined> {
+    return this.store.getTtl(key);
   }
 
   /**
    * Set TTL for a key
    */
-  setTtl(key: string, ttl: number): boolean {
-    return this.cache.ttl(key, ttl);
+  async setTtl(key: string, ttl: number): Promise<boolean> {
+    return this.store.setTtl(key, ttl);
   }
 
   /**
    * Close cache and cleanup
    */
-  close(): void {
-    this.cache.close();
+  async close(): Promise<void> {
+    await this.store.close();
     console.log('Cache closed');
   }
+
+  /**
+   * Refresh a stale entry in the background; the stale value stays cached if the refresh fails
+   */
+  private revalidate<T>(key: string, loader: () => Promise<T>, options: StaleWhileRevalidateOptions): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    // Promise.resolve().then() also turns a synchronous loader throw into a rejection
+    const refresh = Promise.resolve()
+      .then(loader)
+      .then((value) => this.write(key, { value, fetchedAt: Date.now() }, options.staleSeconds))
+      .catch((error) => {
+        console.log(`Cache REVALIDATE FAILED: ${key} (${error instanceof Error ? error.message : 'Unknown error'})`);
+      })
+      .finally(() => {
+        this.revalidating.delete(key);
+      });
+
+    this.revalidating.set(key, refresh);
+  }
+
+  /**
+   * Read a key, counting hits/misses (also per namespace and tenant in the metrics) in a cache.get span
+   * Backend errors are treated as a miss so an unavailable cache never fails a request
+   */
+  private async read(key: string): Promise<unknown> {
+    const { namespace, tenantId } = describeKey(key);
+    return withSpan('cache.get', this.spanAttributes(namespace, tenantId), async (span) => {
+      let value: unknown;
+      try {
+        value = await this.store.get(key);
+      } catch (error) {
+        recordSpanError(span, error);
+        console.log(`Cache GET FAILED: ${key} (${error instanceof Error ? error.message : 'Unknown error'})`);
+      }
+
+      metrics.recordCacheLookup(namespace, tenantId, value !== undefined);
+      span.setAttribute('cache.hit', value !== undefined);
+      if (value !== undefined) {
+        this.stats.hits++;
+        console.log(`Cache HIT: ${key}`);
+        return value;
+      }
+      this.stats.misses++;
+      console.log(`Cache MISS: ${key}`);
+      return undefined;
+    });
+  }
+
+  /**
+   * Write a key in a cache.set span; failures are logged and otherwise ignored
+   */
+  private async write(key: string, value: unknown, ttl?: number): Promise<void> {
+    const { namespace, tenantId } = describeKey(key);
+    await withSpan('cache.set', this.spanAttributes(namespace, tenantId), async (span) => {
+      try {
+        const success = await this.store.set(key, value, ttl || this.defaultTtl);
+        console.log(success ? `Cache SET: ${key} (TTL: ${ttl || 'default'})` : `Cache SET FAILED: ${key}`);
+      } catch (error) {
+        recordSpanError(span, error);
+        console.log(`Cache SET FAILED: ${key} (${error instanceof Error ? error.message : 'Unknown error'})`);
+      }
+    });
+  }
+
+  private spanAttributes(namespace: string, tenantId?: string): Record<string, string> {
+    return { 'cache.namespace': namespace, 'cache.backend': this.store.backend, 'tenant.id': tenantId ?? 'none' };
+  }
+}
+
+/**
+ * Create the cache store selected by configuration
+ */
+export function createCacheStore(config: CacheBackendConfig = cacheBackendConfig): CacheStore {
+  if (config.backend === 'redis') {
+    if (!config.redisUrl) {
+      throw new Error('CACHE_BACKEND=redis requires REDIS_URL');
+    }
+    return new RedisCacheStore(getRedisClient(config.redisUrl), config.keyPrefix);
+  }
+
+  return new MemoryCacheStore({
+    checkperiod: 60,
+    useClones: false,
+    maxKeys: config.maxKeys
+  });
 }
 
 // Create singleton instance
-export const cacheManager = new CacheManager({
-  ttl: parseInt(process.env.CACHE_TTL || '300', 10), // 5 minutes default
-  checkperiod: 60,
-  useClones: false,
-  maxKeys: parseInt(process.env.CACHE_MAX_KEYS || '1000', 10)
-});
+export const cacheManager = new CacheManager(createCacheStore(), cacheBackendConfig.ttlSeconds);
 
 // Export types and class for testing
 export { CacheManager };
@@ -0,0 +1,236 @@
+import NodeCache from 'node-cache';
+
+export interface CacheStoreStats {
+  keys: number;
+  ksize: number; // Approximate size of all keys
+  vsize: number; // Approximate size of all values
+}
+
+/**
+ * Storage backend used by CacheManager
+ * Values are JSON-serializable; TTLs are in seconds (0 = no expiry).
+ */
+export interface CacheStore {
+  readonly backend: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+  has(key: string): Promise<boolean>;
+  /** List keys, optionally only those starting with prefix */
+  keys(prefix?: string): Promise<string[]>;
+  /** Expiry timestamp in ms, 0 if the key never expires, undefined if it does not exist */
+  getTtl(key: string): Promise<number | undefined>;
+  setTtl(key: string, ttlSeconds: number): Promise<boolean>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStoreStats>;
+  close(): Promise<void>;
+}
+
+export interface MemoryCacheStoreConfig {
+  checkperiod: number; // Check for expired keys every X seconds
+  useClones: boolean; // Clone cached values
+  maxKeys: number; // Maximum number of keys
+}
+
+/**
+ * In-process cache store (default); hits are per-instance and lost on restart
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory';
+  private cache: NodeCache;
+
+  constructor(config: MemoryCacheStoreConfig = {
+    checkperiod: 60,
+    useClones: false,
+    maxKeys: 1000
+  }) {
+    this.cache = new NodeCache(config);
+
+    this.cache.on('expired', (key) => {
+      console.log(`Cache EXPIRED: ${key}`);
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    try {
+      return this.cache.set(key, value, ttlSeconds);
+    } catch {
+      // NodeCache throws when maxKeys is reached
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.cache.del(key) > 0;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(key);
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    const keys = this.cache.keys();
+    return prefix ? keys.filter((key) => key.startsWith(prefix)) : keys;
+  }
+
+  async getTtl(key: string): Promise<number | undefined> {
+    return this.cache.getTtl(key);
+  }
+
+  async setTtl(key: string, ttlSeconds: number): Promise<boolean> {
+    return this.cache.ttl(key, ttlSeconds);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.flushAll();
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    const { keys, ksize, vsize } = this.cache.getStats();
+    return { keys, ksize, vsize };
+  }
+
+  async close(): Promise<void> {
+    this.cache.close();
+  }
+}
+
+/**
+ * Subset of Redis commands used by RedisCacheStore
+ * Satisfied by an ioredis client, or by an in-memory fake in tests.
+ */
+export interface RedisCommandClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(key: string, value: string, secondsToken: 'EX', seconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  exists(...keys: string[]): Promise<number>;
+  pttl(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  persist(key: string): Promise<number>;
+  mget(...keys: string[]): Promise<Array<string | null>>;
+  scan(cursor: string, patternToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number): Promise<[string, string[]]>;
+  quit(): Promise<unknown>;
+}
+
+/**
+ * Escape Redis glob characters so a key prefix is matched literally
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Redis-backed cache store shared by every instance
+ * All keys live under a namespace so clear() and keys() never touch other data in the same database.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis';
+  private client: RedisCommandClient;
+  private namespace: string;
+
+  constructor(client: RedisCommandClient, namespace: string = 'chatbot:cache:') {
+    this.client = client;
+    this.namespace = namespace;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.namespace + key);
+    if (raw === null) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    const raw = JSON.stringify(value);
+    if (ttlSeconds > 0) {
+      await this.client.set(this.namespace + key, raw, 'EX', ttlSeconds);
+    } else {
+      await this.client.set(this.namespace + key, raw);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.del(this.namespace + key)) > 0;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.client.exists(this.namespace + key)) > 0;
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const namespacedKeys = await this.scan(prefix);
+    return namespacedKeys.map((key) => key.substring(this.namespace.length));
+  }
+
+  async getTtl(key: string): Promise<number | undefined> {
+    const remainingMs = await this.client.pttl(this.namespace + key);
+    if (remainingMs === -2) {
+      return undefined; // Key does not exist
+    }
+    if (remainingMs === -1) {
+      return 0; // Key has no expiry
+    }
+    return Date.now() + remainingMs;
+  }
+
+  async setTtl(key: string, ttlSeconds: number): Promise<boolean> {
+    if (ttlSeconds > 0) {
+      return (await this.client.expire(this.namespace + key, ttlSeconds)) > 0;
+    }
+    // TTL 0 means "never expire", matching NodeCache
+    await this.client.persist(this.namespace + key);
+    return this.has(key);
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scan('');
+    // Delete in batches to keep individual commands small
+    for (let i = 0; i < keys.length; i += 500) {
+      await this.client.del(...keys.slice(i, i + 500));
+    }
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    const keys = await this.scan('');
+    let vsize = 0;
+    for (let i = 0; i < keys.length; i += 500) {
+      const values = await this.client.mget(...keys.slice(i, i + 500));
+      vsize += values.reduce((total, value) => total + (value ? Buffer.byteLength(value) : 0), 0);
+    }
+
+    return {
+      keys: keys.length,
+      ksize: keys.reduce((total, key) => total + Buffer.byteLength(key), 0),
+      vsize
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private async scan(prefix: string): Promise<string[]> {
+    const pattern = `${escapeGlob(this.namespace + prefix)}*`;
+    const found = new Set<string>();
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 250);
+      batch.forEach((key) => found.add(key));
+      cursor = next;
+    } while (cursor !== '0');
+
+    return [...found];
+  }
+}
@@ -0,0 +1,167 @@
+import WebSocket from 'ws';
+import { ChatSocketClientFrame, ChatSocketServerFrame, ChatStreamEvent } from '../types';
+import { ValidationError } from './errorHandler';
+import { ResumableStream, formatEventId } from './streamRegistry';
+
+// Turns a single socket may run at once; further chat.send frames are rejected until one ends
+const MAX_TURNS_PER_SOCKET = 4;
+
+/**
+ * Parse and validate a frame received on /chat/ws
+ * Message content is validated by the turn itself, like the body of POST /chat/stream.
+ */
+export function parseClientFrame(data: string): ChatSocketClientFrame {
+  let frame: Record<string, unknown>;
+  try {
+    frame = JSON.parse(data);
+  } catch {
+    throw new ValidationError('Frame must be a JSON object');
+  }
+  if (!frame || typeof frame !== 'object' || Array.isArray(frame)) {
+    throw new ValidationError('Frame must be a JSON object');
+  }
+  if (typeof frame.id !== 'string' || frame.id.length === 0 || frame.id.length > 100) {
+    throw new ValidationError('Frame id must be a non-empty string of at most 100 characters');
+  }
+
+  switch (frame.type) {
+    case 'chat.send':
+      if (typeof frame.sessionToken !== 'string' || frame.sessionToken.length === 0) {
+        throw new ValidationError('chat.send requires a sessionToken (see POST /session)', { id: frame.id });
+      }
+      return frame as unknown as ChatSocketClientFrame;
+    case 'chat.cancel':
+      return { type: 'chat.cancel', id: frame.id };
+    default:
+      throw new ValidationError(`Unknown frame type: ${String(frame.type)}`, { id: frame.id });
+  }
+}
+
+/**
+ * A turn of one socket, reserved when its chat.send frame arrives and given its run once the frame is authenticated
+ */
+interface SocketTurn {
+  run?: ResumableStream<ChatStreamEvent>;
+  detach: () => void;
+  cancelled: boolean;
+}
+
+/**
+ * One /chat/ws client: forwards the events of its turns as chat.event frames
+ * - turns are resumable streams, so like SSE a dropped socket only detaches; the turn runs on for the resume grace period
+ * - cancellation is an explicit chat.cancel frame, never inferred from the connection; it also stops a turn still being authenticated
+ * - pings every heartbeatMs keep proxies from dropping an idle socket; a client that misses a pong is terminated
+ */
+class ChatSocketConnection {
+  private socket: WebSocket;
+  private turns = new Map<string, SocketTurn>();
+  private heartbeat?: NodeJS.Timeout;
+  private alive = true;
+
+  constructor(socket: WebSocket, heartbeatMs: number = 0) {
+    this.socket = socket;
+
+    if (heartbeatMs > 0) {
+      socket.on('pong', () => {
+        this.alive = true;
+      });
+      this.heartbeat = setInterval(() => {
+        if (!this.alive) {
+          socket.terminate();
+          return;
+        }
+        this.alive = false;
+        socket.ping();
+      }, heartbeatMs);
+    }
+
+    socket.on('close', () => {
+      clearInterval(this.heartbeat);
+      this.turns.forEach((turn) => turn.detach());
+      this.turns.clear();
+    });
+  }
+
+  get closed(): boolean {
+    return this.socket.readyState !== WebSocket.OPEN;
+  }
+
+  /**
+   * Reserve an id for a turn before authenticating its chat.send frame
+   * Call release if the frame is rejected, attach once its run is created.
+   *
+   * @returns false when a turn with this id exists or too many turns are running on this socket
+   */
+  reserve(id: string): boolean {
+    if (this.turns.has(id) || this.turns.size >= MAX_TURNS_PER_SOCKET) {
+      return false;
+    }
+    this.turns.set(id, { detach: () => {}, cancelled: false });
+    return true;
+  }
+
+  /**
+   * Drop the reservation of a turn that was rejected before it started
+   */
+  release(id: string): void {
+    if (!this.turns.get(id)?.run) {
+      this.turns.delete(id);
+    }
+  }
+
+  /**
+   * Send a frame; frames for a client that has gone away are dropped
+   */
+  send(frame: ChatSocketServerFrame): void {
+    if (!this.closed) {
+      this.socket.send(JSON.stringify(frame));
+    }
+  }
+
+  /**
+   * Forward a turn's events to this socket under the client's id until the turn finishes
+   *
+   * @returns false when the turn was cancelled (or the socket closed) while it was being authenticated; the run is cancelled
+   */
+  attach(id: string, run: ResumableStream<ChatStreamEvent>): boolean {
+    const turn = this.turns.get(id);
+    if (!turn || turn.cancelled) {
+      this.turns.delete(id);
+      run.cancel();
+      this.send({ type: 'chat.end', id });
+      return false;
+    }
+
+    this.send({ type: 'chat.started', id, streamId: run.id });
+    turn.run = run;
+    turn.detach = run.attach(0, {
+      onEvent: ({ seq, event }) => this.send({ type: 'chat.event', id, eventId: formatEventId(run.id, seq), event }),
+      onEnd: () => {
+        this.turns.delete(id);
+        this.send({ type: 'chat.end', id });
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Cancel one of this socket's turns (chat.cancel)
+   *
+   * @returns false when no such turn is running or being authenticated
+   */
+  cancel(id: string): boolean {
+    const turn = this.turns.get(id);
+    if (!turn) {
+      return false;
+    }
+    if (turn.run) {
+      turn.run.cancel();
+    } else {
+      turn.cancelled = true;
+    }
+    return true;
+  }
+}
+
+// Export class for testing
+export { ChatSocketConnection };
@@ -0,0 +1,181 @@
+import { upstreamConfig } from '../config/environment';
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  resetTimeoutMs: number; // Time the circuit stays open before a trial request is let through
+}
+
+// The BotDojo flow a circuit protects; initData callers pick these, so all of them are part of the key
+export interface CircuitTarget {
+  baseUrl: string;
+  accountId: string;
+  projectId: string;
+  flowId: string;
+}
+
+// Circuits per state, for the public /health endpoint
+export interface CircuitSummary {
+  total: number;
+  closed: number;
+  open: number;
+  half_open: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastFailure: string | null;
+}
+
+/**
+ * Circuit breaker for one upstream dependency (a BotDojo flow)
+ * - closed: requests pass; consecutive failures are counted
+ * - open: requests are rejected immediately until resetTimeoutMs has passed
+ * - half_open: a single trial request is let through; success closes the circuit, failure re-opens it
+ */
+class CircuitBreaker {
+  readonly name: string;
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastFailure: string | null = null;
+
+  constructor(name: string, config: CircuitBreakerConfig) {
+    this.name = name;
+    this.config = config;
+  }
+
+  /**
+   * Whether a request may be sent now (claims the trial slot when half-open)
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.config.resetTimeoutMs) {
+        return false;
+      }
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit closed', { circuit: this.name });
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn('Circuit opened', { circuit: this.name, consecutiveFailures: this.consecutiveFailures, reason });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Release a claimed slot without counting a result (e.g. the client cancelled)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    // Report an expired open circuit as half-open, which is what the next request will see
+    const state = this.state === 'open' && Date.now() - this.openedAt >= this.config.resetTimeoutMs
+      ? 'half_open'
+      : this.state;
+
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      lastFailure: this.lastFailure
+    };
+  }
+}
+
+/**
+ * One circuit breaker per BotDojo flow (base URL, account, project and flow id), shared by every request to that flow
+ * Holds at most maxCircuits breakers; the least recently used one is dropped to make room for a new flow.
+ */
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private config: CircuitBreakerConfig;
+  private maxCircuits: number;
+
+  constructor(config: CircuitBreakerConfig, maxCircuits: number = 1000) {
+    this.config = config;
+    this.maxCircuits = maxCircuits;
+  }
+
+  get(target: CircuitTarget): CircuitBreaker {
+    // JSON array encoding keeps field boundaries unambiguous
+    const key = JSON.stringify([target.baseUrl, target.accountId, target.projectId, target.flowId]);
+    let breaker = this.breakers.get(key);
+    if (breaker) {
+      // Map order is insertion order: re-inserting keeps the most recently used breakers last
+      this.breakers.delete(key);
+    } else {
+      breaker = new CircuitBreaker(`${target.baseUrl} ${target.accountId}/${target.projectId}/${target.flowId}`, this.config);
+      if (this.breakers.size >= this.maxCircuits) {
+        this.breakers.delete(this.breakers.keys().next().value as string);
+      }
+    }
+    this.breakers.set(key, breaker);
+    return breaker;
+  }
+
+  /**
+   * Number of circuits in each state, without naming them (for /health)
+   */
+  summary(): CircuitSummary {
+    const summary: CircuitSummary = { total: 0, closed: 0, open: 0, half_open: 0 };
+    for (const breaker of this.breakers.values()) {
+      summary.total++;
+      summary[breaker.snapshot().state]++;
+    }
+    return summary;
+  }
+
+  /**
+   * State of every circuit, with the flows and failures they name (for /admin/circuits)
+   */
+  snapshot(): CircuitBreakerSnapshot[] {
+    return [...this.breakers.values()].map((breaker) => breaker.snapshot());
+  }
+}
+
+// Create singleton instance
+export const circuitBreakers = new CircuitBreakerRegistry({
+  failureThreshold: upstreamConfig.breakerFailureThreshold,
+  resetTimeoutMs: upstreamConfig.breakerResetTimeoutMs
+}, upstreamConfig.breakerMaxCircuits);
+
+// Export classes for testing
+export { CircuitBreaker, CircuitBreakerRegistry };
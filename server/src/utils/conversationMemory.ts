@@ -0,0 +1,173 @@
+import NodeCache from 'node-cache';
+import { conversationMemoryConfig, ConversationMemoryConfig } from '../config/environment';
+import { ConversationTurn } from '../types';
+import { tenantKeyPrefix } from './cacheManager';
+import type { ConversationOwner } from './conversationStore';
+import { logger } from './logger';
+
+/**
+ * Who a conversation's history belongs to: the tenant (or BotDojo account for initData callers) and the session subject
+ */
+export interface ConversationMemoryScope {
+  tenantId?: string;
+  accountId: string;
+  subject?: string; // sub claim of the request's token or session; unset for anonymous callers
+}
+
+/**
+ * Server-held conversation history keyed by tenant, session subject and conversation id.
+ * Lets follow-up questions ("what about for kids?") be answered with the
+ * context of previous turns without trusting the client to replay them,
+ * and without another caller reading them by guessing a conversation id.
+ */
+class ConversationMemory {
+  private store: NodeCache;
+  private config: ConversationMemoryConfig;
+
+  constructor(config: ConversationMemoryConfig = {
+    historyWindow: 10,
+    ttl: 1800, // 30 minutes
+    maxConversations: 5000,
+    maxTurnLength: 2000
+  }) {
+    this.config = config;
+    this.store = new NodeCache({
+      stdTTL: config.ttl,
+      checkperiod: 120,
+      useClones: false,
+      maxKeys: config.maxConversations
+    });
+  }
+
+  get historyWindow(): number {
+    return this.config.historyWindow;
+  }
+
+  /**
+   * Get the most recent turns for a conversation, limited to the history window
+   */
+  getHistory(scope: ConversationMemoryScope, conversationId: string): ConversationTurn[] {
+    const turns = this.store.get<ConversationTurn[]>(this.getKey(scope, conversationId));
+    return turns ? this.trimToWindow(turns) : [];
+  }
+
+  /**
+   * Resolve the history to forward upstream: server-held turns win, client-supplied
+   * turns are only used when the server has no record (e.g. after a restart)
+   */
+  resolveHistory(scope: ConversationMemoryScope, conversationId: string | undefined, clientHistory?: ConversationTurn[]): ConversationTurn[] {
+    if (conversationId) {
+      const serverHistory = this.getHistory(scope, conversationId);
+      if (serverHistory.length > 0) {
+        return serverHistory;
+      }
+    }
+    return this.trimToWindow(this.normalizeTurns(clientHistory));
+  }
+
+  /**
+   * Keep the client-supplied turns that can be forwarded: well-formed ones within the history window
+   * Content is left as sent, so it can be redacted in full before resolveHistory truncates it.
+   */
+  selectClientHistory(clientHistory?: ConversationTurn[]): ConversationTurn[] {
+    return this.trimToWindow(this.filterTurns(clientHistory));
+  }
+
+  /**
+   * Append a completed user/assistant exchange to a conversation
+   */
+  appendExchange(scope: ConversationMemoryScope, conversationId: string, userMessage: string, assistantMessage: string, priorHistory?: ConversationTurn[]): void {
+    const key = this.getKey(scope, conversationId);
+    const existing = this.store.get<ConversationTurn[]>(key) ?? priorHistory ?? [];
+    const turns: ConversationTurn[] = [
+      ...existing,
+      { role: 'user', content: this.truncate(userMessage) },
+      { role: 'assistant', content: this.truncate(assistantMessage) }
+    ];
+
+    try {
+      // Keep a little more than the window so trimming never cuts an exchange in half
+      this.store.set(key, turns.slice(-this.config.historyWindow * 2));
+    } catch {
+      // NodeCache throws when maxKeys is reached; history is best-effort
+      logger.warn('Conversation memory full, dropping history', { conversationId, size: this.size() });
+    }
+  }
+
+  /**
+   * Forget a conversation
+   */
+  clear(scope: ConversationMemoryScope, conversationId: string): boolean {
+    return this.store.del(this.getKey(scope, conversationId)) > 0;
+  }
+
+  /**
+   * Forget a practitioner's conversation, for callers that know the owner but not the BotDojo account
+   * Without a tenant id this covers the practitioner's conversation under any account.
+   */
+  clearOwned(owner: ConversationOwner, conversationId: string): boolean {
+    const suffix = this.getSubjectKey(owner.practitionerId, conversationId);
+    const prefix = owner.tenantId ? tenantKeyPrefix({ tenantId: owner.tenantId, accountId: '' }) : 'account=';
+    const keys = this.store.keys().filter((key) => key.startsWith(prefix) && key.endsWith(suffix));
+    return this.store.del(keys) > 0;
+  }
+
+  /**
+   * Number of conversations currently held
+   */
+  size(): number {
+    return this.store.keys().length;
+  }
+
+  /**
+   * Close memory store and cleanup
+   */
+  close(): void {
+    this.store.close();
+  }
+
+  // Key format: <tenant prefix>sub=<subject>:<conversation id>
+  private getKey(scope: ConversationMemoryScope, conversationId: string): string {
+    return `${tenantKeyPrefix(scope)}${this.getSubjectKey(scope.subject, conversationId)}`;
+  }
+
+  private getSubjectKey(subject: string | undefined, conversationId: string): string {
+    return `sub=${encodeURIComponent(subject ?? '')}:${encodeURIComponent(conversationId)}`;
+  }
+
+  private trimToWindow(turns: ConversationTurn[]): ConversationTurn[] {
+    if (this.config.historyWindow <= 0) {
+      return [];
+    }
+    return turns.slice(-this.config.historyWindow);
+  }
+
+  private normalizeTurns(turns?: ConversationTurn[]): ConversationTurn[] {
+    return this.filterTurns(turns)
+      .map((turn) => ({ role: turn.role, content: this.truncate(turn.content.replace(/[<>]/g, '').trim()) }));
+  }
+
+  private filterTurns(turns?: ConversationTurn[]): ConversationTurn[] {
+    if (!Array.isArray(turns)) {
+      return [];
+    }
+    return turns.filter((turn) =>
+      turn &&
+      (turn.role === 'user' || turn.role === 'assistant') &&
+      typeof turn.content === 'string' &&
+      turn.content.trim().length > 0
+    );
+  }
+
+  private truncate(content: string): string {
+    return content.length > this.config.maxTurnLength
+      ? content.substring(0, this.config.maxTurnLength)
+      : content;
+  }
+}
+
+// Create singleton instance
+export const conversationMemory = new ConversationMemory(conversationMemoryConfig);
+
+// Export class for testing
+export { ConversationMemory };
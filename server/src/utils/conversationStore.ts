@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { conversationStoreConfig, ConversationStoreConfig } from '../config/environment';
+import { ConversationSummary, StoredConversation, StoredMessage } from '../types';
+import type { AuthContext } from './auth';
+import { logger } from './logger';
+
+/**
+ * Whose conversations a request may see: one practitioner (the token's sub claim) of one tenant
+ */
+export interface ConversationOwner {
+  tenantId?: string; // Unset for host tokens without a tid claim
+  practitionerId: string;
+}
+
+/**
+ * The practitioner a request was authenticated for; undefined when its token named nobody (no sub claim)
+ */
+export function getConversationOwner(auth: AuthContext | undefined): ConversationOwner | undefined {
+  return auth?.subject ? { tenantId: auth.tenantId, practitionerId: auth.subject } : undefined;
+}
+
+export interface ListConversationsOptions {
+  limit: number;
+  before?: number; // Only conversations last updated before this time (ms since epoch), for paging
+}
+
+/**
+ * Storage backend for persisted conversations
+ * Implement this for another database; every method is scoped to an owner, so one practitioner
+ * can never read or delete another's conversations.
+ */
+export interface ConversationRepository {
+  readonly backend: string;
+  /** Add messages to a conversation, creating it (titled after its first message) if needed */
+  appendMessages(owner: ConversationOwner, conversationId: string, messages: StoredMessage[]): Promise<void>;
+  /** Conversations, most recently updated first */
+  list(owner: ConversationOwner, options: ListConversationsOptions): Promise<ConversationSummary[]>;
+  get(owner: ConversationOwner, conversationId: string): Promise<StoredConversation | undefined>;
+  delete(owner: ConversationOwner, conversationId: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+// Longest conversation title, taken from the first message
+const TITLE_LENGTH = 80;
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+}
+
+interface MessageRow {
+  role: StoredMessage['role'];
+  text: string;
+  data: string;
+  created_at: number;
+}
+
+function toSummary(row: ConversationRow): ConversationSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    messageCount: row.message_count
+  };
+}
+
+/**
+ * SQLite conversation store (default)
+ * Messages keep their text in a column and everything else (suggested questions, products, timings) as JSON,
+ * so new message fields don't need a migration.
+ */
+export class SqliteConversationRepository implements ConversationRepository {
+  readonly backend = 'sqlite';
+  private db: Database.Database;
+
+  /**
+   * @param filePath - Database file (created with its directory if missing), or ":memory:"
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        tenant_id TEXT NOT NULL,
+        practitioner_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (tenant_id, practitioner_id, id)
+      );
+      CREATE INDEX IF NOT EXISTS conversations_by_update ON conversations (tenant_id, practitioner_id, updated_at);
+      CREATE TABLE IF NOT EXISTS messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        tenant_id TEXT NOT NULL,
+        practitioner_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        text TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (tenant_id, practitioner_id, conversation_id)
+          REFERENCES conversations (tenant_id, practitioner_id, id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS messages_by_conversation ON messages (tenant_id, practitioner_id, conversation_id, seq);
+    `);
+  }
+
+  async appendMessages(owner: ConversationOwner, conversationId: string, messages: StoredMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+    const keys = [owner.tenantId ?? '', owner.practitionerId, conversationId];
+    const now = Date.now();
+    const title = messages[0].text.replace(/\s+/g, ' ').trim().slice(0, TITLE_LENGTH);
+
+    const upsert = this.db.prepare(`
+      INSERT INTO conversations (tenant_id, practitioner_id, id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tenant_id, practitioner_id, id) DO UPDATE SET updated_at = excluded.updated_at
+    `);
+    const insert = this.db.prepare(`
+      INSERT INTO messages (tenant_id, practitioner_id, conversation_id, role, text, data, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      upsert.run(...keys, title, now, now);
+      for (const { role, text, createdAt, ...data } of messages) {
+        insert.run(...keys, role, text, JSON.stringify(data), Date.parse(createdAt) || now);
+      }
+    })();
+  }
+
+  async list(owner: ConversationOwner, options: ListConversationsOptions): Promise<ConversationSummary[]> {
+    const rows = this.db.prepare(`
+      SELECT c.id, c.title, c.created_at, c.updated_at,
+        (SELECT COUNT(*) FROM messages m
+          WHERE m.tenant_id = c.tenant_id AND m.practitioner_id = c.practitioner_id AND m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      WHERE c.tenant_id = ? AND c.practitioner_id = ? AND c.updated_at < ?
+      ORDER BY c.updated_at DESC
+      LIMIT ?
+    `).all(owner.tenantId ?? '', owner.practitionerId, options.before ?? Number.MAX_SAFE_INTEGER, options.limit) as ConversationRow[];
+    return rows.map(toSummary);
+  }
+
+  async get(owner: ConversationOwner, conversationId: string): Promise<StoredConversation | undefined> {
+    const keys = [owner.tenantId ?? '', owner.practitionerId, conversationId];
+    const messages = this.db.prepare(`
+      SELECT role, text, data, created_at FROM messages
+      WHERE tenant_id = ? AND practitioner_id = ? AND conversation_id = ?
+      ORDER BY seq
+    `).all(...keys) as MessageRow[];
+    const conversation = this.db.prepare(`
+      SELECT id, title, created_at, updated_at FROM conversations WHERE tenant_id = ? AND practitioner_id = ? AND id = ?
+    `).get(...keys) as Omit<ConversationRow, 'message_count'> | undefined;
+    if (!conversation) {
+      return undefined;
+    }
+
+    return {
+      ...toSummary({ ...conversation, message_count: messages.length }),
+      messages: messages.map((row) => ({
+        role: row.role,
+        text: row.text,
+        createdAt: new Date(row.created_at).toISOString(),
+        ...JSON.parse(row.data)
+      }))
+    };
+  }
+
+  async delete(owner: ConversationOwner, conversationId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM conversations WHERE tenant_id = ? AND practitioner_id = ? AND id = ?')
+      .run(owner.tenantId ?? '', owner.practitionerId, conversationId);
+    return result.changes > 0;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+/**
+ * Create the conversation store selected by configuration, or null when persistence is off
+ */
+export function createConversationRepository(config: ConversationStoreConfig = conversationStoreConfig): ConversationRepository | null {
+  if (config.backend === 'none') {
+    return null;
+  }
+  const repository = new SqliteConversationRepository(config.dbFile);
+  logger.info('Conversation store opened', { backend: repository.backend, file: config.dbFile });
+  return repository;
+}
+
+// Create singleton instance
+export const conversationStore = createConversationRepository();
@@ -1,197 +1,358 @@
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { encryptionConfig, EncryptionConfig } from '../config/environment';
+import { logger } from './logger';
 
 /**
  * RSA Encryption Utilities for Backend
- * 
+ *
  * This module handles:
- * - RSA key pair generation (2048-bit)
- * - Public key exposure
- * - Data decryption using private key
+ * - Loading RSA key pairs from a keystore (directory or env), keyed by key id (kid)
+ * - Public key exposure for the current key
+ * - Data decryption with any active key, so keys can be rotated without breaking clients
+ *
+ * Ciphertext formats:
+ * - "hybrid:<kid>:<base64>" / "rsa:<kid>:<base64>" (current, key id embedded)
+ * - "hybrid:<base64>" / "<base64>" (legacy, no key id - every active key is tried)
  */
 
-// RSA key pair (generated at module load)
-let privateKey: string;
-let publicKey: string;
+interface RsaKeyEntry {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicKeyPem: string;
+  keySize: number; // Modulus length in bits
+}
+
+// Active keys by kid, and the kid advertised to clients
+let keyStore = new Map<string, RsaKeyEntry>();
+let currentKeyId: string | null = null;
+
+/**
+ * Build a keystore entry from a PEM private key
+ */
+function createKeyEntry(kid: string, privateKeyPem: string): RsaKeyEntry {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+  if (privateKey.asymmetricKeyType !== 'rsa') {
+    throw new Error(`Encryption key "${kid}" is not an RSA private key`);
+  }
+
+  const publicKeyPem = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+
+  return {
+    kid,
+    privateKey,
+    publicKeyPem,
+    keySize: privateKey.asymmetricKeyDetails?.modulusLength ?? 4096
+  };
+}
 
 /**
- * Generate RSA key pair (4096-bit)
- * Called automatically when module loads
- * 
+ * Generate an ephemeral RSA key pair (4096-bit)
+ * Only used when no keystore is configured - keys change on every restart
+ * and differ between containers, so this is for local development only.
+ *
  * Key specifications:
  * - Modulus length: 4096 bits (allows larger data encryption, ~470 bytes max)
  * - Public key format: SPKI (SubjectPublicKeyInfo) in PEM
  * - Private key format: PKCS8 in PEM
  */
-function generateRSAKeyPair(): void {
+function generateEphemeralKeyEntry(): RsaKeyEntry {
   try {
-    const { publicKey: pubKey, privateKey: privKey } = crypto.generateKeyPairSync('rsa', {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', {
       modulusLength: 4096, // 4096-bit key (allows ~470 bytes of data with RSA-OAEP)
       publicKeyEncoding: {
-        type: 'spki', // Standard format for public keys
-        format: 'pem' // PEM format (text-based, easy to transmit)
+        type: 'spki',
+        format: 'pem'
       },
       privateKeyEncoding: {
-        type: 'pkcs8', // Standard format for private keys
-        format: 'pem' // PEM format
+        type: 'pkcs8',
+        format: 'pem'
       }
     });
-    
-    privateKey = privKey;
-    publicKey = pubKey;
+
+    const entry = createKeyEntry('ephemeral', privateKey);
+    // Fingerprint-based kid so clients notice a restart as a key change
+    entry.kid = `ephemeral-${crypto.createHash('sha256').update(entry.publicKeyPem).digest('hex').substring(0, 12)}`;
+    return entry;
   } catch (error) {
     throw new Error(`Failed to generate RSA key pair: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-// Generate keys when module loads
-generateRSAKeyPair();
+/**
+ * Read PEM private keys from the configured sources
+ * @returns Map of kid -> PEM private key
+ */
+function readConfiguredKeys(config: EncryptionConfig): Map<string, string> {
+  const keys = new Map<string, string>();
+
+  if (config.keysDir) {
+    const files = fs.readdirSync(config.keysDir).filter((file) => file.endsWith('.pem'));
+    for (const file of files) {
+      keys.set(path.basename(file, '.pem'), fs.readFileSync(path.join(config.keysDir, file), 'utf8'));
+    }
+  }
+
+  if (config.keysJson) {
+    let parsed: Record<string, string>;
+    try {
+      parsed = JSON.parse(config.keysJson);
+    } catch {
+      throw new Error('ENCRYPTION_KEYS must be a JSON object of key id to PEM private key');
+    }
+    for (const [kid, pem] of Object.entries(parsed)) {
+      // Env values commonly carry escaped newlines
+      keys.set(kid, pem.replace(/\\n/g, '\n'));
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Load (or reload) the keystore
+ * Called automatically when module loads; call again after adding a key to rotate without restart
+ *
+ * @param config - Keystore configuration (defaults to environment)
+ */
+export function loadKeyStore(config: EncryptionConfig = encryptionConfig): void {
+  const configuredKeys = readConfiguredKeys(config);
+  const nextStore = new Map<string, RsaKeyEntry>();
+
+  for (const [kid, pem] of configuredKeys) {
+    if (kid.includes(':')) {
+      throw new Error(`Invalid encryption key id "${kid}": key ids cannot contain ":"`);
+    }
+    try {
+      nextStore.set(kid, createKeyEntry(kid, pem));
+    } catch (error) {
+      throw new Error(`Failed to load encryption key "${kid}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (nextStore.size === 0) {
+    const ephemeral = generateEphemeralKeyEntry();
+    nextStore.set(ephemeral.kid, ephemeral);
+    logger.warn('No encryption keystore configured, using an ephemeral RSA key pair', {
+      kid: ephemeral.kid,
+      hint: 'Set ENCRYPTION_KEYS_DIR or ENCRYPTION_KEYS so keys survive restarts and are shared between instances'
+    });
+  }
+
+  const nextKeyId = config.activeKeyId || [...nextStore.keys()].sort().pop()!;
+  if (!nextStore.has(nextKeyId)) {
+    throw new Error(`Active encryption key "${nextKeyId}" is not present in the keystore`);
+  }
+
+  keyStore = nextStore;
+  currentKeyId = nextKeyId;
+
+  logger.info('Encryption keystore loaded', { currentKeyId, keyIds: [...keyStore.keys()] });
+}
+
+// Load keys when module loads
+loadKeyStore();
+
+/**
+ * Get the current key entry
+ */
+function getCurrentKey(): RsaKeyEntry {
+  const entry = currentKeyId ? keyStore.get(currentKeyId) : undefined;
+  if (!entry) {
+    throw new Error('Encryption keys not initialized. Keystore loading may have failed.');
+  }
+  return entry;
+}
 
 /**
  * Get the public key in PEM format
  * Safe to expose publicly - it can only encrypt, never decrypt
- * 
- * @returns Public key in PEM format
+ *
+ * @returns Public key of the current key in PEM format
  */
 export function getPublicKey(): string {
-  if (!publicKey) {
-    throw new Error('Public key not initialized. Key generation may have failed.');
+  return getCurrentKey().publicKeyPem;
+}
+
+/**
+ * Get the id of the key clients should encrypt with
+ *
+ * @returns Current key id
+ */
+export function getCurrentKeyId(): string {
+  return getCurrentKey().kid;
+}
+
+/**
+ * Split ciphertext into its scheme, optional key id and base64 payload
+ */
+function parseCiphertext(encrypted: string): { scheme: 'hybrid' | 'rsa'; kid?: string; payload: string } {
+  let scheme: 'hybrid' | 'rsa' = 'rsa';
+  let rest = encrypted;
+
+  if (rest.startsWith('hybrid:')) {
+    scheme = 'hybrid';
+    rest = rest.substring(7);
+  } else if (rest.startsWith('rsa:')) {
+    rest = rest.substring(4);
+  }
+
+  // Base64 never contains ":", so a separator means a key id is embedded
+  const separatorIndex = rest.indexOf(':');
+  if (separatorIndex !== -1) {
+    return { scheme, kid: rest.substring(0, separatorIndex), payload: rest.substring(separatorIndex + 1) };
   }
-  return publicKey;
+
+  return { scheme, payload: rest };
 }
 
 /**
- * Decrypt data that was encrypted with the public key
- * Supports both direct RSA encryption and hybrid encryption (AES-GCM + RSA)
- * 
- * @param encryptedBase64 - Base64-encoded encrypted data (may have "hybrid:" prefix)
- * @returns Decrypted string (typically JSON)
- * @throws Error if decryption fails
+ * Decrypt a payload with a single key
  */
-export function decryptData(encryptedBase64: string): string {
-  if (!privateKey) {
-    throw new Error('Private key not initialized. Key generation may have failed.');
+function decryptWithKey(entry: RsaKeyEntry, scheme: 'hybrid' | 'rsa', payload: string): string {
+  const rsaOptions = {
+    key: entry.privateKey,
+    padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, // OAEP padding (more secure than PKCS1v1.5)
+    oaepHash: 'sha256' // SHA-256 hash (matches frontend)
+  };
+
+  if (scheme === 'hybrid') {
+    // Hybrid encryption: AES-GCM + RSA
+    const combinedBuffer = Buffer.from(payload, 'base64');
+
+    // Extract components
+    // RSA-encrypted AES key: modulus length in bytes (512 bytes for 4096-bit RSA)
+    const encryptedAesKeyLength = entry.keySize / 8;
+    const encryptedAesKey = combinedBuffer.subarray(0, encryptedAesKeyLength);
+
+    // IV: 12 bytes
+    const ivLength = 12;
+    const iv = combinedBuffer.subarray(encryptedAesKeyLength, encryptedAesKeyLength + ivLength);
+
+    // Encrypted data: rest
+    const encryptedData = combinedBuffer.subarray(encryptedAesKeyLength + ivLength);
+
+    // 1. Decrypt AES key with RSA
+    const aesKeyBuffer = crypto.privateDecrypt(rsaOptions, encryptedAesKey);
+
+    // 2. Decrypt data with AES-GCM
+    const decipher = crypto.createDecipheriv('aes-256-gcm', aesKeyBuffer, iv);
+
+    // Extract authentication tag (last 16 bytes of encrypted data)
+    const tagLength = 16;
+    const tag = encryptedData.subarray(encryptedData.length - tagLength);
+    const ciphertext = encryptedData.subarray(0, encryptedData.length - tagLength);
+
+    decipher.setAuthTag(tag);
+
+    let decrypted = decipher.update(ciphertext, undefined, 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
   }
 
+  // Direct RSA encryption
+  const decrypted = crypto.privateDecrypt(rsaOptions, Buffer.from(payload, 'base64'));
+  return decrypted.toString('utf8');
+}
+
+/**
+ * Decrypt data that was encrypted with one of the active public keys
+ * Supports both direct RSA encryption and hybrid encryption (AES-GCM + RSA),
+ * with or without an embedded key id
+ *
+ * @param encryptedBase64 - Encrypted data (see module docs for formats)
+ * @returns Decrypted string (typically JSON)
+ * @throws Error if decryption fails or the key id is unknown
+ */
+export function decryptData(encryptedBase64: string): string {
   if (!encryptedBase64 || typeof encryptedBase64 !== 'string') {
     throw new Error('Invalid encrypted data: must be a non-empty string');
   }
 
-  try {
-    // Check if it's hybrid encryption
-    if (encryptedBase64.startsWith('hybrid:')) {
-      // Hybrid encryption: AES-GCM + RSA
-      const combinedBase64 = encryptedBase64.substring(7); // Remove "hybrid:" prefix
-      const combinedBuffer = Buffer.from(combinedBase64, 'base64');
-      
-      // Extract components
-      // RSA-encrypted AES key: 512 bytes (4096-bit RSA output)
-      const encryptedAesKeyLength = 512;
-      const encryptedAesKey = combinedBuffer.subarray(0, encryptedAesKeyLength);
-      
-      // IV: 12 bytes
-      const ivLength = 12;
-      const iv = combinedBuffer.subarray(encryptedAesKeyLength, encryptedAesKeyLength + ivLength);
-      
-      // Encrypted data: rest
-      const encryptedData = combinedBuffer.subarray(encryptedAesKeyLength + ivLength);
-      
-      // 1. Decrypt AES key with RSA
-      const aesKeyBuffer = crypto.privateDecrypt(
-        {
-          key: privateKey,
-          padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-          oaepHash: 'sha256'
-        },
-        encryptedAesKey
-      );
-      
-      // 2. Decrypt data with AES-GCM
-      const decipher = crypto.createDecipheriv('aes-256-gcm', aesKeyBuffer, iv);
-      
-      // Extract authentication tag (last 16 bytes of encrypted data)
-      const tagLength = 16;
-      const tag = encryptedData.subarray(encryptedData.length - tagLength);
-      const ciphertext = encryptedData.subarray(0, encryptedData.length - tagLength);
-      
-      decipher.setAuthTag(tag);
-      
-      let decrypted = decipher.update(ciphertext, undefined, 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
-    } else {
-      // Direct RSA encryption (backward compatible)
-      const encryptedBuffer = Buffer.from(encryptedBase64, 'base64');
-      
-      // Decrypt using private key with RSA-OAEP padding
-      const decrypted = crypto.privateDecrypt(
-        {
-          key: privateKey,
-          padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, // OAEP padding (more secure than PKCS1v1.5)
-          oaepHash: 'sha256' // SHA-256 hash (matches frontend)
-        },
-        encryptedBuffer
-      );
-
-      // Return as UTF-8 string
-      return decrypted.toString('utf8');
+  const { scheme, kid, payload } = parseCiphertext(encryptedBase64);
+
+  let candidates: RsaKeyEntry[];
+  if (kid) {
+    const entry = keyStore.get(kid);
+    if (!entry) {
+      throw new Error(`Decryption failed: Unknown encryption key id "${kid}". Fetch the current public key and retry.`);
     }
-  } catch (error) {
-    // Provide helpful error messages
-    if (error instanceof Error) {
-      if (error.message.includes('bad decrypt')) {
-        throw new Error('Decryption failed: Invalid encrypted data or wrong key');
-      }
-      if (error.message.includes('too large')) {
-        throw new Error('Decryption failed: Encrypted data is too large for RSA key size');
-      }
-      throw new Error(`Decryption failed: ${error.message}`);
+    candidates = [entry];
+  } else {
+    // Legacy ciphertext: try the current key first, then any other active key
+    const current = getCurrentKey();
+    candidates = [current, ...[...keyStore.values()].filter((entry) => entry.kid !== current.kid)];
+  }
+
+  let lastError: unknown;
+  for (const entry of candidates) {
+    try {
+      return decryptWithKey(entry, scheme, payload);
+    } catch (error) {
+      lastError = error;
     }
-    throw new Error('Decryption failed: Unknown error');
   }
+
+  // Provide helpful error messages
+  if (lastError instanceof Error) {
+    if (lastError.message.includes('bad decrypt') || lastError.message.includes('oaep decoding error')) {
+      throw new Error('Decryption failed: Invalid encrypted data or wrong key');
+    }
+    if (lastError.message.includes('too large')) {
+      throw new Error('Decryption failed: Encrypted data is too large for RSA key size');
+    }
+    throw new Error(`Decryption failed: ${lastError.message}`);
+  }
+  throw new Error('Decryption failed: Unknown error');
 }
 
 /**
- * Check if a string appears to be base64-encoded encrypted data
+ * Check if a string appears to be encrypted data
  * Simple heuristic to distinguish encrypted data from plain JSON
- * 
+ *
  * @param data - String to check
- * @returns true if data appears to be encrypted (base64, long enough)
+ * @returns true if data appears to be encrypted
  */
 export function isEncryptedData(data: string): boolean {
   if (!data || typeof data !== 'string') {
     return false;
   }
-  
-  // Check for hybrid encryption prefix
-  if (data.startsWith('hybrid:')) {
+
+  // Check for scheme prefixes
+  if (data.startsWith('hybrid:') || data.startsWith('rsa:')) {
     return true;
   }
-  
+
   // Base64 strings are typically longer and match base64 pattern
   // Encrypted RSA data with 4096-bit key produces ~684 character base64 strings
   const base64Pattern = /^[A-Za-z0-9+/=]+$/;
   const minEncryptedLength = 200; // Minimum expected length for encrypted data
-  
+
   return data.length >= minEncryptedLength && base64Pattern.test(data);
 }
 
 /**
  * Get key information (for debugging/monitoring)
- * 
+ *
  * @returns Object with key metadata
  */
 export function getKeyInfo(): {
   keySize: number;
   algorithm: string;
+  currentKeyId: string | null;
+  keyIds: string[];
   publicKeyAvailable: boolean;
   privateKeyAvailable: boolean;
 } {
+  const current = currentKeyId ? keyStore.get(currentKeyId) : undefined;
   return {
-    keySize: 4096,
+    keySize: current?.keySize ?? 4096,
     algorithm: 'RSA-OAEP',
-    publicKeyAvailable: !!publicKey,
-    privateKeyAvailable: !!privateKey
+    currentKeyId,
+    keyIds: [...keyStore.keys()],
+    publicKeyAvailable: !!current,
+    privateKeyAvailable: !!current
   };
 }
-
@@ -31,16 +31,32 @@ export class BotDojoError extends AppError {
 }
 
 export class RateLimitError extends AppError {
-  constructor(message: string = 'Too many requests', context?: any) {
+  public readonly retryAfterSeconds?: number; // Sent as the Retry-After header
+
+  constructor(message: string = 'Too many requests', context?: any, retryAfterSeconds?: number) {
     super(message, 429, true, context);
     this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
   }
 }
 
 export class AuthenticationError extends AppError {
-  constructor(message: string = 'Authentication required', context?: any) {
+  public readonly code: string; // Machine-readable reason, e.g. token_required, token_invalid, token_expired, session_invalid
+
+  constructor(message: string = 'Authentication required', context?: any, code: string = 'unauthenticated') {
     super(message, 401, true, context);
     this.name = 'AuthenticationError';
+    this.code = code;
+  }
+}
+
+export class ForbiddenError extends AppError {
+  public readonly code: string; // Machine-readable reason, e.g. origin_not_allowed
+
+  constructor(message: string = 'Forbidden', context?: Record<string, unknown>, code: string = 'forbidden') {
+    super(message, 403, true, context);
+    this.name = 'ForbiddenError';
+    this.code = code;
   }
 }
 
@@ -51,6 +67,23 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ServiceUnavailableError extends AppError {
+  public readonly retryAfterSeconds?: number; // Sent as the Retry-After header
+
+  constructor(message: string = 'Service temporarily unavailable', context?: Record<string, unknown>, retryAfterSeconds?: number) {
+    super(message, 503, true, context);
+    this.name = 'ServiceUnavailableError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class UpstreamTimeoutError extends AppError {
+  constructor(message: string = 'Upstream request timed out', context?: Record<string, unknown>) {
+    super(message, 504, true, context);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
 // Error handling middleware
 export const errorHandler = (
   error: Error,
@@ -85,10 +118,22 @@ export const errorHandler = (
 
   // Send error response
   if (error instanceof AppError) {
+    const retryAfter = error instanceof RateLimitError || error instanceof ServiceUnavailableError ? error.retryAfterSeconds : undefined;
+    if (retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(retryAfter));
+    }
+    const code = error instanceof AuthenticationError || error instanceof ForbiddenError ? error.code : undefined;
+    if (error instanceof AuthenticationError) {
+      // RFC 6750: only report invalid_token when credentials were presented
+      const invalidToken = error.code !== 'token_required' && error.code !== 'unauthenticated';
+      res.setHeader('WWW-Authenticate', `Bearer realm="chatbot"${invalidToken ? ', error="invalid_token"' : ''}`);
+    }
     res.status(error.statusCode).json({
       error: error.message,
       statusCode: error.statusCode,
       requestId,
+      ...(code && { code }),
+      ...(retryAfter !== undefined && { retryAfter }),
       ...(process.env.NODE_ENV === 'development' && { 
         stack: error.stack,
         context: error.context 
@@ -122,15 +167,24 @@ export const requestIdMiddleware = (req: Request, res: Response, next: NextFunct
   next();
 };
 
+// Route pattern a request matched (e.g. /admin/tenants/:tenantId), or undefined when no route matched
+// Used instead of the raw path to label metrics and spans, which keeps ids out of their names
+export const getRoutePattern = (req: Request): string | undefined => {
+  const routePath = (req.route as { path?: unknown } | undefined)?.path;
+  return typeof routePath === 'string' ? `${req.baseUrl}${routePath}` : undefined;
+};
+
 // Request logging middleware
 export const requestLoggingMiddleware = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
   const requestId = req.headers['x-request-id'] as string;
+  // Routers mounted with app.use() rewrite req.path, so keep the full path for the finish line
+  const path = req.path;
   
-  logger.http(`${req.method} ${req.path}`, {
+  logger.http(`${req.method} ${path}`, {
     requestId,
     method: req.method,
-    path: req.path,
+    path,
     userAgent: req.get('User-Agent'),
     ip: req.ip,
     contentLength: req.get('Content-Length')
@@ -138,10 +192,10 @@ export const requestLoggingMiddleware = (req: Request, res: Response, next: Next
 
   res.on('finish', () => {
     const duration = Date.now() - start;
-    logger.http(`${req.method} ${req.path} ${res.statusCode}`, {
+    logger.http(`${req.method} ${path} ${res.statusCode}`, {
       requestId,
       method: req.method,
-      path: req.path,
+      path,
       statusCode: res.statusCode,
       duration,
       contentLength: res.get('Content-Length')
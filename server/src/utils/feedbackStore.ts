@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { feedbackStoreConfig, FeedbackStoreConfig } from '../config/environment';
+import { FeedbackRating, FeedbackReason, FeedbackRecord, FeedbackTarget } from '../types';
+import { logger } from './logger';
+
+// Reasons a practitioner can pick, by what the feedback is about
+export const FEEDBACK_REASONS: Record<FeedbackTarget, FeedbackReason[]> = {
+  answer: ['inaccurate', 'not_relevant', 'incomplete', 'unsafe', 'wrong_products', 'other'],
+  product: ['not_relevant', 'contraindicated', 'wrong_form', 'unavailable', 'other']
+};
+
+// Feedback as submitted, before the store assigns its id and timestamps
+export type NewFeedback = Omit<FeedbackRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface FeedbackFilter {
+  tenantId?: string; // Tenant id, or BotDojo account id for initData callers
+  since?: number; // ms since epoch, inclusive
+  until?: number; // ms since epoch, exclusive
+  rating?: FeedbackRating;
+  target?: FeedbackTarget;
+  limit: number;
+}
+
+/**
+ * Storage backend for feedback
+ * Feedback on the same answer (or the same product of an answer) by the same practitioner replaces the earlier one,
+ * so changing a vote or adding reasons later doesn't count twice.
+ */
+export interface FeedbackRepository {
+  readonly backend: string;
+  save(feedback: NewFeedback): Promise<FeedbackRecord>;
+  /** Feedback, most recently updated first */
+  list(filter: FeedbackFilter): Promise<FeedbackRecord[]>;
+  close(): Promise<void>;
+}
+
+interface FeedbackRow {
+  id: string;
+  created_at: number;
+  updated_at: number;
+  tenant_id: string;
+  account_id: string;
+  practitioner_id: string;
+  conversation_id: string;
+  message_id: string;
+  sku: string;
+  request_id: string | null;
+  target: FeedbackTarget;
+  rating: FeedbackRating;
+  reasons: string;
+  comment: string | null;
+  question: string;
+  answer: string;
+  skus: string;
+}
+
+// Empty strings stand for missing key parts, so they can take part in the unique index
+function toRecord(row: FeedbackRow): FeedbackRecord {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    tenantId: row.tenant_id || undefined,
+    accountId: row.account_id || undefined,
+    practitionerId: row.practitioner_id || undefined,
+    messageId: row.message_id,
+    conversationId: row.conversation_id || undefined,
+    requestId: row.request_id ?? undefined,
+    target: row.target,
+    sku: row.sku || undefined,
+    rating: row.rating,
+    reasons: JSON.parse(row.reasons),
+    comment: row.comment ?? undefined,
+    question: row.question,
+    answer: row.answer,
+    skus: JSON.parse(row.skus)
+  };
+}
+
+/**
+ * SQLite feedback store (default)
+ */
+export class SqliteFeedbackRepository implements FeedbackRepository {
+  readonly backend = 'sqlite';
+  private db: Database.Database;
+
+  /**
+   * @param filePath - Database file (created with its directory if missing), or ":memory:"
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS feedback (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        tenant_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        practitioner_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        sku TEXT NOT NULL,
+        request_id TEXT,
+        target TEXT NOT NULL,
+        rating TEXT NOT NULL,
+        reasons TEXT NOT NULL,
+        comment TEXT,
+        question TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        skus TEXT NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS feedback_by_message
+        ON feedback (tenant_id, account_id, practitioner_id, conversation_id, message_id, sku);
+      CREATE INDEX IF NOT EXISTS feedback_by_update ON feedback (updated_at);
+    `);
+  }
+
+  async save(feedback: NewFeedback): Promise<FeedbackRecord> {
+    const now = Date.now();
+    const row = this.db.prepare(`
+      INSERT INTO feedback (id, created_at, updated_at, tenant_id, account_id, practitioner_id, conversation_id, message_id, sku,
+        request_id, target, rating, reasons, comment, question, answer, skus)
+      VALUES (@id, @now, @now, @tenantId, @accountId, @practitionerId, @conversationId, @messageId, @sku,
+        @requestId, @target, @rating, @reasons, @comment, @question, @answer, @skus)
+      ON CONFLICT (tenant_id, account_id, practitioner_id, conversation_id, message_id, sku) DO UPDATE SET
+        updated_at = excluded.updated_at, request_id = COALESCE(excluded.request_id, request_id), target = excluded.target,
+        rating = excluded.rating, reasons = excluded.reasons, comment = excluded.comment,
+        question = excluded.question, answer = excluded.answer, skus = excluded.skus
+      RETURNING *
+    `).get({
+      id: crypto.randomUUID(),
+      now,
+      tenantId: feedback.tenantId ?? '',
+      accountId: feedback.accountId ?? '',
+      practitionerId: feedback.practitionerId ?? '',
+      conversationId: feedback.conversationId ?? '',
+      messageId: feedback.messageId,
+      sku: feedback.sku ?? '',
+      requestId: feedback.requestId ?? null,
+      target: feedback.target,
+      rating: feedback.rating,
+      reasons: JSON.stringify(feedback.reasons),
+      comment: feedback.comment ?? null,
+      question: feedback.question,
+      answer: feedback.answer,
+      skus: JSON.stringify(feedback.skus)
+    }) as FeedbackRow;
+    return toRecord(row);
+  }
+
+  async list(filter: FeedbackFilter): Promise<FeedbackRecord[]> {
+    const conditions = ['updated_at >= @since', 'updated_at < @until'];
+    const params: Record<string, string | number> = {
+      since: filter.since ?? 0,
+      until: filter.until ?? Number.MAX_SAFE_INTEGER,
+      limit: filter.limit
+    };
+    if (filter.tenantId !== undefined) {
+      conditions.push('(tenant_id = @tenantId OR (tenant_id = \'\' AND account_id = @tenantId))');
+      params.tenantId = filter.tenantId;
+    }
+    if (filter.rating) {
+      conditions.push('rating = @rating');
+      params.rating = filter.rating;
+    }
+    if (filter.target) {
+      conditions.push('target = @target');
+      params.target = filter.target;
+    }
+    const rows = this.db.prepare(`
+      SELECT * FROM feedback WHERE ${conditions.join(' AND ')} ORDER BY updated_at DESC LIMIT @limit
+    `).all(params) as FeedbackRow[];
+    return rows.map(toRecord);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS: Array<keyof FeedbackRecord> = [
+  'id', 'createdAt', 'updatedAt', 'tenantId', 'accountId', 'practitionerId', 'conversationId', 'messageId', 'requestId',
+  'target', 'sku', 'rating', 'reasons', 'comment', 'question', 'answer', 'skus'
+];
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join('|') : value === undefined || value === null ? '' : String(value);
+  // Quote every cell that needs it; a leading =, +, - or @ is prefixed so spreadsheets don't run it as a formula
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Feedback as CSV, one row per record with a header row; list values (reasons, skus) are joined with |
+ */
+export function formatFeedbackCsv(records: FeedbackRecord[]): string {
+  const lines = [CSV_COLUMNS.join(','), ...records.map((record) => CSV_COLUMNS.map((column) => csvCell(record[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Create the feedback store selected by configuration, or null when feedback is off
+ */
+export function createFeedbackRepository(config: FeedbackStoreConfig = feedbackStoreConfig): FeedbackRepository | null {
+  if (config.backend === 'none') {
+    return null;
+  }
+  const repository = new SqliteFeedbackRepository(config.dbFile);
+  logger.info('Feedback store opened', { backend: repository.backend, file: config.dbFile });
+  return repository;
+}
+
+// Create singleton instance
+export const feedbackStore = createFeedbackRepository();
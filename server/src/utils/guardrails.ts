@@ -0,0 +1,186 @@
+import { safetyConfig, SafetyConfig } from '../config/environment';
+import { SafetyAction, SafetyCategory, SafetyFinding, SafetyReport, SafetyRule } from '../types';
+
+/**
+ * Supplement safety guardrails
+ *
+ * Bot answers are checked before they reach the widget. Rules match dosage claims, disease-cure language and
+ * pregnancy or pediatric contexts, in the answer or in the user's message, and flag the answer, append a disclaimer,
+ * rewrite the sentences that matched or withhold the answer altogether.
+ */
+
+export const DEFAULT_SAFETY_RULES: Record<string, SafetyRule> = {
+  dosage: {
+    category: 'dosage',
+    pattern: '\\b\\d+(?:[.,]\\d+)?\\s*(?:mg|mcg|µg|μg|iu|ml|g)\\b|\\btak(?:e|ing)\\s+\\d+\\s+(?:capsules?|tablets?|softgels?|drops?|scoops?)\\b',
+    scope: 'answer',
+    action: 'disclaimer',
+    disclaimer: 'Amounts mentioned here are general guidance, not a prescription. Check the right dose with your practitioner.'
+  },
+  cure_claim: {
+    category: 'cure_claim',
+    pattern: "\\b(?:cures?|cured|curing|heals?|reverses?|eliminates?|eradicates?)\\b[^.!?\\n]{0,60}\\b(?:cancer|tumou?rs?|diabetes|disease|depression|anxiety|arthritis|infections?|covid(?:-19)?|alzheimer'?s|dementia|hypertension|autism|adhd|asthma)\\b|\\b(?:miracle|guaranteed)\\s+(?:cure|treatment)\\b",
+    scope: 'answer',
+    action: 'rewrite',
+    replacement: '',
+    disclaimer: 'Supplements are not intended to diagnose, treat, cure or prevent any disease.'
+  },
+  pregnancy: {
+    category: 'pregnancy',
+    pattern: '\\b(?:pregnan\\w*|breast-?feeding|lactating|nursing mothers?|trying to conceive|prenatal|postpartum)\\b',
+    scope: 'both',
+    action: 'disclaimer',
+    disclaimer: 'If you are pregnant, breastfeeding or trying to conceive, check with your practitioner before starting any supplement.'
+  },
+  pediatric: {
+    category: 'pediatric',
+    pattern: '\\b(?:child(?:ren)?|kids?|infants?|bab(?:y|ies)|toddlers?|newborns?|teenagers?|p(?:a)?ediatric|my (?:son|daughter))\\b',
+    scope: 'both',
+    action: 'disclaimer',
+    disclaimer: 'Children need different amounts than adults. Check with a practitioner before giving supplements to a child.'
+  }
+};
+
+// Categories the widget has a notice for; custom rules use "custom"
+const SAFETY_CATEGORIES: SafetyCategory[] = ['dosage', 'cure_claim', 'pregnancy', 'pediatric', 'custom'];
+
+// Order of strength; a report names the strongest action applied
+const ACTION_STRENGTH: Record<SafetyAction, number> = { flag: 0, disclaimer: 1, rewrite: 2, block: 3 };
+
+// A sentence with its closing punctuation; line breaks end sentences too
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+
+interface CompiledRule extends SafetyRule {
+  id: string;
+  regex: RegExp;
+}
+
+// Built-in rules with the configured overrides applied; null drops a rule, new ids add custom ones
+function resolveRules(overrides: SafetyConfig['rules']): CompiledRule[] {
+  const rules: Record<string, SafetyRule> = { ...DEFAULT_SAFETY_RULES };
+  for (const [id, override] of Object.entries(overrides)) {
+    if (override === null) {
+      delete rules[id];
+      continue;
+    }
+    const base: Partial<SafetyRule> = rules[id] ?? { category: 'custom', scope: 'answer', action: 'flag' };
+    const rule = { ...base, ...override } as SafetyRule;
+    if (!rule.pattern) {
+      throw new Error(`Safety rule "${id}" needs a pattern`);
+    }
+    if (!(rule.action in ACTION_STRENGTH)) {
+      throw new Error(`Safety rule "${id}" has an unknown action: ${rule.action}`);
+    }
+    if (!SAFETY_CATEGORIES.includes(rule.category)) {
+      throw new Error(`Safety rule "${id}" has an unknown category: ${rule.category} (use one of ${SAFETY_CATEGORIES.join(', ')})`);
+    }
+    rules[id] = rule;
+  }
+  return Object.entries(rules).map(([id, rule]) => ({ ...rule, id, regex: new RegExp(rule.pattern, 'i') }));
+}
+
+/**
+ * Guardrail state for one chat turn
+ * The user's message is checked up front; the answer is checked on every streamed snapshot, so rewrites and blocks
+ * apply while it streams, and once more when it is complete.
+ */
+export class SafetyReview {
+  private rules: CompiledRule[];
+  private answerRules: CompiledRule[];
+  private blockMessage: string;
+  private messageFindings: SafetyFinding[];
+  private blocked: boolean;
+
+  constructor(rules: CompiledRule[], blockMessage: string, message: string) {
+    this.rules = rules;
+    this.answerRules = rules.filter((rule) => rule.scope !== 'message');
+    this.blockMessage = blockMessage;
+    this.messageFindings = rules
+      .filter((rule) => rule.scope !== 'answer' && rule.regex.test(message))
+      .map((rule) => ({ rule: rule.id, category: rule.category, action: rule.action, source: 'message' }));
+    this.blocked = this.messageFindings.some((finding) => finding.action === 'block');
+  }
+
+  /**
+   * A block rule matched the message or the answer so far
+   */
+  get isBlocked(): boolean {
+    return this.blocked;
+  }
+
+  /**
+   * Apply block and rewrite rules to an answer, or a streamed snapshot of it
+   * Once a block rule has matched, the answer stays withheld for the rest of the turn.
+   */
+  apply(text: string): string {
+    if (!this.blocked && this.answerRules.some((rule) => rule.action === 'block' && rule.regex.test(text))) {
+      this.blocked = true;
+    }
+    if (this.blocked) {
+      return this.blockMessage;
+    }
+    return this.answerRules
+      .filter((rule) => rule.action === 'rewrite')
+      .reduce((current, rule) => current.replace(SENTENCE_PATTERN, (sentence) => rule.regex.test(sentence) ? (rule.replacement ?? '') : sentence), text);
+  }
+
+  /**
+   * Review the complete answer: apply the rules, append disclaimers and report what matched
+   *
+   * @returns The answer to show, and a report when any rule matched
+   */
+  finish(text: string): { text: string; report?: SafetyReport } {
+    const answer = this.apply(text);
+    const answerFindings: SafetyFinding[] = this.answerRules
+      .filter((rule) => rule.regex.test(text) && !this.messageFindings.some((finding) => finding.rule === rule.id))
+      .map((rule) => ({ rule: rule.id, category: rule.category, action: rule.action, source: 'answer' }));
+    const findings = [...this.messageFindings, ...answerFindings];
+    if (findings.length === 0) {
+      return { text: answer };
+    }
+
+    const action = this.blocked
+      ? 'block'
+      : findings.reduce<SafetyAction>((strongest, finding) =>
+        ACTION_STRENGTH[finding.action] > ACTION_STRENGTH[strongest] ? finding.action : strongest, 'flag');
+    const disclaimers = this.blocked
+      ? []
+      : [...new Set(findings
+        .filter((finding) => finding.action !== 'flag')
+        .map((finding) => this.rules.find((rule) => rule.id === finding.rule)?.disclaimer)
+        .filter((disclaimer): disclaimer is string => Boolean(disclaimer)))];
+
+    return {
+      text: [answer.trimEnd(), ...disclaimers].filter(Boolean).join('\n\n'),
+      report: { action, findings, disclaimers }
+    };
+  }
+}
+
+/**
+ * Builds safety reviews from the built-in rules and the SAFETY_RULES overrides
+ */
+class Guardrails {
+  private config: SafetyConfig;
+  private rules: CompiledRule[];
+
+  constructor(config: SafetyConfig) {
+    this.config = config;
+    this.rules = config.enabled ? resolveRules(config.rules) : [];
+  }
+
+  /**
+   * Start reviewing a chat turn
+   *
+   * @param message - The user's message (after redaction)
+   */
+  createReview(message: string): SafetyReview {
+    return new SafetyReview(this.rules, this.config.blockMessage, message);
+  }
+}
+
+// Create singleton instance
+export const guardrails = new Guardrails(safetyConfig);
+
+// Export class for testing
+export { Guardrails };
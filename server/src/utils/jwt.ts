@@ -0,0 +1,266 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import { AuthenticationError } from './errorHandler';
+import { logger } from './logger';
+
+/**
+ * Compact JWT verification for tokens minted by host applications
+ *
+ * HMAC tokens (HS256/384/512) are verified with a shared secret; RSA and EC tokens
+ * (RS*, PS*, ES*) with public keys from a JWKS. A token is only ever checked against
+ * the kind of key its algorithm calls for, so a public key can never be used as an HMAC secret.
+ */
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  tid?: string; // Tenant id, for tokens issued for a tenant registry entry
+  iat?: number;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Public keys used to verify asymmetric tokens
+ */
+export interface JwksKeySet {
+  /**
+   * Keys that may have signed a token, matched on kid (when the token has one), key type and alg
+   */
+  keysFor(kid: string | undefined, alg: string): KeyObject[];
+}
+
+export interface JwtKeys {
+  secret?: string; // HMAC secret
+  jwks?: JwksKeySet;
+}
+
+export interface VerifyJwtOptions {
+  label?: string; // Used in error messages, e.g. "tenant token"
+  issuer?: string;
+  audience?: string;
+  maxAgeSeconds?: number; // Longest lifetime (exp - iat) accepted for a token
+  clockToleranceSeconds?: number;
+}
+
+interface JsonWebKeyEntry {
+  kid?: string;
+  kty?: string;
+  alg?: string;
+  use?: string;
+  [field: string]: unknown;
+}
+
+// Maps, not object literals: the alg header is attacker-controlled, and "constructor" or "__proto__" must not resolve
+const HMAC_ALGORITHMS = new Map<string, string>([
+  ['HS256', 'sha256'],
+  ['HS384', 'sha384'],
+  ['HS512', 'sha512']
+]);
+
+const ASYMMETRIC_ALGORITHMS = new Map<string, { hash: string; kty: 'RSA' | 'EC'; pss?: boolean }>([
+  ['RS256', { hash: 'sha256', kty: 'RSA' }],
+  ['RS384', { hash: 'sha384', kty: 'RSA' }],
+  ['RS512', { hash: 'sha512', kty: 'RSA' }],
+  ['PS256', { hash: 'sha256', kty: 'RSA', pss: true }],
+  ['PS384', { hash: 'sha384', kty: 'RSA', pss: true }],
+  ['PS512', { hash: 'sha512', kty: 'RSA', pss: true }],
+  ['ES256', { hash: 'sha256', kty: 'EC' }],
+  ['ES384', { hash: 'sha384', kty: 'EC' }],
+  ['ES512', { hash: 'sha512', kty: 'EC' }]
+]);
+
+/**
+ * Validate and import the signing keys of a JWKS document
+ * Keys that cannot be imported are skipped with a warning rather than failing the whole set.
+ */
+function importJwks(jwks: unknown, source: string): Array<{ jwk: JsonWebKeyEntry; key: KeyObject }> {
+  const entries = (jwks as { keys?: unknown })?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error(`JWKS ${source} must be an object with a "keys" array`);
+  }
+
+  const keys: Array<{ jwk: JsonWebKeyEntry; key: KeyObject }> = [];
+  for (const jwk of entries as JsonWebKeyEntry[]) {
+    if (jwk.use && jwk.use !== 'sig') {
+      continue;
+    }
+    try {
+      keys.push({ jwk, key: crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' }) });
+    } catch (error) {
+      logger.warn('Skipping JWKS key that could not be imported', {
+        source,
+        kid: jwk.kid,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+  return keys;
+}
+
+/**
+ * JWKS held in memory (programmatic configuration and tests)
+ */
+export class InMemoryJwksKeySet implements JwksKeySet {
+  protected keys: Array<{ jwk: JsonWebKeyEntry; key: KeyObject }>;
+
+  constructor(jwks: unknown, source: string = 'in-memory') {
+    this.keys = importJwks(jwks, source);
+  }
+
+  keysFor(kid: string | undefined, alg: string): KeyObject[] {
+    const kty = ASYMMETRIC_ALGORITHMS.get(alg)?.kty;
+    return this.keys
+      .filter(({ jwk }) => jwk.kty === kty && (!jwk.alg || jwk.alg === alg) && (kid === undefined || jwk.kid === kid))
+      .map(({ key }) => key);
+  }
+}
+
+/**
+ * JWKS file ({ "keys": [...] }), e.g. the public keys a host backend signs with
+ * The file is re-read when its modification time changes, so keys can be rotated without a restart.
+ */
+export class FileJwksKeySet extends InMemoryJwksKeySet {
+  private filePath: string;
+  private loadedMtimeMs = 0;
+
+  constructor(filePath: string) {
+    super({ keys: [] }, filePath);
+    this.filePath = filePath;
+    this.reloadIfChanged();
+  }
+
+  override keysFor(kid: string | undefined, alg: string): KeyObject[] {
+    this.reloadIfChanged();
+    return super.keysFor(kid, alg);
+  }
+
+  private reloadIfChanged(): void {
+    try {
+      const { mtimeMs } = fs.statSync(this.filePath);
+      if (mtimeMs === this.loadedMtimeMs) {
+        return;
+      }
+      this.keys = importJwks(JSON.parse(fs.readFileSync(this.filePath, 'utf8')), this.filePath);
+      this.loadedMtimeMs = mtimeMs;
+      logger.info('JWKS loaded', { file: this.filePath, keys: this.keys.length });
+    } catch (error) {
+      // Keep verifying with the last good key set (e.g. while the file is being replaced) rather than rejecting every token
+      if (this.loadedMtimeMs === 0) {
+        throw error;
+      }
+      logger.error('Failed to reload JWKS, keeping previous keys', {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function verifySignature(alg: string, kid: string | undefined, data: string, signature: string, keys: JwtKeys): boolean {
+  const hmac = HMAC_ALGORITHMS.get(alg);
+  if (hmac) {
+    const expected = Buffer.from(crypto.createHmac(hmac, keys.secret as string).update(data).digest('base64url'));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  const asymmetric = ASYMMETRIC_ALGORITHMS.get(alg);
+  if (!asymmetric) {
+    return false;
+  }
+  const { hash, kty, pss } = asymmetric;
+  const signatureBytes = Buffer.from(signature, 'base64url');
+  return (keys.jwks as JwksKeySet).keysFor(kid, alg).some((key) => {
+    try {
+      return crypto.verify(hash, Buffer.from(data), {
+        key,
+        ...(kty === 'EC' && { dsaEncoding: 'ieee-p1363' as const }),
+        ...(pss && { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST })
+      }, signatureBytes);
+    } catch {
+      // e.g. an EC key on a different curve than the token's algorithm
+      return false;
+    }
+  });
+}
+
+/**
+ * Verify a compact JWT
+ *
+ * @param token - Compact JWT
+ * @param keys - HMAC secret and/or JWKS; algorithms without a matching key are rejected
+ * @param options - Expected issuer/audience and lifetime limits
+ * @returns Verified claims
+ * @throws AuthenticationError (code token_expired or token_invalid)
+ */
+export function verifyJwt(token: string, keys: JwtKeys, options: VerifyJwtOptions = {}): JwtClaims {
+  const label = options.label ?? 'token';
+  const invalid = (message: string) => new AuthenticationError(message, undefined, 'token_invalid');
+
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) {
+    throw invalid(`Malformed ${label}`);
+  }
+
+  const [header, body, signature] = parts;
+
+  let alg: unknown;
+  let kid: unknown;
+  try {
+    ({ alg, kid } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8')));
+  } catch {
+    throw invalid(`Malformed ${label}`);
+  }
+  const supported = typeof alg === 'string' && (
+    (HMAC_ALGORITHMS.has(alg) && Boolean(keys.secret)) ||
+    (ASYMMETRIC_ALGORITHMS.has(alg) && Boolean(keys.jwks))
+  );
+  if (!supported) {
+    throw invalid(`Unsupported ${label} algorithm`);
+  }
+
+  if (!verifySignature(alg as string, typeof kid === 'string' ? kid : undefined, `${header}.${body}`, signature, keys)) {
+    throw invalid(`Invalid ${label} signature`);
+  }
+
+  let claims: JwtClaims;
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    throw invalid(`Malformed ${label}`);
+  }
+  if (!claims || typeof claims.exp !== 'number' || typeof claims.iat !== 'number') {
+    throw invalid(`${capitalize(label)} is missing iat/exp claims`);
+  }
+
+  const tolerance = options.clockToleranceSeconds ?? 30;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.exp + tolerance < now) {
+    throw new AuthenticationError(`${capitalize(label)} has expired`, undefined, 'token_expired');
+  }
+  if (claims.iat - tolerance > now || (typeof claims.nbf === 'number' && claims.nbf - tolerance > now)) {
+    throw invalid(`${capitalize(label)} is not yet valid`);
+  }
+  if (options.maxAgeSeconds !== undefined && claims.exp - claims.iat > options.maxAgeSeconds) {
+    throw invalid(`${capitalize(label)} lifetime exceeds ${options.maxAgeSeconds} seconds`);
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw invalid(`${capitalize(label)} was issued by an unexpected issuer`);
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw invalid(`${capitalize(label)} was issued for a different audience`);
+    }
+  }
+
+  return claims;
+}
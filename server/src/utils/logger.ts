@@ -1,4 +1,6 @@
 import winston from 'winston';
+import { trace } from '@opentelemetry/api';
+import { serverConfig } from '../config/environment';
 
 export enum LogLevel {
   ERROR = 'error',
@@ -20,16 +22,45 @@ export interface LogContext {
   [key: string]: any;
 }
 
+export interface LogEntry {
+  timestamp: string;
+  level: string;
+  message: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+export interface RecentLogFilter {
+  requestId?: string;
+  level?: string;
+  limit?: number; // Newest entries returned (default 100)
+}
+
+// Adds the ids of the active (recorded) span, so log lines can be found from a trace and vice versa
+const traceContext = winston.format((info) => {
+  const span = trace.getActiveSpan();
+  if (span?.isRecording()) {
+    const { traceId, spanId } = span.spanContext();
+    info.traceId = traceId;
+    info.spanId = spanId;
+  }
+  return info;
+});
+
 class Logger {
   private logger: winston.Logger;
+  private bufferSize: number;
+  private recentEntries: LogEntry[] = [];
 
-  constructor() {
+  constructor(bufferSize: number = serverConfig.logBufferSize) {
+    this.bufferSize = bufferSize;
     const isDevelopment = process.env.NODE_ENV === 'development';
     const isProduction = process.env.NODE_ENV === 'production';
 
     this.logger = winston.createLogger({
       level: isDevelopment ? 'debug' : 'info',
       format: winston.format.combine(
+        traceContext(),
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
         winston.format.json()
@@ -84,18 +115,22 @@ class Logger {
 
   error(message: string, context?: LogContext): void {
     this.logger.error(message, context);
+    this.record('error', message, context);
   }
 
   warn(message: string, context?: LogContext): void {
     this.logger.warn(message, context);
+    this.record('warn', message, context);
   }
 
   info(message: string, context?: LogContext): void {
     this.logger.info(message, context);
+    this.record('info', message, context);
   }
 
   http(message: string, context?: LogContext): void {
     this.logger.http(message, context);
+    this.record('http', message, context);
   }
 
   verbose(message: string, context?: LogContext): void {
@@ -178,6 +213,29 @@ class Logger {
     });
   }
 
+  /**
+   * Recent log entries held in memory (for /admin/logs), oldest first
+   * Only the last LOG_BUFFER_SIZE error, warn, info and http entries are kept, across all requests.
+   */
+  recent(filter: RecentLogFilter = {}): LogEntry[] {
+    const matching = this.recentEntries.filter((entry) =>
+      (filter.requestId === undefined || entry.requestId === filter.requestId) &&
+      (filter.level === undefined || entry.level === filter.level)
+    );
+    return matching.slice(-(filter.limit ?? 100));
+  }
+
+  private record(level: string, message: string, context?: LogContext): void {
+    // Kept whatever the output level, so request lines (http) are there in production too
+    if (this.bufferSize <= 0) {
+      return;
+    }
+    this.recentEntries.push({ ...context, timestamp: new Date().toISOString(), level, message });
+    if (this.recentEntries.length > this.bufferSize) {
+      this.recentEntries.shift();
+    }
+  }
+
   private sanitizeRequestBody(requestBody: any): any {
     // Remove sensitive data from request body for logging
     const sanitized = { ...requestBody };
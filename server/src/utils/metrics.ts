@@ -0,0 +1,213 @@
+import { Request, Response, NextFunction } from 'express';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { metricsConfig } from '../config/environment';
+import type { AuthContext } from './auth';
+import { getRoutePattern } from './errorHandler';
+
+export type BotDojoRunOutcome = 'success' | 'error' | 'timeout' | 'cancelled';
+
+/**
+ * Tenant label value; legacy (initData) callers have no tenant id and share "none"
+ */
+export function tenantLabel(tenantId?: string): string {
+  return tenantId || 'none';
+}
+
+/**
+ * Prometheus metrics for the chat server, labelled by tenant
+ * Each instance has its own registry, so tests can create instances without clashing with the singleton.
+ */
+class Metrics {
+  readonly registry: Registry;
+  private httpRequests: Counter<'method' | 'route' | 'status' | 'tenant'>;
+  private httpDuration: Histogram<'method' | 'route' | 'status' | 'tenant'>;
+  private botdojoFirstToken: Histogram<'flow' | 'tenant'>;
+  private botdojoDuration: Histogram<'flow' | 'tenant' | 'outcome'>;
+  private sseConnections: Gauge<'tenant'>;
+  private cacheHits: Counter<'namespace' | 'tenant'>;
+  private cacheMisses: Counter<'namespace' | 'tenant'>;
+  private productInfoFailures: Counter<'status' | 'tenant'>;
+  private rateLimitRejections: Counter<'route' | 'scope' | 'tenant'>;
+  private safetyFindings: Counter<'rule' | 'action' | 'tenant'>;
+  private feedback: Counter<'rating' | 'target' | 'tenant'>;
+  private analyticsEvents: Counter<'type' | 'tenant'>;
+
+  constructor(prefix: string = 'chatbot_', collectProcessMetrics: boolean = true) {
+    this.registry = new Registry();
+    const registers = [this.registry];
+
+    if (collectProcessMetrics) {
+      collectDefaultMetrics({ register: this.registry, prefix });
+    }
+
+    this.httpRequests = new Counter({
+      name: `${prefix}http_requests_total`,
+      help: 'HTTP requests by route and status',
+      labelNames: ['method', 'route', 'status', 'tenant'],
+      registers
+    });
+    this.httpDuration = new Histogram({
+      name: `${prefix}http_request_duration_seconds`,
+      help: 'HTTP request latency by route (streaming routes until the stream ends)',
+      labelNames: ['method', 'route', 'status', 'tenant'],
+      buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+      registers
+    });
+    this.botdojoFirstToken = new Histogram({
+      name: `${prefix}botdojo_first_token_seconds`,
+      help: 'Time from starting a BotDojo flow run to the first chunk of its response',
+      labelNames: ['flow', 'tenant'],
+      buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30],
+      registers
+    });
+    this.botdojoDuration = new Histogram({
+      name: `${prefix}botdojo_run_duration_seconds`,
+      help: 'Total duration of BotDojo flow runs by outcome (success, error, timeout, cancelled)',
+      labelNames: ['flow', 'tenant', 'outcome'],
+      buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+      registers
+    });
+    this.sseConnections = new Gauge({
+      name: `${prefix}sse_connections_open`,
+      help: 'Open server-sent event streams',
+      labelNames: ['tenant'],
+      registers
+    });
+    this.cacheHits = new Counter({
+      name: `${prefix}cache_hits_total`,
+      help: 'Cache hits by namespace (botdojo, suggestions, products, product)',
+      labelNames: ['namespace', 'tenant'],
+      registers
+    });
+    this.cacheMisses = new Counter({
+      name: `${prefix}cache_misses_total`,
+      help: 'Cache misses by namespace (botdojo, suggestions, products, product)',
+      labelNames: ['namespace', 'tenant'],
+      registers
+    });
+    this.productInfoFailures = new Counter({
+      name: `${prefix}product_info_upstream_failures_total`,
+      help: 'Failed catalog product lookups by upstream HTTP status ("network" when no response was received)',
+      labelNames: ['status', 'tenant'],
+      registers
+    });
+    this.rateLimitRejections = new Counter({
+      name: `${prefix}rate_limit_rejections_total`,
+      help: 'Requests rejected by the rate limiter by route and exceeded limit (tenant or client)',
+      labelNames: ['route', 'scope', 'tenant'],
+      registers
+    });
+    this.safetyFindings = new Counter({
+      name: `${prefix}safety_findings_total`,
+      help: 'Safety guardrail rules matched by chat turns, by rule and action',
+      labelNames: ['rule', 'action', 'tenant'],
+      registers
+    });
+    this.feedback = new Counter({
+      name: `${prefix}feedback_total`,
+      help: 'Practitioner feedback received, by rating and target (answer or product)',
+      labelNames: ['rating', 'target', 'tenant'],
+      registers
+    });
+    this.analyticsEvents = new Counter({
+      name: `${prefix}analytics_events_total`,
+      help: 'Widget analytics events received, by type',
+      labelNames: ['type', 'tenant'],
+      registers
+    });
+  }
+
+  /**
+   * Count a finished HTTP request
+   */
+  observeHttpRequest(labels: { method: string; route: string; status: number; tenantId?: string }, seconds: number): void {
+    const values = { method: labels.method, route: labels.route, status: String(labels.status), tenant: tenantLabel(labels.tenantId) };
+    this.httpRequests.inc(values);
+    this.httpDuration.observe(values, seconds);
+  }
+
+  observeBotDojoFirstToken(flowId: string, tenantId: string | undefined, seconds: number): void {
+    this.botdojoFirstToken.observe({ flow: flowId, tenant: tenantLabel(tenantId) }, seconds);
+  }
+
+  observeBotDojoRun(flowId: string, tenantId: string | undefined, outcome: BotDojoRunOutcome, seconds: number): void {
+    this.botdojoDuration.observe({ flow: flowId, tenant: tenantLabel(tenantId), outcome }, seconds);
+  }
+
+  /**
+   * Count an opened SSE stream
+   *
+   * @returns Function to call when the stream closes (only the first call counts)
+   */
+  sseConnectionOpened(tenantId?: string): () => void {
+    const labels = { tenant: tenantLabel(tenantId) };
+    this.sseConnections.inc(labels);
+    let open = true;
+    return () => {
+      if (open) {
+        open = false;
+        this.sseConnections.dec(labels);
+      }
+    };
+  }
+
+  recordCacheLookup(namespace: string, tenantId: string | undefined, hit: boolean): void {
+    (hit ? this.cacheHits : this.cacheMisses).inc({ namespace, tenant: tenantLabel(tenantId) });
+  }
+
+  recordProductInfoFailure(status: number | 'network', tenantId?: string): void {
+    this.productInfoFailures.inc({ status: String(status), tenant: tenantLabel(tenantId) });
+  }
+
+  recordRateLimitRejection(route: string, scope: string, tenantId?: string): void {
+    this.rateLimitRejections.inc({ route, scope, tenant: tenantLabel(tenantId) });
+  }
+
+  recordSafetyFinding(rule: string, action: string, tenantId?: string): void {
+    this.safetyFindings.inc({ rule, action, tenant: tenantLabel(tenantId) });
+  }
+
+  recordFeedback(rating: string, target: string, tenantId?: string): void {
+    this.feedback.inc({ rating, target, tenant: tenantLabel(tenantId) });
+  }
+
+  recordAnalyticsEvent(type: string, tenantId?: string): void {
+    this.analyticsEvents.inc({ type, tenant: tenantLabel(tenantId) });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Current values in the Prometheus text format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
+
+// Create singleton instance
+export const metrics = new Metrics(metricsConfig.prefix);
+
+// HTTP metrics middleware
+// Requests are labelled with the matched route pattern (e.g. /chat/stream/:streamId), never the raw path, to keep
+// label cardinality bounded; requests no route matched (static files, 404s) share "unmatched".
+// Counted on 'close' rather than 'finish' so streams the client dropped are counted too.
+export const httpMetricsMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  const start = process.hrtime.bigint();
+
+  res.on('close', () => {
+    metrics.observeHttpRequest({
+      method: req.method,
+      route: getRoutePattern(req) ?? 'unmatched',
+      status: res.statusCode,
+      tenantId: (res.locals.auth as AuthContext | undefined)?.tenantId
+    }, Number(process.hrtime.bigint() - start) / 1e9);
+  });
+
+  next();
+};
+
+// Export class for testing
+export { Metrics };
@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import { rateLimitConfig, RateLimitConfig } from '../config/environment';
+import { RateLimitOverrides, RateLimitRoute, RateLimitRule } from '../types';
+import { RateLimitError } from './errorHandler';
+import { logger } from './logger';
+import { getRedisClient } from './redisClient';
+
+export interface RateLimitHit {
+  count: number; // Hits in the current window, including this one
+  resetAt: number; // When the window ends, ms since epoch
+}
+
+/**
+ * Fixed-window counters behind RateLimiter
+ * A window starts at a key's first hit and lasts windowSeconds.
+ */
+export interface RateLimitStore {
+  readonly backend: string;
+  hit(key: string, windowSeconds: number): Promise<RateLimitHit>;
+  /** Hits in a key's current window without counting one, or null when it has none */
+  peek(key: string): Promise<RateLimitHit | null>;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process counters (default); limits are per instance and reset on restart
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly backend = 'memory';
+  private windows = new Map<string, RateLimitHit>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    this.sweeper = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowSeconds * 1000 };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return { ...window };
+  }
+
+  async peek(key: string): Promise<RateLimitHit | null> {
+    const window = this.windows.get(key);
+    return window && window.resetAt > Date.now() ? { ...window } : null;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+    this.windows.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Subset of Redis commands used by RedisRateLimitStore
+ * Satisfied by an ioredis client (against Redis or any Redis-protocol server), or by an in-memory fake in tests.
+ */
+export interface RateLimitRedisClient {
+  incr(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  expire(key: string, seconds: number): Promise<number>;
+  pttl(key: string): Promise<number>;
+}
+
+/**
+ * Counters shared by every instance
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly backend = 'redis';
+  private client: RateLimitRedisClient;
+
+  constructor(client: RateLimitRedisClient) {
+    this.client = client;
+  }
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    const count = await this.client.incr(key);
+    let remainingMs = count === 1 ? -1 : await this.client.pttl(key);
+    if (remainingMs < 0) {
+      // First hit, or the expiry was lost (e.g. the process died between INCR and EXPIRE)
+      await this.client.expire(key, windowSeconds);
+      remainingMs = windowSeconds * 1000;
+    }
+    return { count, resetAt: Date.now() + remainingMs };
+  }
+
+  async peek(key: string): Promise<RateLimitHit | null> {
+    const value = await this.client.get(key);
+    const remainingMs = value === null ? -2 : await this.client.pttl(key);
+    return remainingMs > 0 ? { count: Number(value), resetAt: Date.now() + remainingMs } : null;
+  }
+
+  async close(): Promise<void> {
+    // The connection is shared with the other Redis-backed stores, which close it
+  }
+}
+
+/**
+ * Who a request is counted against
+ */
+export interface RateLimitIdentity {
+  tenantKey: string; // Tenant, or BotDojo account for initData callers
+  clientKey: string; // Session token, or IP for requests without a session; hashed before it is stored
+}
+
+/**
+ * Per-route limits for each tenant and each client, and per-IP limits ahead of authentication
+ * Limits are counted per tenant so a clinic behind one NAT is not throttled as a single user, and per client
+ * so one session cannot use up its tenant's budget. A client's budget is the same whatever tenant it names, so
+ * naming a new tenant (or BotDojo account) on each request does not start a fresh one. When the store is
+ * unreachable requests are let through.
+ */
+class RateLimiter {
+  private store: RateLimitStore;
+  private config: RateLimitConfig;
+
+  constructor(store: RateLimitStore, config: RateLimitConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  get backend(): string {
+    return this.store.backend;
+  }
+
+  /**
+   * The rule for a route: server defaults, then tenant overrides
+   */
+  ruleFor(route: RateLimitRoute, overrides?: RateLimitOverrides): RateLimitRule {
+    return { ...this.config.routes[route], ...overrides?.[route] };
+  }
+
+  /**
+   * Every route's rule after tenant overrides
+   */
+  rulesFor(overrides?: RateLimitOverrides): Record<RateLimitRoute, RateLimitRule> {
+    const routes = Object.keys(this.config.routes) as RateLimitRoute[];
+    return Object.fromEntries(routes.map((route) => [route, this.ruleFor(route, overrides)])) as Record<RateLimitRoute, RateLimitRule>;
+  }
+
+  /**
+   * Count a request
+   *
+   * @throws RateLimitError (with retryAfterSeconds) when the tenant or the client is over the route's limit
+   */
+  async consume(route: RateLimitRoute, identity: RateLimitIdentity, overrides?: RateLimitOverrides): Promise<void> {
+    const rule = this.ruleFor(route, overrides);
+    const buckets = [
+      { scope: 'tenant', key: `${this.config.keyPrefix}${route}:${identity.tenantKey}`, max: rule.tenantMax },
+      { scope: 'client', key: `${this.config.keyPrefix}${route}:client=${digest(identity.clientKey)}`, max: rule.clientMax }
+    ].filter((bucket) => bucket.max > 0);
+
+    let retryAfterMs = 0;
+    let exceeded: string | undefined;
+    for (const bucket of buckets) {
+      try {
+        const { count, resetAt } = await this.store.hit(bucket.key, rule.windowSeconds);
+        if (count > bucket.max && resetAt - Date.now() > retryAfterMs) {
+          retryAfterMs = resetAt - Date.now();
+          exceeded = bucket.scope;
+        }
+      } catch (error) {
+        logger.warn('Rate limit store unavailable, allowing request', {
+          route,
+          backend: this.store.backend,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    if (exceeded) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+      throw new RateLimitError(
+        `Too many requests, please try again in ${retryAfterSeconds} seconds`,
+        { route, scope: exceeded, tenantKey: identity.tenantKey },
+        retryAfterSeconds
+      );
+    }
+  }
+
+  /**
+   * Count a request to the API routes against its IP, before it is authenticated
+   * An IP over the failed-authentication limit is turned away too, so guessing tokens or sending
+   * undecryptable initData is throttled before any key work is done.
+   *
+   * @throws RateLimitError (scope "ip" or "auth_failures") when the IP is over a limit
+   */
+  async consumeIp(ip: string): Promise<void> {
+    const { windowSeconds, max, authFailureMax } = this.config.ip;
+    const ipDigest = digest(`ip=${ip}`);
+    try {
+      if (authFailureMax > 0) {
+        const failures = await this.store.peek(`${this.config.keyPrefix}auth-failures:${ipDigest}`);
+        if (failures && failures.count >= authFailureMax) {
+          throw this.ipRejection('auth_failures', failures.resetAt);
+        }
+      }
+      if (max > 0) {
+        const { count, resetAt } = await this.store.hit(`${this.config.keyPrefix}ip:${ipDigest}`, windowSeconds);
+        if (count > max) {
+          throw this.ipRejection('ip', resetAt);
+        }
+      }
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      logger.warn('Rate limit store unavailable, allowing request', {
+        route: 'ip',
+        backend: this.store.backend,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Count a failed authentication (bad token, session or initData) against its IP
+   */
+  async recordAuthFailure(ip: string): Promise<void> {
+    if (this.config.ip.authFailureMax <= 0) {
+      return;
+    }
+    try {
+      await this.store.hit(`${this.config.keyPrefix}auth-failures:${digest(`ip=${ip}`)}`, this.config.ip.windowSeconds);
+    } catch (error) {
+      logger.warn('Rate limit store unavailable, authentication failure not counted', {
+        backend: this.store.backend,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private ipRejection(scope: string, resetAt: number): RateLimitError {
+    const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+    return new RateLimitError(
+      `Too many requests, please try again in ${retryAfterSeconds} seconds`,
+      { route: 'ip', scope },
+      retryAfterSeconds
+    );
+  }
+}
+
+// Client keys (session tokens, IPs) are hashed before they are stored
+function digest(clientKey: string): string {
+  return crypto.createHash('sha256').update(clientKey).digest('hex').substring(0, 32);
+}
+
+/**
+ * Create the rate limit store selected by configuration
+ */
+export function createRateLimitStore(config: RateLimitConfig = rateLimitConfig): RateLimitStore {
+  if (config.backend === 'redis') {
+    if (!config.redisUrl) {
+      throw new Error('RATE_LIMIT_BACKEND=redis requires REDIS_URL');
+    }
+    return new RedisRateLimitStore(getRedisClient(config.redisUrl));
+  }
+  return new MemoryRateLimitStore();
+}
+
+// Create singleton instance
+export const rateLimiter = new RateLimiter(createRateLimitStore(), rateLimitConfig);
+
+// Export class for testing
+export { RateLimiter };
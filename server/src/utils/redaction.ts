@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { redactionConfig, RedactionConfig, RedactionType } from '../config/environment';
+import { ConversationTurn } from '../types';
+import { logger } from './logger';
+
+/**
+ * PII redaction
+ *
+ * Chat messages are redacted before they are logged, cached, remembered or sent to BotDojo. Each value found is
+ * replaced by a placeholder such as [EMAIL_3F9A1C] whose id is a keyed hash of the value: the same value gets the
+ * same placeholder in every turn, so server-held history stays consistent, while the placeholder itself reveals nothing.
+ */
+
+interface RedactionRule {
+  label: string;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+// Placeholders issued by a session, and an unfinished one at the end of a streamed snapshot
+const PLACEHOLDER_PATTERN = /\[([A-Z][A-Z0-9]*)_([0-9A-F]{6})\]/g;
+const PARTIAL_PLACEHOLDER_PATTERN = /\[[A-Z0-9_]*$/;
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+const BUILT_IN_RULES: Record<RedactionType, RedactionRule> = {
+  email: {
+    label: 'EMAIL',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+  },
+  // 12/03/1985, 1985-03-12, 12 March 1985, March 12th, 1985; textual dates need a year to be treated as PII
+  date: {
+    label: 'DATE',
+    pattern: new RegExp(
+      `\\b(?:\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}|(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4})\\b`,
+      'gi'
+    )
+  },
+  // International or local numbers with spaces, dots, dashes or parentheses; doses and quantities are too short to match
+  phone: {
+    label: 'PHONE',
+    pattern: /(?<![\w+])\+?\(?\d[\d\s().-]{5,}\d(?!\w)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    }
+  }
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive match of any listed name (longest first, so "Jane Doe" wins over "Jane")
+function buildNamesRule(names: string[]): RedactionRule | null {
+  const unique = [...new Set(names.map((name) => name.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (unique.length === 0) {
+    return null;
+  }
+  const alternatives = unique.map((name) => escapeRegExp(name).replace(/\s+/g, '\\s+')).join('|');
+  return { label: 'NAME', pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu') };
+}
+
+/**
+ * Redaction state for one request
+ * Remembers the values it replaced so placeholders in the answer can be turned back into them for the widget;
+ * placeholders it did not issue (e.g. from turns only the server remembers) are left as they are.
+ */
+export class RedactionSession {
+  private rules: RedactionRule[];
+  private secret: Buffer;
+  private restoreValues: boolean;
+  private values = new Map<string, string>();
+
+  constructor(rules: RedactionRule[], secret: Buffer, restoreValues: boolean) {
+    this.rules = rules;
+    this.secret = secret;
+    this.restoreValues = restoreValues;
+  }
+
+  /**
+   * Replace PII in text with placeholders
+   */
+  redact(text: string): string {
+    return this.rules.reduce((current, rule) => current.replace(rule.pattern, (match) => {
+      if (rule.accept && !rule.accept(match)) {
+        return match;
+      }
+      const placeholder = this.placeholderFor(rule.label, match);
+      if (!this.values.has(placeholder)) {
+        this.values.set(placeholder, match);
+      }
+      return placeholder;
+    }), text);
+  }
+
+  /**
+   * Redact the content of conversation turns
+   */
+  redactTurns(turns: ConversationTurn[]): ConversationTurn[] {
+    return turns.map((turn) => typeof turn?.content === 'string' ? { ...turn, content: this.redact(turn.content) } : turn);
+  }
+
+  /**
+   * Put the original values back in place of this session's placeholders
+   *
+   * @param text - Answer text (or a streamed snapshot of it)
+   * @param partial - The text is a streamed snapshot: hold back a placeholder cut off at its end until the next snapshot
+   */
+  restore(text: string, partial: boolean = false): string {
+    if (!this.restoreValues || this.values.size === 0) {
+      return text;
+    }
+    const restored = text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.values.get(placeholder) ?? placeholder);
+    return partial ? restored.replace(PARTIAL_PLACEHOLDER_PATTERN, '') : restored;
+  }
+
+  /**
+   * Number of distinct values redacted so far
+   */
+  get redactedCount(): number {
+    return this.values.size;
+  }
+
+  private placeholderFor(label: string, value: string): string {
+    const normalized = value.toLowerCase().replace(/\s+/g, ' ');
+    const id = crypto.createHmac('sha256', this.secret).update(`${label}:${normalized}`).digest('hex').slice(0, 6).toUpperCase();
+    return `[${label}_${id}]`;
+  }
+}
+
+/**
+ * Builds redaction sessions from the configured detectors, names file and custom patterns
+ */
+class Redactor {
+  private config: RedactionConfig;
+  private secret: Buffer;
+  private customRules: RedactionRule[];
+  private fileNames: string[] = [];
+  private loadedMtimeMs = 0;
+
+  constructor(config: RedactionConfig) {
+    this.config = config;
+    this.secret = config.secret ? Buffer.from(config.secret) : crypto.randomBytes(32);
+    this.customRules = Object.entries(config.patterns).map(([label, source]) => ({
+      label: label.toUpperCase().replace(/[^A-Z0-9]/g, '') || 'PII',
+      pattern: new RegExp(source, 'gi')
+    }));
+    if (config.enabled && config.namesFile) {
+      this.reloadNamesIfChanged();
+    }
+  }
+
+  /**
+   * Start redacting a request
+   *
+   * @param extraNames - Names to redact on top of the names file (sent by the widget)
+   */
+  createSession(extraNames: string[] = []): RedactionSession {
+    if (!this.config.enabled) {
+      return new RedactionSession([], this.secret, false);
+    }
+    if (this.config.namesFile) {
+      this.reloadNamesIfChanged();
+    }
+
+    // Custom patterns first, then emails before names so an address stays one placeholder, and dates before phone numbers
+    const rules = [...this.customRules];
+    if (this.config.types.includes('email')) {
+      rules.push(BUILT_IN_RULES.email);
+    }
+    const namesRule = buildNamesRule([...this.fileNames, ...extraNames]);
+    if (namesRule) {
+      rules.push(namesRule);
+    }
+    if (this.config.types.includes('date')) {
+      rules.push(BUILT_IN_RULES.date);
+    }
+    if (this.config.types.includes('phone')) {
+      rules.push(BUILT_IN_RULES.phone);
+    }
+    return new RedactionSession(rules, this.secret, this.config.restore);
+  }
+
+  private reloadNamesIfChanged(): void {
+    const filePath = this.config.namesFile!;
+    try {
+      const { mtimeMs } = fs.statSync(filePath);
+      if (mtimeMs === this.loadedMtimeMs) {
+        return;
+      }
+      this.fileNames = fs.readFileSync(filePath, 'utf8').split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+      this.loadedMtimeMs = mtimeMs;
+      logger.info('Redaction names loaded', { file: filePath, names: this.fileNames.length });
+    } catch (error) {
+      // Keep redacting with the last good list rather than letting names through
+      if (this.loadedMtimeMs === 0) {
+        throw error;
+      }
+      logger.error('Failed to reload redaction names, keeping previous list', {
+        file: filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+// Create singleton instance
+export const redactor = new Redactor(redactionConfig);
+
+// Export class for testing
+export { Redactor };
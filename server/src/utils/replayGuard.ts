@@ -0,0 +1,195 @@
+import NodeCache from 'node-cache';
+import { replayProtectionConfig, ReplayProtectionConfig } from '../config/environment';
+import { AuthenticationError, ServiceUnavailableError } from './errorHandler';
+import { getRedisClient } from './redisClient';
+import { logger } from './logger';
+
+// Expired nonces are removed (and their slots freed) this often, in seconds; a full store asks clients to retry after it
+const CHECK_PERIOD_SECONDS = 60;
+
+// Retry-After while the shared nonce store is unreachable
+const STORE_UNAVAILABLE_RETRY_SECONDS = 5;
+
+/**
+ * Pluggable store of nonces that have already been accepted
+ * Use the Redis store when running several instances, so a payload accepted by one is refused by the others.
+ */
+export interface NonceStore {
+  /**
+   * Record a nonce if it has not been seen before
+   *
+   * @param nonce - Nonce from the decrypted payload
+   * @param ttlSeconds - How long the nonce must be remembered
+   * @returns true if the nonce is new, false if it was already used
+   */
+  checkAndStore(nonce: string, ttlSeconds: number): Promise<boolean>;
+}
+
+/**
+ * In-memory nonce store (single instance deployments and tests)
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private store: NodeCache;
+
+  constructor(maxKeys: number = 100000) {
+    this.store = new NodeCache({ checkperiod: CHECK_PERIOD_SECONDS, useClones: false, maxKeys });
+  }
+
+  /**
+   * @throws ServiceUnavailableError if the store holds its maximum number of nonces
+   */
+  async checkAndStore(nonce: string, ttlSeconds: number): Promise<boolean> {
+    if (this.store.has(nonce)) {
+      return false;
+    }
+    try {
+      this.store.set(nonce, true, ttlSeconds);
+    } catch (error) {
+      if ((error as Error).name === 'ECACHEFULL') {
+        throw new ServiceUnavailableError('Too many encrypted initData payloads, try again later', undefined, CHECK_PERIOD_SECONDS);
+      }
+      throw error;
+    }
+    return true;
+  }
+
+  close(): void {
+    this.store.close();
+  }
+}
+
+/**
+ * Subset of the Redis client used for nonces (ioredis, or a fake in tests)
+ */
+export interface NonceRedisClient {
+  set(key: string, value: string, expiryMode: 'EX', seconds: number, setMode: 'NX'): Promise<'OK' | null>;
+}
+
+/**
+ * Nonces shared by every instance (SET NX EX)
+ */
+export class RedisNonceStore implements NonceStore {
+  private client: NonceRedisClient;
+  private keyPrefix: string;
+
+  constructor(client: NonceRedisClient, keyPrefix: string = 'chatbot:nonce:') {
+    this.client = client;
+    this.keyPrefix = keyPrefix;
+  }
+
+  /**
+   * @throws ServiceUnavailableError if Redis can't be reached; a nonce that can't be checked is not accepted
+   */
+  async checkAndStore(nonce: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      return await this.client.set(`${this.keyPrefix}${nonce}`, '1', 'EX', ttlSeconds, 'NX') === 'OK';
+    } catch (error) {
+      logger.error('Nonce store unavailable', { error: error instanceof Error ? error.message : 'Unknown error' });
+      throw new ServiceUnavailableError('Cannot verify encrypted initData right now, try again later', undefined, STORE_UNAVAILABLE_RETRY_SECONDS);
+    }
+  }
+}
+
+/**
+ * Envelope the client wraps around initData before encrypting it
+ */
+interface ProtectedPayload {
+  iat: number; // Issued-at, seconds since epoch
+  nonce: string;
+  payload: string;
+}
+
+function isProtectedPayload(value: unknown): value is ProtectedPayload {
+  const candidate = value as ProtectedPayload;
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.nonce === 'string' &&
+    typeof candidate.payload === 'string';
+}
+
+/**
+ * Rejects decrypted payloads that are stale or whose nonce has already been used,
+ * so a captured initData blob cannot be replayed
+ */
+class ReplayGuard {
+  private store: NonceStore;
+  private config: ReplayProtectionConfig;
+
+  constructor(store: NonceStore, config: ReplayProtectionConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  /**
+   * Replace the nonce store (e.g. with a shared implementation)
+   */
+  setStore(store: NonceStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Verify a decrypted payload and unwrap it
+   *
+   * @param plaintext - Output of decryptData
+   * @returns The original payload
+   * @throws AuthenticationError if the payload is unprotected, stale, from the future or replayed
+   */
+  async open(plaintext: string): Promise<string> {
+    let envelope: unknown;
+    try {
+      envelope = JSON.parse(plaintext);
+    } catch {
+      envelope = null;
+    }
+
+    if (!isProtectedPayload(envelope)) {
+      if (this.config.allowUnprotected) {
+        return plaintext;
+      }
+      throw new AuthenticationError('Encrypted initData must include iat and nonce');
+    }
+
+    const { iat, nonce, payload } = envelope;
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.config.clockToleranceSeconds;
+
+    if (typeof iat !== 'number' || !Number.isFinite(iat)) {
+      throw new AuthenticationError('Encrypted initData must include iat and nonce');
+    }
+    if (iat - tolerance > now) {
+      throw new AuthenticationError('Encrypted initData was issued in the future');
+    }
+    if (iat + this.config.maxAgeSeconds + tolerance < now) {
+      throw new AuthenticationError('Encrypted initData has expired');
+    }
+    if (nonce.length < 16 || nonce.length > 128) {
+      throw new AuthenticationError('Invalid initData nonce');
+    }
+
+    // Nonces only need remembering while their payload could still pass the age check
+    const isNew = await this.store.checkAndStore(nonce, this.config.maxAgeSeconds + tolerance * 2);
+    if (!isNew) {
+      throw new AuthenticationError('Encrypted initData has already been used');
+    }
+
+    return payload;
+  }
+}
+
+/**
+ * Create the nonce store selected by configuration
+ */
+export function createNonceStore(config: ReplayProtectionConfig = replayProtectionConfig): NonceStore {
+  if (config.backend === 'redis') {
+    if (!config.redisUrl) {
+      throw new Error('REPLAY_NONCE_BACKEND=redis requires REDIS_URL');
+    }
+    return new RedisNonceStore(getRedisClient(config.redisUrl), config.keyPrefix);
+  }
+  return new InMemoryNonceStore(config.maxNonces);
+}
+
+// Create singleton instance
+export const replayGuard = new ReplayGuard(createNonceStore(), replayProtectionConfig);
+
+// Export class for testing
+export { ReplayGuard };
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import NodeCache from 'node-cache';
+import { RequestConfig } from '../types';
+import { sessionConfig, SessionConfig } from '../config/environment';
+import { AuthenticationError, RateLimitError, ServiceUnavailableError } from './errorHandler';
+import { tenantKeyPrefix } from './cacheManager';
+
+// Expired sessions are removed (and their slots freed) this often, in seconds; full stores ask clients to retry after it
+const CHECK_PERIOD_SECONDS = 120;
+
+export interface Session {
+  config: RequestConfig;
+  subject?: string; // sub claim of the token the session was created with (the practitioner)
+  owner: string; // Tenant (or BotDojo account) the session counts against
+  createdAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+}
+
+export interface CreatedSession {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Server-side sessions created by the /session handshake.
+ * The widget sends its credentials (encrypted initData or a tenant token) once and
+ * then authenticates every chat request with an opaque token, so the server no longer
+ * runs RSA-OAEP on each call and the credentials are not repeated on the wire.
+ */
+class SessionStore {
+  private store: NodeCache;
+  private config: SessionConfig;
+  private sessionsPerOwner = new Map<string, number>();
+
+  constructor(config: SessionConfig = {
+    ttlSeconds: 1800, // 30 minutes
+    maxSessions: 10000,
+    maxSessionsPerTenant: 2500
+  }) {
+    this.config = config;
+    this.store = new NodeCache({
+      stdTTL: config.ttlSeconds,
+      checkperiod: CHECK_PERIOD_SECONDS,
+      useClones: false,
+      maxKeys: config.maxSessions
+    });
+    // Fired for revoked and expired sessions alike
+    this.store.on('del', (_key: string, session: Session) => this.release(session.owner));
+  }
+
+  get ttlSeconds(): number {
+    return this.config.ttlSeconds;
+  }
+
+  /**
+   * Create a session for a resolved request configuration
+   *
+   * @param config - Credentials resolved from initData or the tenant registry
+   * @param subject - Who the credentials were issued to, when the token said
+   * @returns Opaque session token and its expiry (ms since epoch)
+   * @throws RateLimitError if the tenant holds its maximum number of sessions
+   * @throws ServiceUnavailableError if the session store is full
+   */
+  create(config: RequestConfig, subject?: string): CreatedSession {
+    const owner = tenantKeyPrefix({ tenantId: config.TENANT_ID, accountId: config.BOTDOJO_ACCOUNT_ID ?? '' });
+    const ownerSessions = this.sessionsPerOwner.get(owner) ?? 0;
+    if (ownerSessions >= this.config.maxSessionsPerTenant) {
+      throw new RateLimitError('Too many open sessions for this tenant', { tenantId: config.TENANT_ID, route: 'session' }, CHECK_PERIOD_SECONDS);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const session: Session = {
+      config,
+      subject,
+      owner,
+      createdAt: now,
+      expiresAt: now + this.config.ttlSeconds * 1000
+    };
+
+    // Only a hash of the token is used as the key, so a dump of the store cannot be replayed
+    try {
+      this.store.set(this.hashToken(token), session);
+    } catch (error) {
+      if ((error as Error).name === 'ECACHEFULL') {
+        throw new ServiceUnavailableError('Too many open sessions, try again later', { maxSessions: this.config.maxSessions }, CHECK_PERIOD_SECONDS);
+      }
+      throw error;
+    }
+    this.sessionsPerOwner.set(owner, ownerSessions + 1);
+
+    return { token, expiresAt: session.expiresAt };
+  }
+
+  /**
+   * Look up the configuration for a session token
+   *
+   * @throws AuthenticationError if the token is unknown or expired
+   */
+  resolve(token: string): RequestConfig {
+    return this.resolveSession(token).config;
+  }
+
+  /**
+   * Look up the session for a session token
+   *
+   * @throws AuthenticationError if the token is unknown or expired
+   */
+  resolveSession(token: string): Session {
+    const session = this.store.get<Session>(this.hashToken(token));
+    if (!session || session.expiresAt <= Date.now()) {
+      throw new AuthenticationError('Session expired or invalid', undefined, 'session_invalid');
+    }
+    return session;
+  }
+
+  /**
+   * End a session before it expires
+   */
+  revoke(token: string): boolean {
+    return this.store.del(this.hashToken(token)) > 0;
+  }
+
+  /**
+   * Number of live sessions
+   */
+  size(): number {
+    return this.store.keys().length;
+  }
+
+  /**
+   * Close session store and cleanup
+   */
+  close(): void {
+    this.store.close();
+  }
+
+  private release(owner: string): void {
+    const ownerSessions = (this.sessionsPerOwner.get(owner) ?? 0) - 1;
+    if (ownerSessions > 0) {
+      this.sessionsPerOwner.set(owner, ownerSessions);
+    } else {
+      this.sessionsPerOwner.delete(owner);
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Create singleton instance
+export const sessionStore = new SessionStore(sessionConfig);
+
+// Export class for testing
+export { SessionStore };
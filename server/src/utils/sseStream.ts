@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import { metrics } from './metrics';
+
+/**
+ * Server-sent events writer for one response
+ * Every event is written as `event: <type>` followed by a JSON `data:` line that repeats the type,
+ * so clients can dispatch on either.
+ */
+class SseStream<TEvent extends { type: string }> {
+  private res: Response;
+  private tenantId?: string;
+  private heartbeat?: NodeJS.Timeout;
+
+  /**
+   * @param tenantId - Tenant the stream is for, to label the open connections metric
+   */
+  constructor(res: Response, tenantId?: string) {
+    this.res = res;
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Send the event-stream headers right away so proxies don't buffer the response
+   *
+   * @param heartbeatMs - Interval of keep-alive comments, so proxies don't drop the stream while a flow is busy (0 disables)
+   */
+  open(heartbeatMs: number = 0): void {
+    this.res.setHeader('Content-Type', 'text/event-stream');
+    this.res.setHeader('Cache-Control', 'no-cache');
+    this.res.setHeader('Connection', 'keep-alive');
+    this.res.setHeader('X-Accel-Buffering', 'no');
+    this.res.flushHeaders();
+    this.res.on('close', metrics.sseConnectionOpened(this.tenantId));
+
+    if (heartbeatMs > 0) {
+      this.heartbeat = setInterval(() => this.write(': heartbeat\n\n'), heartbeatMs);
+      this.res.on('close', () => clearInterval(this.heartbeat));
+    }
+  }
+
+  /**
+   * Whether the response has ended or the client has gone away
+   */
+  get closed(): boolean {
+    return this.res.writableEnded || this.res.destroyed;
+  }
+
+  /**
+   * Write one event; ignored once the stream is closed
+   *
+   * @param id - Event id, echoed back by reconnecting clients as Last-Event-ID
+   * @returns Whether the event was written
+   */
+  send(event: TEvent, id?: string): boolean {
+    const idLine = id ? `id: ${id}\n` : '';
+    return this.write(`${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  /**
+   * Write a data-only message (the format of the /text-suggQ and /products streams)
+   */
+  sendData(data: unknown): boolean {
+    return this.write(`data: ${JSON.stringify(data)}\n\n`);
+  }
+
+  end(): void {
+    clearInterval(this.heartbeat);
+    if (!this.closed) {
+      this.res.end();
+    }
+  }
+
+  private write(chunk: string): boolean {
+    if (this.closed) {
+      return false;
+    }
+    this.res.write(chunk);
+    // compression() buffers writes unless flushed
+    const flushable = this.res as Response & { flush?: () => void };
+    if (typeof flushable.flush === 'function') flushable.flush();
+    return true;
+  }
+}
+
+/**
+ * Turn two successive text snapshots into an appendable delta
+ * Snapshots normally only grow; when one doesn't (e.g. a partial separator was trimmed) the whole text is resent with reset.
+ */
+export function textDelta(previous: string, next: string): { delta: string; reset?: boolean } | null {
+  if (next === previous) {
+    return null;
+  }
+  if (next.startsWith(previous)) {
+    return { delta: next.substring(previous.length) };
+  }
+  return { delta: next, reset: true };
+}
+
+// Export class for testing
+export { SseStream };
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import { streamConfig, StreamConfig } from '../config/environment';
+import { ChatStreamEvent } from '../types';
+import { logger } from './logger';
+
+export interface BufferedEvent<TEvent> {
+  seq: number; // 1-based position in the stream
+  event: TEvent;
+}
+
+export interface StreamSubscriber<TEvent> {
+  onEvent(entry: BufferedEvent<TEvent>): void;
+  onEnd(): void;
+}
+
+/**
+ * Format an SSE event id: `<streamId>:<seq>`, so Last-Event-ID alone identifies the stream and position
+ */
+export function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}:${seq}`;
+}
+
+/**
+ * Parse a Last-Event-ID header produced by formatEventId
+ */
+export function parseEventId(value: string): { streamId: string; seq: number } | null {
+  const separator = value.lastIndexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+  const seq = Number(value.substring(separator + 1));
+  if (!Number.isInteger(seq) || seq < 0) {
+    return null;
+  }
+  return { streamId: value.substring(0, separator), seq };
+}
+
+/**
+ * One streamed response, decoupled from the HTTP connection that started it
+ * - events are buffered (up to replayMaxEvents) so a client that dropped can resume after its last event id
+ * - the producing work keeps running while no client is attached, for up to resumeGraceMs, then is cancelled via signal;
+ *   if no client was ever sent an event, none holds an event id to resume from, so it is cancelled as soon as the last one leaves
+ * - once finished, the buffer stays resumable for replayTtlMs
+ */
+class ResumableStream<TEvent> {
+  readonly id: string;
+  readonly owner: string; // Tenant key of the caller; resumes from anyone else are refused
+  private config: StreamConfig;
+  private onExpire: () => void;
+  private controller = new AbortController();
+  private events: BufferedEvent<TEvent>[] = [];
+  private nextSeq = 1;
+  private delivered = false; // Whether any client has been sent an event
+  private finished = false;
+  private subscribers = new Set<StreamSubscriber<TEvent>>();
+  private graceTimer?: NodeJS.Timeout;
+
+  constructor(id: string, owner: string, config: StreamConfig, onExpire: () => void) {
+    this.id = id;
+    this.owner = owner;
+    this.config = config;
+    this.onExpire = onExpire;
+  }
+
+  /**
+   * Aborted when the stream is cancelled or abandoned; pass it to the upstream calls
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Buffer an event and forward it to attached clients
+   */
+  push(event: TEvent): void {
+    if (this.finished) {
+      return;
+    }
+    const entry = { seq: this.nextSeq++, event };
+    this.events.push(entry);
+    if (this.events.length > this.config.replayMaxEvents) {
+      this.events.shift();
+    }
+    this.subscribers.forEach((subscriber) => subscriber.onEvent(entry));
+    this.delivered ||= this.subscribers.size > 0;
+  }
+
+  /**
+   * Mark the stream complete; attached clients are ended and the buffer expires after replayTtlMs
+   */
+  finish(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    clearTimeout(this.graceTimer);
+    this.subscribers.forEach((subscriber) => subscriber.onEnd());
+    this.subscribers.clear();
+    setTimeout(this.onExpire, this.config.replayTtlMs).unref();
+  }
+
+  /**
+   * Stop the producing work (e.g. the user pressed stop) and finish the stream
+   */
+  cancel(): void {
+    this.controller.abort();
+    this.finish();
+  }
+
+  /**
+   * Whether every event after afterSeq is still buffered
+   */
+  canResume(afterSeq: number): boolean {
+    const oldestSeq = this.events.length > 0 ? this.events[0].seq : this.nextSeq;
+    return afterSeq + 1 >= oldestSeq && afterSeq < this.nextSeq;
+  }
+
+  /**
+   * Attach a client: replays the buffered events after afterSeq, then forwards live events until the stream finishes
+   * Check canResume first.
+   *
+   * @returns Detach function; when the last client detaches from an unfinished stream, the grace period starts
+   */
+  attach(afterSeq: number, subscriber: StreamSubscriber<TEvent>): () => void {
+    clearTimeout(this.graceTimer);
+    const replay = this.events.filter((entry) => entry.seq > afterSeq);
+    replay.forEach((entry) => subscriber.onEvent(entry));
+    this.delivered ||= replay.length > 0;
+
+    if (this.finished) {
+      subscriber.onEnd();
+      return () => {};
+    }
+
+    this.subscribers.add(subscriber);
+    return () => {
+      if (!this.subscribers.delete(subscriber) || this.subscribers.size > 0 || this.finished) {
+        return;
+      }
+      if (!this.delivered) {
+        // e.g. the user pressed stop before the response headers (and X-Stream-Id) arrived
+        logger.info('Stream left before its first event, cancelling', { streamId: this.id });
+        this.cancel();
+        return;
+      }
+      this.graceTimer = setTimeout(() => {
+        logger.info('Stream abandoned, cancelling', { streamId: this.id });
+        this.cancel();
+      }, this.config.resumeGraceMs).unref();
+    };
+  }
+}
+
+/**
+ * Live and recently finished streams of this instance, by id
+ * Resume only works on the instance that holds the stream, so load balancers need sticky sessions for it.
+ */
+class StreamRegistry<TEvent> {
+  private streams = new Map<string, ResumableStream<TEvent>>();
+  private config: StreamConfig;
+
+  constructor(config: StreamConfig) {
+    this.config = config;
+  }
+
+  create(owner: string): ResumableStream<TEvent> {
+    const id = crypto.randomBytes(16).toString('base64url');
+    const stream = new ResumableStream<TEvent>(id, owner, this.config, () => this.streams.delete(id));
+    this.streams.set(id, stream);
+    return stream;
+  }
+
+  get(id: string): ResumableStream<TEvent> | undefined {
+    return this.streams.get(id);
+  }
+
+  size(): number {
+    return this.streams.size;
+  }
+}
+
+// Create singleton instance
+export const chatStreams = new StreamRegistry<ChatStreamEvent>(streamConfig);
+
+// Export classes for testing
+export { ResumableStream, StreamRegistry };
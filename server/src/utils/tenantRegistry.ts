@@ -0,0 +1,266 @@
+import fs from 'fs';
+import { TenantConfig, RequestConfig } from '../types';
+import { tenantRegistryConfig } from '../config/environment';
+import { AuthenticationError, NotFoundError, ValidationError } from './errorHandler';
+import { verifyTenantToken, TenantTokenClaims } from './tenantToken';
+import { FileJwksKeySet, JwtKeys } from './jwt';
+import { logger } from './logger';
+
+/**
+ * Pluggable source of tenant configuration
+ * Implement this to back the registry with a database or secrets manager.
+ */
+export interface TenantStore {
+  getTenant(tenantId: string): Promise<TenantConfig | undefined>;
+  listTenantIds(): Promise<string[]>;
+}
+
+const REQUIRED_TENANT_FIELDS: Array<keyof TenantConfig> = [
+  'BOTDOJO_API_KEY',
+  'BOTDOJO_BASE_URL',
+  'BOTDOJO_ACCOUNT_ID',
+  'BOTDOJO_PROJECT_ID',
+  'BOTDOJO_TEXT_FLOW_ID',
+  'BOTDOJO_PRODUCTS_FLOW_ID'
+];
+
+/**
+ * Replace ${VAR} references with environment values so registry files
+ * can be committed without the secrets themselves
+ */
+function expandEnv(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Z0-9_]+)\}/g, (_match, name: string) => process.env[name] ?? '');
+  }
+  return value;
+}
+
+/**
+ * Validate and normalize raw tenant entries
+ */
+function parseTenants(raw: Record<string, Record<string, unknown>>): Map<string, TenantConfig> {
+  const tenants = new Map<string, TenantConfig>();
+
+  for (const [tenantId, entry] of Object.entries(raw)) {
+    const expanded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(entry ?? {})) {
+      expanded[key] = expandEnv(value);
+    }
+
+    const missing = REQUIRED_TENANT_FIELDS.filter((field) => !expanded[field]);
+    if (missing.length > 0) {
+      throw new Error(`Tenant "${tenantId}" is missing required fields: ${missing.join(', ')}`);
+    }
+    if (!expanded.tokenSecret && !expanded.jwksFile) {
+      throw new Error(`Tenant "${tenantId}" needs a tokenSecret or a jwksFile to verify its tokens`);
+    }
+    if (expanded.allowedOrigins !== undefined &&
+      (!Array.isArray(expanded.allowedOrigins) || expanded.allowedOrigins.some((origin) => typeof origin !== 'string'))) {
+      throw new Error(`Tenant "${tenantId}" allowedOrigins must be an array of origins`);
+    }
+
+    tenants.set(tenantId, expanded as unknown as TenantConfig);
+  }
+
+  return tenants;
+}
+
+/**
+ * In-memory tenant store (programmatic registration and tests)
+ */
+export class InMemoryTenantStore implements TenantStore {
+  private tenants: Map<string, TenantConfig>;
+
+  constructor(tenants: Record<string, TenantConfig> = {}) {
+    this.tenants = parseTenants(tenants as unknown as Record<string, Record<string, unknown>>);
+  }
+
+  async getTenant(tenantId: string): Promise<TenantConfig | undefined> {
+    return this.tenants.get(tenantId);
+  }
+
+  async listTenantIds(): Promise<string[]> {
+    return [...this.tenants.keys()];
+  }
+}
+
+/**
+ * JSON file tenant store
+ * File format: { "tenants": { "<tenantId>": { "tokenSecret": "...", "allowedOrigins": ["https://clinic-a.example"], "BOTDOJO_API_KEY": "${CLINIC_A_KEY}", ... } } }
+ * The file is re-read when its modification time changes, so tenants can be added without a restart.
+ */
+export class FileTenantStore implements TenantStore {
+  private filePath: string;
+  private tenants = new Map<string, TenantConfig>();
+  private loadedMtimeMs = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.reloadIfChanged();
+  }
+
+  async getTenant(tenantId: string): Promise<TenantConfig | undefined> {
+    this.reloadIfChanged();
+    return this.tenants.get(tenantId);
+  }
+
+  async listTenantIds(): Promise<string[]> {
+    this.reloadIfChanged();
+    return [...this.tenants.keys()];
+  }
+
+  private reloadIfChanged(): void {
+    try {
+      const { mtimeMs } = fs.statSync(this.filePath);
+      if (mtimeMs === this.loadedMtimeMs) {
+        return;
+      }
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.tenants = parseTenants(raw?.tenants ?? {});
+      this.loadedMtimeMs = mtimeMs;
+      logger.info('Tenant registry loaded', { file: this.filePath, tenants: this.tenants.size });
+    } catch (error) {
+      // Keep serving the last good registry rather than locking every tenant out
+      if (this.loadedMtimeMs === 0) {
+        throw error;
+      }
+      logger.error('Failed to reload tenant registry, keeping previous version', {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+/**
+ * Resolves tenant credentials for a request after verifying its tenant token
+ */
+class TenantRegistry {
+  private store: TenantStore | null;
+  private tokenMaxAgeSeconds: number;
+  private jwks = new Map<string, FileJwksKeySet>();
+
+  constructor(store: TenantStore | null, tokenMaxAgeSeconds: number) {
+    this.store = store;
+    this.tokenMaxAgeSeconds = tokenMaxAgeSeconds;
+  }
+
+  /**
+   * Replace the backing store (e.g. with a database-backed implementation)
+   */
+  setStore(store: TenantStore | null): void {
+    this.store = store;
+  }
+
+  isEnabled(): boolean {
+    return this.store !== null;
+  }
+
+  /**
+   * Look up a tenant and verify the token presented for it
+   *
+   * @param tenantId - Tenant id sent by the widget
+   * @param token - Tenant token from the Authorization header
+   * @returns Request configuration (token secret stripped) and verified token claims
+   * @throws AuthenticationError / ValidationError
+   */
+  async resolve(tenantId: string, token: string | undefined): Promise<{ config: RequestConfig; claims: TenantTokenClaims }> {
+    if (!this.store) {
+      throw new ValidationError('Tenant registry is not configured on this server');
+    }
+    if (!token) {
+      throw new AuthenticationError('Tenant token is required');
+    }
+
+    const tenant = await this.store.getTenant(tenantId);
+    if (!tenant) {
+      // Same error as a bad token so tenant ids cannot be enumerated
+      throw new AuthenticationError('Invalid tenant or tenant token');
+    }
+
+    const claims = verifyTenantToken(token, this.keysFor(tenant), {
+      tenantId,
+      maxAgeSeconds: this.tokenMaxAgeSeconds
+    });
+
+    return { config: this.toRequestConfig(tenantId, tenant), claims };
+  }
+
+  /**
+   * Look up a tenant's request configuration without a tenant token (admin callers only)
+   *
+   * @throws NotFoundError if the tenant is not registered
+   */
+  async getRequestConfig(tenantId: string): Promise<RequestConfig> {
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      throw new NotFoundError(`Tenant not found: ${tenantId}`);
+    }
+    return this.toRequestConfig(tenantId, tenant);
+  }
+
+  /**
+   * Raw registry entry, including its secrets (admin callers only)
+   */
+  async getTenant(tenantId: string): Promise<TenantConfig | undefined> {
+    return this.store ? this.store.getTenant(tenantId) : undefined;
+  }
+
+  /**
+   * Browser origins allowed for a tenant
+   *
+   * @returns The tenant's allowedOrigins, or undefined when it has none (or is unknown)
+   */
+  async getAllowedOrigins(tenantId: string): Promise<string[] | undefined> {
+    const tenant = await this.getTenant(tenantId);
+    return tenant?.allowedOrigins?.length ? tenant.allowedOrigins : undefined;
+  }
+
+  /**
+   * Every origin allowed by some tenant (for CORS preflights, which do not say which tenant they are for)
+   */
+  async listAllowedOrigins(): Promise<string[]> {
+    const origins = new Set<string>();
+    for (const tenantId of await this.listTenantIds()) {
+      const allowed = await this.getAllowedOrigins(tenantId);
+      allowed?.forEach((origin) => origins.add(origin));
+    }
+    return [...origins];
+  }
+
+  /**
+   * List registered tenant ids (for admin/debugging)
+   */
+  async listTenantIds(): Promise<string[]> {
+    return this.store ? this.store.listTenantIds() : [];
+  }
+
+  private toRequestConfig(tenantId: string, tenant: TenantConfig): RequestConfig {
+    const config: RequestConfig & Partial<Pick<TenantConfig, 'tokenSecret' | 'jwksFile' | 'allowedOrigins'>> = { ...tenant, TENANT_ID: tenantId };
+    delete config.tokenSecret;
+    delete config.jwksFile;
+    delete config.allowedOrigins;
+    return config;
+  }
+
+  private keysFor(tenant: TenantConfig): JwtKeys {
+    let jwks: FileJwksKeySet | undefined;
+    if (tenant.jwksFile) {
+      jwks = this.jwks.get(tenant.jwksFile);
+      if (!jwks) {
+        jwks = new FileJwksKeySet(tenant.jwksFile);
+        this.jwks.set(tenant.jwksFile, jwks);
+      }
+    }
+    return { secret: tenant.tokenSecret, jwks };
+  }
+}
+
+// Create singleton instance
+export const tenantRegistry = new TenantRegistry(
+  tenantRegistryConfig.registryFile ? new FileTenantStore(tenantRegistryConfig.registryFile) : null,
+  tenantRegistryConfig.tokenMaxAgeSeconds
+);
+
+// Export class for testing
+export { TenantRegistry };
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { AuthenticationError } from './errorHandler';
+import { verifyJwt, JwtKeys } from './jwt';
+
+/**
+ * Short-lived tenant tokens
+ *
+ * Host applications hold the tenant's token secret on their own backend and mint
+ * a compact HS256 JWT for the widget (or sign with their own key pair, published to
+ * the server as a JWKS file). The widget only ever sees the token, never
+ * the BotDojo or catalog credentials resolved from the tenant registry.
+ *
+ * Claims:
+ * - tid: tenant id (must match the tenant the request is made for)
+ * - sub: optional practitioner / user id
+ * - iat, exp: issue and expiry time in seconds since epoch
+ */
+
+export interface TenantTokenClaims {
+  tid: string;
+  sub?: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export interface VerifyTenantTokenOptions {
+  tenantId: string;
+  maxAgeSeconds: number; // Longest lifetime (exp - iat) accepted for a token
+  clockToleranceSeconds?: number;
+}
+
+function base64UrlEncode(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Mint a tenant token (used by host backends, scripts and tests)
+ *
+ * @param claims - Token claims; iat/exp default to now and now + ttlSeconds
+ * @param secret - Tenant token secret from the registry
+ * @param ttlSeconds - Token lifetime in seconds
+ * @returns Compact HS256 JWT
+ */
+export function signTenantToken(
+  claims: Omit<TenantTokenClaims, 'iat' | 'exp'> & Partial<Pick<TenantTokenClaims, 'iat' | 'exp'>>,
+  secret: string,
+  ttlSeconds: number = 300
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = { ...claims, iat: claims.iat ?? now, exp: claims.exp ?? now + ttlSeconds };
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  return `${header}.${body}.${sign(`${header}.${body}`, secret)}`;
+}
+
+/**
+ * Decode token claims without verifying the signature
+ * Only used to find out which tenant's secret the token must be verified with
+ */
+export function decodeTenantToken(token: string): TenantTokenClaims | null {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a tenant token
+ *
+ * @param token - Compact JWT
+ * @param key - Tenant token secret from the registry, or the tenant's HMAC secret / JWKS
+ * @param options - Expected tenant and lifetime limits
+ * @returns Verified claims
+ * @throws AuthenticationError if the token is malformed, forged, expired or for another tenant
+ */
+export function verifyTenantToken(token: string, key: string | JwtKeys, options: VerifyTenantTokenOptions): TenantTokenClaims {
+  const claims = verifyJwt(token, typeof key === 'string' ? { secret: key } : key, {
+    label: 'tenant token',
+    maxAgeSeconds: options.maxAgeSeconds,
+    clockToleranceSeconds: options.clockToleranceSeconds
+  });
+
+  if (claims.tid !== options.tenantId) {
+    throw new AuthenticationError('Tenant token was issued for a different tenant', undefined, 'token_invalid');
+  }
+
+  return claims as TenantTokenClaims;
+}
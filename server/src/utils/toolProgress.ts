@@ -0,0 +1,57 @@
+import { ToolProgress } from '../types';
+
+// First match wins, so keep the more specific patterns on top
+const TOOL_LABELS: Array<[RegExp, string]> = [
+  [/ingredient/i, 'Checking ingredients'],
+  [/interaction|contraindication/i, 'Checking interactions'],
+  [/lab|coa|certificate/i, 'Reviewing lab results'],
+  [/catalog|product|sku/i, 'Searching catalog'],
+  [/search|retriev|knowledge|document|lookup/i, 'Looking things up'],
+];
+
+const DEFAULT_LABEL = 'Working on it';
+
+/**
+ * User-facing label for a BotDojo tool name
+ */
+export function toolLabel(tool: string): string {
+  const match = TOOL_LABELS.find(([pattern]) => pattern.test(tool));
+  return match ? match[1] : DEFAULT_LABEL;
+}
+
+/**
+ * Read the tool name from an onToolStart/onToolEnd payload; BotDojo flows report it under different keys
+ */
+function toolName(data: unknown): string {
+  if (!data || typeof data !== 'object') {
+    return '';
+  }
+  const fields = data as Record<string, unknown>;
+  const tool = fields.tool as Record<string, unknown> | string | undefined;
+  const candidates = [
+    fields.toolName,
+    fields.tool_name,
+    typeof tool === 'object' ? tool?.name : tool,
+    fields.name,
+    fields.stepLabel,
+  ];
+  const name = candidates.find((candidate): candidate is string => typeof candidate === 'string' && candidate.trim().length > 0);
+  return name ? name.trim() : '';
+}
+
+/**
+ * Map a BotDojo stream event to tool progress
+ *
+ * @returns null for anything other than onToolStart / onToolEnd
+ */
+export function parseToolEvent(event: { tag?: unknown; data?: unknown } | null): ToolProgress | null {
+  if (event?.tag !== 'onToolStart' && event?.tag !== 'onToolEnd') {
+    return null;
+  }
+  const tool = toolName(event.data);
+  return {
+    stage: event.tag === 'onToolStart' ? 'start' : 'end',
+    tool,
+    label: toolLabel(tool),
+  };
+}
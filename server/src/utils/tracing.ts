@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from 'express';
+import { context, propagation, trace, Attributes, Span, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ParentBasedSampler,
+  SimpleSpanProcessor,
+  SpanProcessor,
+  TraceIdRatioBasedSampler
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_URL_PATH
+} from '@opentelemetry/semantic-conventions';
+import { tracingConfig, TracingConfig } from '../config/environment';
+import { getRoutePattern } from './errorHandler';
+import { logger } from './logger';
+
+/**
+ * OpenTelemetry tracing
+ *
+ * Spans are created through the API for every route, upstream fetch (BotDojo flow runs, catalog lookups)
+ * and cache operation. Until initTracing() registers a provider the API is a no-op, so instrumented code
+ * costs next to nothing when TRACING_EXPORTER is "none".
+ */
+
+const tracer = trace.getTracer('chatbot-server');
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Register the tracer provider selected by configuration, with W3C trace context propagation
+ *
+ * @param config - Exporter, service name and sampling ratio
+ * @param processor - Span processor to use instead of the configured exporter (tests)
+ */
+export function initTracing(config: TracingConfig = tracingConfig, processor?: SpanProcessor): void {
+  if (provider || (config.exporter === 'none' && !processor)) {
+    return;
+  }
+
+  const spanProcessor = processor
+    ?? (config.exporter === 'console'
+      ? new SimpleSpanProcessor(new ConsoleSpanExporter())
+      : new BatchSpanProcessor(new OTLPTraceExporter()));
+  // The ratio applies to traces started by the widget too: a client can't force every request to be recorded
+  const ratio = new TraceIdRatioBasedSampler(config.sampleRatio);
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: config.serviceName }),
+    sampler: new ParentBasedSampler({ root: ratio, remoteParentSampled: ratio, remoteParentNotSampled: ratio }),
+    spanProcessors: [spanProcessor]
+  });
+  provider.register();
+  logger.info('Tracing enabled', { exporter: processor ? 'custom' : config.exporter, sampleRatio: config.sampleRatio });
+}
+
+/**
+ * Flush pending spans and stop the provider (graceful shutdown)
+ */
+export async function shutdownTracing(): Promise<void> {
+  const current = provider;
+  provider = undefined;
+  await current?.shutdown();
+}
+
+/**
+ * Record an error on a span and mark it failed
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+/**
+ * Run fn inside a new active span, ended when fn settles; a thrown error is recorded and rethrown
+ *
+ * @param name - Span name, e.g. "cache.get"
+ * @param attributes - Initial span attributes
+ * @param fn - Work to trace; receives the span to add attributes or events
+ * @param kind - CLIENT for calls to other services, INTERNAL otherwise
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return tracer.startActiveSpan(name, { kind, attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Start a span that outlives the current call (e.g. a streamed upstream response); the caller must end it
+ */
+export function startSpan(name: string, attributes: Attributes, kind: SpanKind = SpanKind.INTERNAL): Span {
+  return tracer.startSpan(name, { kind, attributes });
+}
+
+/**
+ * Add the W3C traceparent (and tracestate) of the active span to outgoing request headers
+ *
+ * @param span - Span to propagate instead of the active one
+ */
+export function injectTraceHeaders(headers: Record<string, string>, span?: Span): Record<string, string> {
+  const carrier = span ? trace.setSpan(context.active(), span) : context.active();
+  propagation.inject(carrier, headers);
+  return headers;
+}
+
+// Tracing middleware
+// Starts a server span per request, continuing the widget's trace when it sends a W3C traceparent header.
+// The span is renamed after the matched route pattern once the response closes, so ids never end up in span names.
+export const tracingMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: req.method,
+      [ATTR_URL_PATH]: req.path,
+      'request.id': req.headers['x-request-id'] as string
+    }
+  }, parent);
+
+  res.on('close', () => {
+    const route = getRoutePattern(req);
+    if (route) {
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (!res.writableFinished) {
+      span.setAttribute('http.client_disconnected', true);
+    }
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), next);
+};
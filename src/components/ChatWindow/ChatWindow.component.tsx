@@ -1,7 +1,7 @@
 import React, { useEffect, useRef, useImperativeHandle, forwardRef, useState, useMemo } from "react";
 import { motion } from "framer-motion";
 import { MessageRenderer } from "@components";
-import { type Message } from "@types";
+import { type Feedback, type Message } from "@types";
 import { INTRODUCTION_MESSAGE, parseMarkdownBold, getRandomSuggestedQuestions } from "@utils/constants";
 
 interface ChatWindowProps {
@@ -10,6 +10,7 @@ interface ChatWindowProps {
   onQuestionClick?: (question: string) => void;
   onViewRecommendations?: (messageId: string) => void;
   onRemoveSuggestions?: (messageId: string) => void;
+  onFeedback?: (messageId: string, feedback: Feedback) => void;
   isLoading?: boolean;
   requestStartTime?: number | null;
   onScrollChange?: (isNearBottom: boolean) => void;
@@ -29,6 +30,7 @@ export const ChatWindow = forwardRef<ChatWindowRef, ChatWindowProps>(({
   onQuestionClick,
   onViewRecommendations,
   onRemoveSuggestions,
+  onFeedback,
   isLoading = false,
   requestStartTime = null,
   onScrollChange,
@@ -219,6 +221,7 @@ export const ChatWindow = forwardRef<ChatWindowRef, ChatWindowProps>(({
                     onQuestionClick={onQuestionClick}
                     onViewRecommendations={onViewRecommendations}
                     onRemoveSuggestions={onRemoveSuggestions}
+                    onFeedback={onFeedback}
                     isLoading={isLoading}
                     isTextStreaming={isTextStreaming}
                     requestStartTime={requestStartTime}
@@ -0,0 +1,258 @@
+import React, { useState, useMemo, useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { type SavedConversation } from "@types";
+
+interface ConversationHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversations: SavedConversation[];
+  activeConversationId: string;
+  onSelect: (conversationId: string) => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+  disabled?: boolean; // A turn is running; conversations can't be switched until it ends
+  zIndex?: number;
+}
+
+// Everything a search can match: the title and the text of every message
+function matchesQuery(conversation: SavedConversation, query: string): boolean {
+  if (conversation.title.toLowerCase().includes(query)) return true;
+  return conversation.messages.some(
+    (msg) => typeof msg.content?.text === "string" && msg.content.text.toLowerCase().includes(query),
+  );
+}
+
+// Time for conversations updated today, the date otherwise
+function formatUpdatedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
+  isOpen,
+  onClose,
+  conversations,
+  activeConversationId,
+  onSelect,
+  onRename,
+  onDelete,
+  disabled = false,
+  zIndex = 60,
+}) => {
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  // Escape cancels a rename; the input's blur that follows must not save it
+  const renameCancelledRef = useRef(false);
+
+  const filteredConversations = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return normalizedQuery
+      ? conversations.filter((conversation) => matchesQuery(conversation, normalizedQuery))
+      : conversations;
+  }, [conversations, query]);
+
+  // Reset editing state when the drawer closes
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingId(null);
+      setConfirmingDeleteId(null);
+    }
+  }, [isOpen]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !editingId) onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, editingId, onClose]);
+
+  const startRename = (conversation: SavedConversation) => {
+    setConfirmingDeleteId(null);
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+    renameCancelledRef.current = false;
+  };
+
+  const submitRename = (conversation: SavedConversation) => {
+    if (!renameCancelledRef.current && draftTitle.trim() !== conversation.title) {
+      onRename(conversation.id, draftTitle);
+    }
+    renameCancelledRef.current = true;
+    setEditingId(null);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="absolute inset-0 bg-black/20 dark:bg-black/40"
+            style={{ zIndex }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            className="absolute left-0 top-0 bottom-0 w-[22rem] max-w-full bg-white dark:bg-neutral-900 border-r border-gray-200 dark:border-neutral-800 flex flex-col"
+            style={{ zIndex: zIndex + 1 }}
+            initial={{ x: "-100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "-100%" }}
+            transition={{ duration: 0.25, ease: "easeInOut" }}
+            aria-label="Conversation history"
+          >
+            {/* Header */}
+            <div className="px-4 py-4 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">History</h2>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                aria-label="Close history"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Search */}
+            <div className="px-4 pb-3">
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search conversations"
+                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-gray-800 dark:text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                aria-label="Search conversations"
+              />
+            </div>
+
+            {/* Conversation list */}
+            <div className="flex-1 overflow-y-auto px-2 pb-4">
+              {filteredConversations.length === 0 ? (
+                <p className="px-2 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                  {conversations.length === 0 ? "No saved conversations yet." : "No conversations match your search."}
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {filteredConversations.map((conversation) => {
+                    const isActive = conversation.id === activeConversationId;
+                    const isEditing = conversation.id === editingId;
+                    const isConfirmingDelete = conversation.id === confirmingDeleteId;
+
+                    return (
+                      <li
+                        key={conversation.id}
+                        className={`group rounded-lg ${isActive ? "bg-gray-100 dark:bg-neutral-800" : "hover:bg-gray-50 dark:hover:bg-neutral-800/60"}`}
+                      >
+                        {isEditing ? (
+                          <form
+                            className="px-2 py-2"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              submitRename(conversation);
+                            }}
+                          >
+                            <input
+                              autoFocus
+                              value={draftTitle}
+                              onChange={(e) => setDraftTitle(e.target.value)}
+                              onBlur={() => submitRename(conversation)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Escape") {
+                                  renameCancelledRef.current = true;
+                                  setEditingId(null);
+                                }
+                              }}
+                              maxLength={120}
+                              className="w-full px-2 py-1 text-sm rounded border border-blue-500 bg-white dark:bg-neutral-900 text-gray-800 dark:text-gray-100 focus:outline-none"
+                              aria-label="Conversation title"
+                            />
+                          </form>
+                        ) : (
+                          <div className="flex items-center gap-1 px-2 py-2">
+                            <button
+                              onClick={() => {
+                                onSelect(conversation.id);
+                                onClose();
+                              }}
+                              disabled={disabled && !isActive}
+                              className="flex-1 min-w-0 text-left disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none"
+                              aria-current={isActive ? "true" : undefined}
+                            >
+                              <span className="block truncate text-sm font-medium text-gray-800 dark:text-gray-100">
+                                {conversation.title}
+                              </span>
+                              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                {formatUpdatedAt(conversation.updatedAt)}
+                              </span>
+                            </button>
+
+                            {isConfirmingDelete ? (
+                              <div className="flex items-center gap-1">
+                                <button
+                                  onClick={() => {
+                                    setConfirmingDeleteId(null);
+                                    onDelete(conversation.id);
+                                  }}
+                                  className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded"
+                                >
+                                  Delete
+                                </button>
+                                <button
+                                  onClick={() => setConfirmingDeleteId(null)}
+                                  className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-neutral-700 rounded"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                <button
+                                  onClick={() => startRename(conversation)}
+                                  className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-100 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  aria-label={`Rename ${conversation.title}`}
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+                                  </svg>
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setEditingId(null);
+                                    setConfirmingDeleteId(conversation.id);
+                                  }}
+                                  disabled={disabled && isActive}
+                                  className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  aria-label={`Delete ${conversation.title}`}
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6M9 7V4a1 1 0 011-1h4a1 1 0 011 1v3M4 7h16" />
+                                  </svg>
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
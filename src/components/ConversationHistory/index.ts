@@ -0,0 +1 @@
+export { ConversationHistory } from "./ConversationHistory.component";
@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import type { Feedback, FeedbackRating, FeedbackReason } from "@types";
+
+interface FeedbackControlsProps {
+  feedback?: Feedback; // Feedback already given, shown as the selected rating
+  reasons: Array<{ value: FeedbackReason; label: string }>; // Offered when the rating is "not helpful"
+  onSubmit: (feedback: Feedback) => void;
+  label?: string;
+  compact?: boolean; // Smaller controls, for product cards
+}
+
+const THUMB_PATHS: Record<FeedbackRating, string> = {
+  helpful: "M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5",
+  not_helpful: "M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5",
+};
+
+export const FeedbackControls: React.FC<FeedbackControlsProps> = ({
+  feedback,
+  reasons,
+  onSubmit,
+  label = "Was this helpful?",
+  compact = false,
+}) => {
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [selectedReasons, setSelectedReasons] = useState<FeedbackReason[]>(feedback?.reasons ?? []);
+  const [comment, setComment] = useState(feedback?.comment ?? "");
+  const [isThanked, setIsThanked] = useState(false);
+
+  // A rating counts as soon as it is clicked; reasons and a comment can follow for "not helpful"
+  const handleRate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) return;
+    setSelectedReasons([]);
+    setComment("");
+    onSubmit({ rating, reasons: [] });
+    setIsDetailsOpen(rating === "not_helpful");
+    setIsThanked(rating === "helpful");
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setSelectedReasons((current) =>
+      current.includes(reason) ? current.filter((value) => value !== reason) : [...current, reason],
+    );
+  };
+
+  const handleSend = () => {
+    const trimmedComment = comment.trim();
+    onSubmit({ rating: "not_helpful", reasons: selectedReasons, ...(trimmedComment ? { comment: trimmedComment } : {}) });
+    setIsDetailsOpen(false);
+    setIsThanked(true);
+  };
+
+  const iconSize = compact ? "w-4 h-4" : "w-5 h-5";
+
+  return (
+    // Product cards are clickable; feedback clicks and key presses must not select the product
+    <div
+      className={compact ? "mt-3" : "mt-4"}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2">
+        <span className={`${compact ? "text-xs" : "text-sm"} text-gray-500 dark:text-gray-400`}>{label}</span>
+        {(["helpful", "not_helpful"] as const).map((rating) => {
+          const isSelected = feedback?.rating === rating;
+          return (
+            <button
+              key={rating}
+              type="button"
+              onClick={() => handleRate(rating)}
+              className={`p-1.5 rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 ${
+                isSelected
+                  ? "text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30"
+                  : "text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+              aria-label={rating === "helpful" ? "Helpful" : "Not helpful"}
+              aria-pressed={isSelected}
+            >
+              <svg className={iconSize} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={THUMB_PATHS[rating]} />
+              </svg>
+            </button>
+          );
+        })}
+        {feedback?.rating === "not_helpful" && !isDetailsOpen && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsDetailsOpen(true);
+              setIsThanked(false);
+            }}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline focus:outline-none"
+          >
+            {feedback.reasons.length > 0 || feedback.comment ? "Edit details" : "Tell us why"}
+          </button>
+        )}
+        {isThanked && !isDetailsOpen && (
+          <span className="text-xs text-gray-500 dark:text-gray-400" role="status">
+            Thanks for your feedback
+          </span>
+        )}
+      </div>
+
+      {isDetailsOpen && (
+        <div className="mt-2 p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 space-y-3">
+          <div className="flex flex-wrap gap-2" role="group" aria-label="What was wrong?">
+            {reasons.map((reason) => {
+              const isSelected = selectedReasons.includes(reason.value);
+              return (
+                <button
+                  key={reason.value}
+                  type="button"
+                  onClick={() => toggleReason(reason.value)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 ${
+                    isSelected
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                      : "border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  }`}
+                  aria-pressed={isSelected}
+                >
+                  {reason.label}
+                </button>
+              );
+            })}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={2000}
+            rows={compact ? 2 : 3}
+            placeholder="What should the answer have said? (optional)"
+            className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-100 placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+            aria-label="Feedback comment"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsDetailsOpen(false)}
+              className="px-3 py-1.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={selectedReasons.length === 0 && !comment.trim()}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
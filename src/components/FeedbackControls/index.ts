@@ -0,0 +1 @@
+export { FeedbackControls } from "./FeedbackControls.component";
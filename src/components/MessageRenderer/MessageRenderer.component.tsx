@@ -1,10 +1,29 @@
 import React from "react";
 import { motion } from "framer-motion";
-import { MessageBubble, ButtonGroup, SuggestedQuestions, ProductCard, TypingIndicator } from "@components";
-import { type Message, type Product } from "@types";
-import { parseMarkdownBold, parseStreamedText } from "@utils/constants";
+import { MessageBubble, ButtonGroup, SuggestedQuestions, ProductCard, TypingIndicator, FeedbackControls } from "@components";
+import { type Feedback, type Message, type Product, type SafetyReport } from "@types";
+import { parseMarkdownBold, parseStreamedText, ANSWER_FEEDBACK_REASONS } from "@utils/constants";
 import { formatDuration } from "@utils/formatDuration";
 
+// Topics named in the safety notice, by guardrail category
+const SAFETY_TOPICS: Record<SafetyReport["findings"][number]["category"], string> = {
+  dosage: "dosages",
+  cure_claim: "health claims",
+  pregnancy: "pregnancy",
+  pediatric: "children",
+  custom: "a sensitive topic",
+};
+
+// Notice under an answer the server's safety guardrails changed; answers that were only flagged show none
+// Categories this widget doesn't know (e.g. from a newer server) read as "a sensitive topic"
+function getSafetyNotice(safety: SafetyReport | undefined): string | null {
+  if (!safety || safety.action === "flag") return null;
+  if (safety.action === "block") return "This answer was withheld by our safety checks.";
+  if (safety.action === "rewrite") return "Parts of this answer were removed by our safety checks.";
+  const topics = [...new Set(safety.findings.filter((finding) => finding.action !== "flag").map((finding) => SAFETY_TOPICS[finding.category] ?? SAFETY_TOPICS.custom))];
+  return `This answer mentions ${topics.join(" and ")}. Check with your practitioner before acting on it.`;
+}
+
 interface MessageRendererProps {
   message: Message;
   messages: Message[];
@@ -13,6 +32,7 @@ interface MessageRendererProps {
   onQuestionClick?: (question: string) => void;
   onViewRecommendations?: (messageId: string) => void;
   onRemoveSuggestions?: (messageId: string) => void;
+  onFeedback?: (messageId: string, feedback: Feedback) => void;
   isLoading?: boolean;
   isTextStreaming?: boolean;
   requestStartTime?: number | null;
@@ -26,6 +46,7 @@ export const MessageRenderer: React.FC<MessageRendererProps> = ({
   onQuestionClick,
   onViewRecommendations,
   onRemoveSuggestions,
+  onFeedback,
   isLoading = false,
   isTextStreaming = false,
   requestStartTime = null,
@@ -75,6 +96,7 @@ export const MessageRenderer: React.FC<MessageRendererProps> = ({
     message.structured?.type === "product" && message.structured.data.length > 0;
   const showProductCountSkeleton =
     hasProductStructured && message.productInfoResolved !== true;
+  const safetyNotice = getSafetyNotice(message.safety);
 
   return (
     <div>
@@ -88,13 +110,22 @@ export const MessageRenderer: React.FC<MessageRendererProps> = ({
               </div>
             ) : showLoadingState && (
               <div className="mb-2">
-                <TypingIndicator variant={(isTextStreaming || displayText.length > 0) ? "streaming" : "pre-stream"} requestStartTime={requestStartTime} />
+                <TypingIndicator variant={(isTextStreaming || displayText.length > 0) ? "streaming" : "pre-stream"} requestStartTime={requestStartTime} progressText={message.progressText} />
               </div>
             )}
             <div className="text-base leading-relaxed text-gray-800 dark:text-gray-100 whitespace-pre-wrap transition-colors duration-300 ease-in-out">
               {parseMarkdownBold(displayText)}
             </div>
 
+            {safetyNotice && (
+              <div
+                role="note"
+                className="mt-4 px-4 py-3 rounded-lg border border-amber-200 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-800 dark:text-amber-200"
+              >
+                {safetyNotice}
+              </div>
+            )}
+
 
             {/* Products: shown only after text & suggestedQuestions are rendered; may show loading skeleton or loaded products */}
             {showProductsSection && (
@@ -174,6 +205,14 @@ export const MessageRenderer: React.FC<MessageRendererProps> = ({
               </>
             )}
 
+            {/* Feedback on finished answers only (not the introduction, errors or stopped turns) */}
+            {onFeedback && message.responseTimeSeconds != null && (
+              <FeedbackControls
+                feedback={message.feedback}
+                reasons={ANSWER_FEEDBACK_REASONS}
+                onSubmit={(feedback) => onFeedback(message.id, feedback)}
+              />
+            )}
           </div>
         )}
 
@@ -1,5 +1,7 @@
 import React from "react";
-import type { Product } from "@types";
+import { FeedbackControls } from "@components";
+import type { Feedback, Product } from "@types";
+import { PRODUCT_FEEDBACK_REASONS } from "@utils/constants";
 
 interface ProductCardProps extends Partial<Product> {
   // Allow alternative field names that might come from API
@@ -7,6 +9,8 @@ interface ProductCardProps extends Partial<Product> {
   url?: string;
   image?: string;
   productId?: string;
+  feedback?: Feedback;
+  onFeedback?: (feedback: Feedback) => void; // Shows feedback controls on the card
 }
 
 export const ProductCard: React.FC<ProductCardProps> = ({
@@ -27,6 +31,8 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   brand,
   servings,
   form,
+  feedback,
+  onFeedback,
 }) => {
   // Support both 'name' and 'title' fields
   const displayTitle = name || title || (sku ? `Product: ${sku}` : 'Product');
@@ -137,6 +143,17 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             )}
           </div>
         </div>
+
+        {/* Feedback on this recommendation */}
+        {onFeedback && (
+          <FeedbackControls
+            feedback={feedback}
+            reasons={PRODUCT_FEEDBACK_REASONS}
+            onSubmit={onFeedback}
+            label="Good match?"
+            compact
+          />
+        )}
       </div>
 
       {/* Hover Arrow Indicator */}
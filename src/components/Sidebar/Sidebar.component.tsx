@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { SidebarContentRenderer } from "@components";
-import { type Message } from "@types";
+import { type Feedback, type Message } from "@types";
 
 interface SidebarProps {
   isOpen: boolean;
@@ -14,6 +14,7 @@ interface SidebarProps {
   onResizeStart?: (e: React.MouseEvent) => void;
   minWidth?: number;
   isResizing?: boolean;
+  onProductFeedback?: (sku: string, feedback: Feedback) => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -27,6 +28,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onResizeStart,
   minWidth = 550,
   isResizing = false,
+  onProductFeedback,
 }) => {
   // Find the message with the given ID and extract structured content
   const message = messageId
@@ -165,6 +167,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   data={structuredContent.data}
                   displayedCount={structuredContent.type === "product" ? displayedCount : undefined}
                   onLoadMore={structuredContent.type === "product" ? handleLoadMore : undefined}
+                  productFeedback={message?.productFeedback}
+                  onProductFeedback={structuredContent.type === "product" ? onProductFeedback : undefined}
                 />
               )}
             </div>
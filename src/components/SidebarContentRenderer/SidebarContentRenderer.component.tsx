@@ -2,13 +2,15 @@ import React from "react";
 import { motion } from "framer-motion";
 import { ProductCard } from "@components";
 import { normalizeProduct } from "@utils/productNormalizer";
-import type { Product, RawProductApiResponse } from "@types";
+import type { Feedback, Product, RawProductApiResponse } from "@types";
 
 interface SidebarContentRendererProps {
   type: "product" | "guide" | "faq" | "labResult" | "image" | "linkList";
   data: any[];
   displayedCount?: number;
   onLoadMore?: () => void;
+  productFeedback?: Record<string, Feedback>; // Feedback already given, by SKU
+  onProductFeedback?: (sku: string, feedback: Feedback) => void;
 }
 
 export const SidebarContentRenderer: React.FC<SidebarContentRendererProps> = ({
@@ -16,6 +18,8 @@ export const SidebarContentRenderer: React.FC<SidebarContentRendererProps> = ({
   data,
   displayedCount,
   onLoadMore,
+  productFeedback,
+  onProductFeedback,
 }) => {
   switch (type) {
     case "product":
@@ -31,7 +35,15 @@ export const SidebarContentRenderer: React.FC<SidebarContentRendererProps> = ({
             {displayedProducts.map((product, index) => {
               // normalizeProduct handles both raw API responses and already-normalized products
               const normalizedProduct = normalizeProduct(product as RawProductApiResponse | Product);
-              return <ProductCard key={normalizedProduct.sku || index} {...normalizedProduct} />;
+              const { sku } = normalizedProduct;
+              return (
+                <ProductCard
+                  key={sku || index}
+                  {...normalizedProduct}
+                  feedback={sku ? productFeedback?.[sku] : undefined}
+                  onFeedback={sku && onProductFeedback ? (feedback) => onProductFeedback(sku, feedback) : undefined}
+                />
+              );
             })}
           </div>
           {shouldShowLoadMore && onLoadMore && (
@@ -1,19 +1,10 @@
 import React, { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { encryptInitData } from "../../utils/encryption";
+import type { InitData } from "@containers/Chatbot";
+import { getRequestCredentials } from "../../utils/requestAuth";
 import { buildApiUrl } from "../../utils/apiUrl";
 import { generateSuggestedQuestionSets } from "../../utils/constants";
 
-interface InitData {
-  BOTDOJO_API_KEY: string;
-  BOTDOJO_BASE_URL: string;
-  BOTDOJO_ACCOUNT_ID: string;
-  BOTDOJO_PROJECT_ID: string;
-  BOTDOJO_TEXT_FLOW_ID: string;
-  BOTDOJO_PRODUCTS_FLOW_ID: string;
-  BOTDOJO_API_ENDPOINT?: string; // API endpoint prefix (e.g., "/api/v1" for prod, "" or "/" for local)
-}
-
 interface SuggestedQuestionsActionProps {
   onQuestionClick: (question: string) => void;
   onRefresh?: () => void;
@@ -70,18 +61,15 @@ export const SuggestedQuestionsAction: React.FC<
   const loadSuggestionSets = async () => {
     setIsLoadingSets(true);
     try {
-      // Encrypt initData before sending
-      const encryptedInitData = await encryptInitData(initData);
+      const credentials = await getRequestCredentials(initData);
 
       const response = await fetch(buildApiUrl("/suggestions", initData.BOTDOJO_API_ENDPOINT), {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: credentials.headers,
         body: JSON.stringify({
           context: context || "general health and wellness",
           currentSetIndex: currentSetIndex,
-          initData: encryptedInitData,
+          ...credentials.body,
         }),
       });
 
@@ -9,11 +9,14 @@ export type TypingIndicatorVariant = "pre-stream" | "streaming";
 interface TypingIndicatorProps {
   variant?: TypingIndicatorVariant;
   requestStartTime?: number | null;
+  /** Real progress from the server (e.g. "Searching catalog"); the rotating texts are only a fallback */
+  progressText?: string;
 }
 
 export const TypingIndicator: React.FC<TypingIndicatorProps> = ({
   variant = "pre-stream",
   requestStartTime = null,
+  progressText,
 }) => {
   const [textIndex, setTextIndex] = useState(0);
   const [elapsedSecs, setElapsedSecs] = useState(0);
@@ -24,11 +27,12 @@ export const TypingIndicator: React.FC<TypingIndicatorProps> = ({
   }, [variant]);
 
   useEffect(() => {
+    if (progressText) return;
     const interval = setInterval(() => {
       setTextIndex((prev) => (prev + 1) % texts.length);
     }, ROTATION_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [texts.length]);
+  }, [texts.length, progressText]);
 
   // Live timer - updates every second when requestStartTime is set
   useEffect(() => {
@@ -46,7 +50,7 @@ export const TypingIndicator: React.FC<TypingIndicatorProps> = ({
 
   return (
     <div className="flex items-center gap-2 text-[15px] text-gray-500 dark:text-gray-400">
-      <span className="shimmer-text">{texts[textIndex]}</span>
+      <span className="shimmer-text">{progressText || texts[textIndex]}</span>
       {requestStartTime != null && (
         <span>{formatDuration(elapsedSecs)}</span>
       )}
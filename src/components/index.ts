@@ -1,5 +1,7 @@
 export { ButtonGroup } from "./ButtonGroup";
 export { ChatWindow, type ChatWindowRef } from "./ChatWindow";
+export { ConversationHistory } from "./ConversationHistory";
+export { FeedbackControls } from "./FeedbackControls";
 export { InlineCTA } from "./InlineCTA";
 export { InputBar } from "./InputBar";
 export { MessageBubble } from "./MessageBubble";
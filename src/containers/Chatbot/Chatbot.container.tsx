@@ -1,21 +1,26 @@
 import type { FC } from "react";
+import type { ChatTransport } from "@types";
 import { ChatProvider } from "@contexts";
 import { ChatbotContent } from "./ChatbotContent";
 
 export interface InitData {
-  BOTDOJO_API_KEY: string;
-  BOTDOJO_BASE_URL: string;
-  BOTDOJO_ACCOUNT_ID: string;
-  BOTDOJO_PROJECT_ID: string;
-  BOTDOJO_TEXT_FLOW_ID: string;
-  BOTDOJO_PRODUCTS_FLOW_ID: string;
+  TENANT_ID?: string; // Tenant registry id - when set, credentials are resolved server-side and the fields below are not sent
+  TENANT_TOKEN?: string | (() => string | Promise<string>); // Short-lived signed tenant token (or a function returning a fresh one)
+  AUTH_TOKEN?: string | (() => string | Promise<string>); // Legacy initData mode: token minted by the host backend (or a function returning a fresh one), required when the server enforces AUTH_REQUIRED
+  BOTDOJO_API_KEY?: string; // Legacy initData mode only
+  BOTDOJO_BASE_URL?: string; // Legacy initData mode only
+  BOTDOJO_ACCOUNT_ID?: string; // Legacy initData mode only
+  BOTDOJO_PROJECT_ID?: string; // Legacy initData mode only
+  BOTDOJO_TEXT_FLOW_ID?: string; // Legacy initData mode only
+  BOTDOJO_PRODUCTS_FLOW_ID?: string; // Legacy initData mode only
   BOTDOJO_API_ENDPOINT?: string; // API endpoint prefix (e.g., "/api/v1" for prod, "" or "/" for local)
-  SOURCE_API_BASE_URL: string;
+  SOURCE_API_BASE_URL?: string; // Legacy initData mode only (required there)
   SOURCE_PRACTICE_TOKEN?: string; // Token for authenticating with the source API (optional)
-  SOURCE_AUTH_TOKEN: string; // Additional authentication token for the source API
+  SOURCE_AUTH_TOKEN?: string; // Additional authentication token for the source API (legacy initData mode only, required there)
   SOURCE_APP_TYPE?: string; // Host / embedding application type (e.g. cux) for product filtering
   PRODUCT_SOURCE?: string; // Product source identifier for BotDojo API
   STORE?: string; // Store identifier for BotDojo API
+  REDACT_NAMES?: string[]; // Names the server replaces with placeholders before messages are logged or sent to BotDojo (e.g. the current client's)
 }
 
 export interface ChatbotProps {
@@ -24,6 +29,7 @@ export interface ChatbotProps {
   sidebarZIndex?: number;
   maxHeight?: number;
   initData?: InitData;
+  transport?: ChatTransport; // "websocket" for hosts behind proxies that buffer server-sent events (default "sse")
 }
 
 export const Chatbot: FC<ChatbotProps> = ({
@@ -31,25 +37,33 @@ export const Chatbot: FC<ChatbotProps> = ({
   baseFontSize = 16,
   sidebarZIndex = 50,
   maxHeight,
-  initData
+  initData,
+  transport
 }) => {
 
   if (!initData) {
     throw new Error('initData is required');
   }
 
-  // Validate mandatory SOURCE_API_BASE_URL
-  if (!initData.SOURCE_API_BASE_URL || typeof initData.SOURCE_API_BASE_URL !== 'string' || initData.SOURCE_API_BASE_URL.trim() === '') {
-    throw new Error('SOURCE_API_BASE_URL is required and must be a non-empty string in initData');
-  }
+  if (initData.TENANT_ID) {
+    // Tenant mode: credentials live in the server's tenant registry
+    if (!initData.TENANT_TOKEN) {
+      throw new Error('TENANT_TOKEN is required in initData when TENANT_ID is set');
+    }
+  } else {
+    // Validate mandatory SOURCE_API_BASE_URL
+    if (!initData.SOURCE_API_BASE_URL || typeof initData.SOURCE_API_BASE_URL !== 'string' || initData.SOURCE_API_BASE_URL.trim() === '') {
+      throw new Error('SOURCE_API_BASE_URL is required and must be a non-empty string in initData');
+    }
 
-  // Validate mandatory SOURCE_AUTH_TOKEN
-  if (!initData.SOURCE_AUTH_TOKEN || typeof initData.SOURCE_AUTH_TOKEN !== 'string' || initData.SOURCE_AUTH_TOKEN.trim() === '') {
-    throw new Error('SOURCE_AUTH_TOKEN is required and must be a non-empty string in initData');
+    // Validate mandatory SOURCE_AUTH_TOKEN
+    if (!initData.SOURCE_AUTH_TOKEN || typeof initData.SOURCE_AUTH_TOKEN !== 'string' || initData.SOURCE_AUTH_TOKEN.trim() === '') {
+      throw new Error('SOURCE_AUTH_TOKEN is required and must be a non-empty string in initData');
+    }
   }
 
   return (
-    <ChatProvider initData={initData}>
+    <ChatProvider initData={initData} transport={transport}>
       <ChatbotContent
         isThemeRequired={isThemeRequired}
         baseFontSize={baseFontSize}
@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState, useCallback, useMemo } from "react";
-import { ChatWindow, InputBar, Sidebar, StructuredContentTester, SuggestedQuestionsAction, ThemeToggle, type ChatWindowRef } from "@components";
+import { ChatWindow, ConversationHistory, InputBar, Sidebar, StructuredContentTester, SuggestedQuestionsAction, ThemeToggle, type ChatWindowRef } from "@components";
 import { useChat } from "@contexts";
 
 interface ChatbotContentProps {
@@ -19,6 +19,7 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(550);
   const [isResizing, setIsResizing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const sidebarMinWidth = 550; // Default width when sidebar opens
   const sidebarMaxWidth = 1200; // Maximum width for sidebar
   const conversationalPaneMinWidth = 470; // Minimum width for conversational pane
@@ -37,6 +38,7 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
     initData,
     sendMessage,
     handleButtonClick,
+    handleSuggestionClick,
     cancelRequest,
     handleNewChat,
     handleViewRecommendations,
@@ -44,6 +46,10 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
     handleTestStructuredContent,
     handleRefreshSuggestions,
     handleRemoveSuggestions,
+    handleFeedback,
+    handleOpenConversation,
+    handleRenameConversation,
+    handleDeleteConversation,
     getSuggestedQuestions,
     getSuggestionsContext,
     dispatch,
@@ -138,6 +144,8 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
     };
   }, [isResizing, sidebarMinWidth, sidebarMaxWidth, conversationalPaneMinWidth]);
 
+  const handleCloseHistory = useCallback(() => setIsHistoryOpen(false), []);
+
   return (
     <div
       className="chatbot-container flex flex-col h-screen bg-[#FDFDFC] dark:bg-[#0D1117] font-sans transition-colors duration-300 ease-in-out"
@@ -147,7 +155,20 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
       } as React.CSSProperties}
     >
       {/* Main Content and Sidebar Container */}
-      <div className="flex-1 flex overflow-hidden">
+      <div className="flex-1 flex overflow-hidden relative">
+        {/* Conversation History - drawer over the conversational pane */}
+        <ConversationHistory
+          isOpen={isHistoryOpen}
+          onClose={handleCloseHistory}
+          conversations={state.savedConversations}
+          activeConversationId={state.conversationId}
+          onSelect={(conversationId) => void handleOpenConversation(conversationId)}
+          onRename={(conversationId, title) => void handleRenameConversation(conversationId, title)}
+          onDelete={(conversationId) => void handleDeleteConversation(conversationId)}
+          disabled={state.isLoading}
+          zIndex={sidebarZIndex + 10}
+        />
+
         {/* Conversational Pane - centered in remaining space */}
         <div className="flex-1 flex justify-center overflow-hidden" style={{ minWidth: `${conversationalPaneMinWidth}px` }}>
           {/* Main Content and Input Field Container - max-width 80rem */}
@@ -202,6 +223,27 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
 
                 <div className="flex items-center gap-2">
                   {isThemeRequired && <ThemeToggle />}
+                  <button
+                    onClick={() => setIsHistoryOpen(true)}
+                    className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors duration-300 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 flex items-center gap-2"
+                    aria-label="Conversation History"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                      xmlns="http://www.w3.org/2000/svg"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                      />
+                    </svg>
+                    <span className="text-sm font-medium">History</span>
+                  </button>
                   <button
                     onClick={handleNewChat}
                     className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors duration-300 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 flex items-center gap-2"
@@ -240,9 +282,10 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
               ref={chatWindowRef}
               messages={state.messages}
               onButtonClick={handleButtonClick}
-              onQuestionClick={sendMessage}
+              onQuestionClick={handleSuggestionClick}
               onViewRecommendations={handleViewRecommendations}
               onRemoveSuggestions={handleRemoveSuggestions}
+              onFeedback={(messageId, feedback) => void handleFeedback(messageId, feedback)}
               isLoading={state.isLoading}
               requestStartTime={state.requestStartTime}
               onScrollChange={handleScrollChange}
@@ -314,6 +357,11 @@ export const ChatbotContent: React.FC<ChatbotContentProps> = ({
             onResizeStart={handleMouseDown}
             minWidth={sidebarMinWidth}
             isResizing={isResizing}
+            onProductFeedback={(sku, feedback) => {
+              if (state.sidebarState.messageId) {
+                void handleFeedback(state.sidebarState.messageId, feedback, sku);
+              }
+            }}
           />
       </div>
     </div>
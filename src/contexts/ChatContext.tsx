@@ -1,10 +1,16 @@
-import React, { createContext, useContext, useReducer, useEffect, useCallback, type ReactNode } from "react";
-import type { Message, SidebarState, ChatResponse, Product } from "@types";
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useMemo, useState, type ReactNode } from "react";
+import type { Message, SidebarState, ChatResponse, Product, ConversationTurn, ChatStreamEvent, ChatTransport, SavedConversation, Feedback } from "@types";
 import type { InitData } from "@containers/Chatbot";
-import { encryptInitData } from "../utils/encryption";
-import { buildApiUrl } from "../utils/apiUrl";
-import { INTRODUCTION_MESSAGE, parseStreamedText } from "@utils/constants";
+import { ChatSession } from "../utils/chatSession";
+import type { RequestCredentials } from "../utils/requestAuth";
+import { INTRODUCTION_MESSAGE, CONVERSATION_HISTORY_LIMIT, parseStreamedText } from "@utils/constants";
 import { normalizeProducts } from "../utils/productNormalizer";
+import { readChatStream, getRetryAfter, RateLimitedError, LAST_EVENT_ID_HEADER, STREAM_ID_HEADER } from "../utils/chatStream";
+import { formatDuration } from "@utils/formatDuration";
+import { ChatSocketClient } from "../utils/chatSocket";
+import { createTraceId, createTraceparent, TRACEPARENT_HEADER } from "../utils/traceContext";
+import { ConversationHistoryStore } from "../utils/conversationHistory";
+import { AnalyticsEmitter } from "../utils/analytics";
 
 // State interfaces
 interface ChatState {
@@ -17,6 +23,8 @@ interface ChatState {
   debugMode: boolean;
   abortController: AbortController | null;
   requestStartTime: number | null;
+  conversationId: string;
+  savedConversations: SavedConversation[]; // browser history, most recently updated first
 }
 
 // Action types
@@ -35,6 +43,8 @@ type ChatAction =
   | { type: "SET_ABORT_CONTROLLER"; payload: AbortController | null }
   | { type: "SET_REQUEST_START_TIME"; payload: number | null }
   | { type: "REMOVE_SUGGESTIONS"; payload: string }
+  | { type: "SET_SAVED_CONVERSATIONS"; payload: SavedConversation[] }
+  | { type: "LOAD_CONVERSATION"; payload: SavedConversation }
   | { type: "RESET_CHAT" };
 
 // Initial state
@@ -48,8 +58,15 @@ const initialState: ChatState = {
   debugMode: true,
   abortController: null,
   requestStartTime: null,
+  conversationId: "",
+  savedConversations: [],
 };
 
+// Conversation id shared by every turn so the server can keep multi-turn memory
+function createConversationId(): string {
+  return `conv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
 // Reducer
 function chatReducer(state: ChatState, action: ChatAction): ChatState {
   switch (action.type) {
@@ -110,10 +127,26 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         ),
       };
 
+    case "SET_SAVED_CONVERSATIONS":
+      return { ...state, savedConversations: action.payload };
+
+    case "LOAD_CONVERSATION":
+      return {
+        ...initialState,
+        debugMode: state.debugMode,
+        savedConversations: state.savedConversations,
+        messages: action.payload.messages,
+        showInitialSuggestions: false, // The saved messages already start with the introduction
+        sidebarState: action.payload.sidebarState,
+        conversationId: action.payload.id, // Continue the same conversation, server memory included
+      };
+
     case "RESET_CHAT":
       return {
         ...initialState,
         debugMode: state.debugMode, // Preserve debug mode setting
+        savedConversations: state.savedConversations,
+        conversationId: createConversationId(), // New chat starts a new conversation
       };
 
     default:
@@ -127,6 +160,23 @@ function extractProductSkus(data: unknown[]): string[] {
     .filter((sku): sku is string => Boolean(sku));
 }
 
+// Prior user/bot turns sent with each request; the server only falls back to these when it holds no history
+function buildConversationHistory(messages: Message[]): ConversationTurn[] {
+  return messages
+    .filter((msg) => msg.type === "text" && typeof msg.content?.text === "string" && msg.content.text.trim())
+    .filter((msg) => !(msg.role === "bot" && msg.content.text === INTRODUCTION_MESSAGE))
+    .map((msg): ConversationTurn => ({
+      role: msg.role === "user" ? "user" : "assistant",
+      content: msg.content.text,
+    }))
+    .slice(-CONVERSATION_HISTORY_LIMIT);
+}
+
+// Helper function to compare widget configurations by value; token functions only count as present
+function getInitDataKey(initData: InitData): string {
+  return JSON.stringify(initData, (_key, value) => (typeof value === "function" ? "function" : value));
+}
+
 // Context
 interface ChatContextType {
   state: ChatState;
@@ -136,6 +186,7 @@ interface ChatContextType {
   generateId: () => string;
   sendMessage: (content: string) => Promise<void>;
   handleButtonClick: (value: string) => Promise<void>;
+  handleSuggestionClick: (question: string) => Promise<void>;
   cancelRequest: () => void;
   handleNewChat: () => void;
   handleViewRecommendations: (messageId: string) => void;
@@ -143,6 +194,10 @@ interface ChatContextType {
   handleTestStructuredContent: (contentType: string) => Promise<void>;
   handleRefreshSuggestions: () => Promise<void>;
   handleRemoveSuggestions: (messageId: string) => void;
+  handleFeedback: (messageId: string, feedback: Feedback, sku?: string) => Promise<void>;
+  handleOpenConversation: (conversationId: string) => Promise<void>;
+  handleRenameConversation: (conversationId: string, title: string) => Promise<void>;
+  handleDeleteConversation: (conversationId: string) => Promise<void>;
   getSuggestedQuestions: () => string[];
   getSuggestionsContext: () => string;
 }
@@ -153,12 +208,101 @@ const ChatContext = createContext<ChatContextType | undefined>(undefined);
 interface ChatProviderProps {
   children: ReactNode;
   initData: InitData;
+  /** "websocket" for hosts behind proxies that buffer server-sent events (default "sse") */
+  transport?: ChatTransport;
 }
 
-export function ChatProvider({ children, initData }: ChatProviderProps) {
-  const [state, dispatch] = useReducer(chatReducer, initialState);
+export function ChatProvider({ children, initData: initDataProp, transport = "sse" }: ChatProviderProps) {
+  const [state, dispatch] = useReducer(chatReducer, initialState, (init) => ({
+    ...init,
+    conversationId: createConversationId(),
+  }));
   const prevSidebarOpenRef = React.useRef(false);
 
+  // Hosts often pass initData inline, a new object on every render; only changed values start a new session.
+  // Token functions are kept from the render that first passed these values.
+  const initDataKey = getInitDataKey(initDataProp);
+  const [stableInitData, setStableInitData] = useState({ key: initDataKey, initData: initDataProp });
+  if (stableInitData.key !== initDataKey) {
+    setStableInitData({ key: initDataKey, initData: initDataProp });
+  }
+  const initData = stableInitData.key === initDataKey ? stableInitData.initData : initDataProp;
+
+  // One session handshake per widget configuration; every API call below goes through it
+  const chatSession = useMemo(() => new ChatSession(initData), [initData]);
+
+  // Recommendation analytics, sent in batches over the same session; stopped before the session is closed below
+  const analytics = useMemo(() => new AnalyticsEmitter(chatSession, initData.REDACT_NAMES), [chatSession, initData.REDACT_NAMES]);
+
+  useEffect(() => {
+    analytics.start();
+    return () => analytics.stop();
+  }, [analytics]);
+
+  useEffect(() => {
+    return () => {
+      void chatSession.close();
+    };
+  }, [chatSession]);
+
+  // ProductCard announces selections to the host page; record them against the recommendations in the sidebar
+  useEffect(() => {
+    const handleProductSelected = (event: Event) => {
+      const sku = (event as CustomEvent<{ sku?: string }>).detail?.sku;
+      if (!sku) return;
+      analytics.track({
+        type: "product_selected",
+        conversationId: state.conversationId,
+        messageId: state.sidebarState.messageId ?? undefined,
+        sku,
+      });
+    };
+    window.addEventListener("customChatbotProductSelected", handleProductSelected);
+    return () => window.removeEventListener("customChatbotProductSelected", handleProductSelected);
+  }, [analytics, state.conversationId, state.sidebarState.messageId]);
+
+  // The socket is opened on the first message and shared by the following ones
+  const chatSocket = useMemo(
+    () => (transport === "websocket" ? new ChatSocketClient(chatSession, initData.BOTDOJO_API_ENDPOINT) : null),
+    [transport, chatSession, initData.BOTDOJO_API_ENDPOINT],
+  );
+
+  useEffect(() => {
+    return () => chatSocket?.close();
+  }, [chatSocket]);
+
+  // Past conversations, kept in the browser per tenant (or BotDojo account)
+  const historyStore = useMemo(
+    () => new ConversationHistoryStore(initData.TENANT_ID ?? initData.BOTDOJO_ACCOUNT_ID ?? "default"),
+    [initData.TENANT_ID, initData.BOTDOJO_ACCOUNT_ID],
+  );
+  // Messages as last saved (or reopened), so unchanged conversations are not saved again
+  const lastSavedMessagesRef = React.useRef<Message[] | null>(null);
+
+  const refreshSavedConversations = useCallback(async () => {
+    try {
+      dispatch({ type: "SET_SAVED_CONVERSATIONS", payload: await historyStore.list() });
+    } catch (error) {
+      console.error("Failed to load conversation history:", error);
+    }
+  }, [historyStore]);
+
+  useEffect(() => {
+    void refreshSavedConversations();
+    return () => historyStore.close();
+  }, [historyStore, refreshSavedConversations]);
+
+  // Save the conversation once a turn has finished (and after later changes such as product details arriving)
+  useEffect(() => {
+    if (state.isLoading || state.messages === lastSavedMessagesRef.current) return;
+    if (!state.messages.some((msg) => msg.role === "user")) return;
+    lastSavedMessagesRef.current = state.messages;
+    historyStore
+      .save(state.conversationId, state.messages, state.sidebarState)
+      .then(refreshSavedConversations)
+      .catch((error) => console.error("Failed to save conversation:", error));
+  }, [state.isLoading, state.messages, state.sidebarState, state.conversationId, historyStore, refreshSavedConversations]);
+
   // Helper function to generate unique IDs
   const generateId = () => Math.random().toString(36).substr(2, 9);
 
@@ -181,21 +325,16 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
       });
 
       try {
-        const encryptedInitData = await encryptInitData(initData);
-
-        const response = await fetch(buildApiUrl("/product-info", initData.BOTDOJO_API_ENDPOINT), {
+        const response = await chatSession.fetch("/product-info", (credentials) => ({
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${initData.BOTDOJO_API_KEY}`,
-          },
+          headers: credentials.headers,
           body: JSON.stringify({
             // TODO: temporary fix for BotDojo — ensure SKUs are formatted correctly for the API
             products: productSkus.map((item) => item.split(" ").join("-")),
-            initData: encryptedInitData,
+            ...credentials.body,
             product_source: initData.PRODUCT_SOURCE ?? "",
           }),
-        });
+        }));
 
         if (!response.ok) {
           throw new Error(`Failed to fetch product info: ${response.status}`);
@@ -240,7 +379,7 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
         productInfoInFlightRef.current.delete(messageId);
       }
     },
-    [initData],
+    [initData, chatSession],
   );
 
   // Call product-info when sidebar opens if this message is not already enriched
@@ -310,6 +449,7 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     };
 
     dispatch({ type: "ADD_MESSAGES", payload: [userMessage, typingMessage] });
+    analytics.track({ type: "question_asked", conversationId: state.conversationId, messageId: userMessage.id, question: content });
     dispatch({ type: "SET_LOADING", payload: true });
     dispatch({ type: "SET_REQUEST_START_TIME", payload: Date.now() });
 
@@ -317,43 +457,28 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     const controller = new AbortController();
     dispatch({ type: "SET_ABORT_CONTROLLER", payload: controller });
 
+    let streamId: string | null = null;
+
     try {
       // Record request start time
       const requestStartTime = Date.now();
 
-      // Encrypt initData before sending
-      const encryptedInitData = await encryptInitData(initData);
-      const body = JSON.stringify({ message: content, initData: encryptedInitData });
-      const headers = {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${initData.BOTDOJO_API_KEY}`,
-      };
-
-      // Text-suggQ and products run independently (neither waits for the other). Only text-suggQ is required.
-      const textPromise = fetch(buildApiUrl("/text-suggQ", initData.BOTDOJO_API_ENDPOINT), {
-        method: "POST",
-        headers,
-        body,
-        signal: controller.signal,
-      });
-      const productsPromise = fetch(buildApiUrl("/products", initData.BOTDOJO_API_ENDPOINT), {
+      const history = buildConversationHistory(state.messages);
+      // One trace per turn, shared by its resumes
+      const traceId = createTraceId();
+      const buildRequest = (credentials: RequestCredentials): RequestInit => ({
         method: "POST",
-        headers,
-        body,
+        headers: { ...credentials.headers, [TRACEPARENT_HEADER]: createTraceparent(traceId) },
+        body: JSON.stringify({
+          message: content,
+          conversationId: state.conversationId,
+          history,
+          redactNames: initData.REDACT_NAMES,
+          ...credentials.body,
+        }),
         signal: controller.signal,
       });
 
-      // Resolve text first so we can start reading the stream immediately — do not wait for products.
-      const textResponse = await textPromise;
-      if (!textResponse.ok) {
-        throw new Error("Failed to send message (text)");
-      }
-
-      const textReader = textResponse.body?.getReader();
-      if (!textReader) {
-        throw new Error("Response body is not readable");
-      }
-
       const botMessageId = generateId();
       const botMessage: Message = {
         id: botMessageId,
@@ -363,241 +488,173 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
         isLoadingProducts: true,
         isLoadingSuggestions: true,
       };
-
-      dispatch({ type: "ADD_MESSAGE", payload: botMessage });
-      dispatch({ type: "REMOVE_TYPING_INDICATOR" });
-
-      const decoder = new TextDecoder();
-      let currentTextValue = "";
-
-      const extractTextFromPartialJson = (jsonStr: string): string => {
-        try {
-          const parsed = JSON.parse(jsonStr);
-          if (parsed && typeof parsed === "object" && "text" in parsed && typeof parsed.text === "string") {
-            return parsed.text;
-          }
-        } catch (_) {}
-        const textPattern = /"text"\s*:\s*"((?:[^"\\]|\\.)*)"/;
-        const match = jsonStr.match(textPattern);
-        if (match?.[1]) {
-          return match[1]
-            .replace(/\\"/g, '"')
-            .replace(/\\n/g, "\n")
-            .replace(/\\r/g, "\r")
-            .replace(/\\t/g, "\t")
-            .replace(/\\\\/g, "\\");
-        }
-        const incompletePattern = /"text"\s*:\s*"((?:[^"\\]|\\.)*)$/;
-        const incompleteMatch = jsonStr.match(incompletePattern);
-        if (incompleteMatch?.[1]) {
-          return incompleteMatch[1]
-            .replace(/\\"/g, '"')
-            .replace(/\\n/g, "\n")
-            .replace(/\\r/g, "\r")
-            .replace(/\\t/g, "\t")
-            .replace(/\\\\/g, "\\");
-        }
-        return currentTextValue;
+      const startBotMessage = () => {
+        dispatch({ type: "ADD_MESSAGE", payload: botMessage });
+        dispatch({ type: "REMOVE_TYPING_INDICATOR" });
       };
 
-      const readTextSuggQStream = async () => {
-        let buffer = "";
-        let accumulatedRawText = "";
-        try {
-          while (true) {
-            const { done, value } = await textReader.read();
-            if (done) break;
-            buffer += decoder.decode(value, { stream: true });
-            const events = buffer.split("\n\n");
-            buffer = events.pop() ?? "";
-            for (const event of events) {
-              const trimmed = event.trim();
-              if (!trimmed.startsWith("data: ")) continue;
-              try {
-                const data = JSON.parse(trimmed.substring(6));
-                if (data.type === "chunk" && data.response) {
-                  const { text: chunkText, suggestedQuestions: chunkSuggQ } = data.response;
-                  if (typeof chunkText === "string" && chunkText !== currentTextValue) {
-                    currentTextValue = chunkText;
-                    dispatch({
-                      type: "UPDATE_MESSAGE",
-                      payload: { id: botMessageId, content: { text: chunkText } },
-                    });
-                  }
-                  if (Array.isArray(chunkSuggQ) && chunkSuggQ.length > 0) {
-                    dispatch({
-                      type: "UPDATE_MESSAGE",
-                      payload: {
-                        id: botMessageId,
-                        suggestedQuestions: chunkSuggQ,
-                        isLoadingSuggestions: false,
-                      },
-                    });
-                  }
-                } else if (data.type === "chunk" && typeof data.data === "string") {
-                  // Fallback: raw token stream (legacy)
-                  const token = data.data;
-                  if (token) {
-                    accumulatedRawText += token;
-                    const trimmedAcc = accumulatedRawText.trim();
-                    if (trimmedAcc.startsWith("{") || trimmedAcc.startsWith("[")) {
-                      const extracted = extractTextFromPartialJson(accumulatedRawText);
-                      if (extracted !== currentTextValue) {
-                        currentTextValue = extracted;
-                        dispatch({
-                          type: "UPDATE_MESSAGE",
-                          payload: { id: botMessageId, content: { text: extracted } },
-                        });
-                      }
-                    } else {
-                      currentTextValue = accumulatedRawText;
-                      dispatch({
-                        type: "UPDATE_MESSAGE",
-                        payload: { id: botMessageId, content: { text: accumulatedRawText } },
-                      });
-                    }
-                  }
-                } else if (data.type === "done" && data.response) {
-                  const { text, suggestedQuestions = [] } = data.response;
-                  if (text && typeof text === "string") {
-                    dispatch({
-                      type: "UPDATE_MESSAGE",
-                      payload: { id: botMessageId, content: { text } },
-                    });
-                  }
-                  dispatch({
-                    type: "UPDATE_MESSAGE",
-                    payload: {
-                      id: botMessageId,
-                      suggestedQuestions,
-                      isLoadingSuggestions: false,
-                    },
-                  });
-                } else if (data.type === "error") {
-                  throw new Error(data.error || "Stream error");
-                }
-              } catch (e) {
-                if (e instanceof Error && e.message !== "Stream error") {
-                  console.error("Error parsing text-suggQ SSE:", e);
-                }
-                throw e;
-              }
+      let currentTextValue = "";
+      let productSkus: string[] = [];
+      let hadProductDetails = false;
+      let requestId: string | undefined;
+      // Tools still running, most recent last; their labels replace the rotating loading texts
+      const activeTools: Array<{ tool: string; label: string }> = [];
+
+      const handleEvent = (event: ChatStreamEvent) => {
+        switch (event.type) {
+          case "text.delta":
+            currentTextValue = event.reset ? event.delta : currentTextValue + event.delta;
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: { id: botMessageId, content: { text: currentTextValue } },
+            });
+            break;
+          case "progress": {
+            if (event.stage === "start") {
+              activeTools.push({ tool: event.tool, label: event.label });
+            } else {
+              const index = activeTools.map((entry) => entry.tool).lastIndexOf(event.tool);
+              if (index !== -1) activeTools.splice(index, 1);
             }
-          }
-          if (buffer.trim()) {
-            const line = buffer.trim();
-            if (line.startsWith("data: ")) {
-              const data = JSON.parse(line.substring(6));
-              if (data.type === "done" && data.response) {
-                const { text, suggestedQuestions = [] } = data.response;
-                if (text) {
-                  dispatch({
-                    type: "UPDATE_MESSAGE",
-                    payload: { id: botMessageId, content: { text } },
-                  });
-                }
-                dispatch({
-                  type: "UPDATE_MESSAGE",
-                  payload: {
-                    id: botMessageId,
-                    suggestedQuestions,
-                    isLoadingSuggestions: false,
-                  },
-                });
-              }
+            // Once every tool has finished, keep showing the last step rather than going back to the generic texts
+            const latest = activeTools[activeTools.length - 1];
+            if (latest) {
+              dispatch({ type: "UPDATE_MESSAGE", payload: { id: botMessageId, progressText: latest.label } });
             }
+            break;
           }
-        } finally {
-          textReader.releaseLock();
-        }
-      };
-
-      let hadProductsFromStream = false;
-      const readProductsStream = async (productsReader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> => {
-        let buffer = "";
-        try {
-          while (true) {
-            const { done, value } = await productsReader.read();
-            if (done) break;
-            buffer += decoder.decode(value, { stream: true });
-            const events = buffer.split("\n\n");
-            buffer = events.pop() ?? "";
-            for (const event of events) {
-              const trimmed = event.trim();
-              if (!trimmed.startsWith("data: ")) continue;
-              try {
-                const data = JSON.parse(trimmed.substring(6));
-                if (data.type === "done" && data.response) {
-                  const products = Array.isArray(data.response.products) ? data.response.products : [];
-                  if (products.length > 0) hadProductsFromStream = true;
-                  dispatch({
-                    type: "UPDATE_MESSAGE",
-                    payload: {
-                      id: botMessageId,
-                      isLoadingProducts: false,
-                      ...(products.length > 0
-                        ? {
-                          structured: { type: "product" as const, data: products },
-                        }
-                        : {}),
-                    },
-                  });
-                  if (products.length > 0) {
-                    const skus = extractProductSkus(products);
-                    if (skus.length > 0) {
-                      void fetchProductInfoForMessage(botMessageId, skus);
-                    }
+          case "suggestions":
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: {
+                id: botMessageId,
+                suggestedQuestions: event.suggestedQuestions,
+                isLoadingSuggestions: false,
+              },
+            });
+            break;
+          case "safety":
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: {
+                id: botMessageId,
+                safety: { action: event.action, findings: event.findings, disclaimers: event.disclaimers },
+              },
+            });
+            break;
+          case "products.skus":
+            productSkus = event.skus;
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: {
+                id: botMessageId,
+                isLoadingProducts: false,
+                ...(productSkus.length > 0
+                  ? {
+                    structured: { type: "product" as const, data: productSkus },
+                    isLoadingProductInfo: true,
                   }
-                  return;
-                }
-                if (data.type === "error") {
-                  throw new Error(data.error || "Stream error");
-                }
-              } catch (e) {
-                if (e instanceof Error && e.message !== "Stream error") {
-                  console.error("Error parsing products SSE:", e);
-                }
-                throw e;
-              }
+                  : {}),
+              },
+            });
+            break;
+          case "products.detail":
+            hadProductDetails = true;
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: {
+                id: botMessageId,
+                structured: { type: "product" as const, data: normalizeProducts(event.products) },
+                isLoadingProductInfo: false,
+                productInfoResolved: true,
+                productInfoCount: event.products.length,
+              },
+            });
+            break;
+          case "done":
+            requestId = event.requestId;
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: {
+                id: botMessageId,
+                ...(event.text ? { content: { text: event.text } } : {}),
+                requestId: event.requestId,
+                suggestedQuestions: event.suggestedQuestions,
+                isLoadingSuggestions: false,
+                isLoadingProducts: false,
+                progressText: undefined,
+              },
+            });
+            break;
+          case "error":
+            if (event.source === "text") {
+              throw event.retryAfter !== undefined
+                ? new RateLimitedError(event.error, event.retryAfter)
+                : new Error(event.error || "Stream error");
             }
-          }
-          dispatch({
-            type: "UPDATE_MESSAGE",
-            payload: { id: botMessageId, isLoadingProducts: false },
-          });
-        } catch (err) {
-          console.error("Products stream error:", err);
-          dispatch({
-            type: "UPDATE_MESSAGE",
-            payload: { id: botMessageId, isLoadingProducts: false },
-          });
-        } finally {
-          productsReader.releaseLock();
+            // Do not throw on products failure — text and suggestedQuestions must always show
+            console.error("Products stream error:", event.error);
+            dispatch({
+              type: "UPDATE_MESSAGE",
+              payload: { id: botMessageId, isLoadingProducts: false, isLoadingProductInfo: false },
+            });
+            break;
         }
       };
 
-      // Start text stream immediately so chunks and "done" render without waiting for products.
-      const textStreamPromise = readTextSuggQStream();
-      const productsFlowPromise = (async () => {
-        let productsReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
-        try {
-          const productsResponse = await productsPromise;
-          if (productsResponse.ok && productsResponse.body) {
-            productsReader = productsResponse.body.getReader();
-          }
-        } catch (_) {
-          // Do not throw on products failure — text and suggestedQuestions must always show
+      if (chatSocket) {
+        // Stopping sends chat.cancel on the socket, so the stream needs no DELETE afterwards
+        await chatSocket.stream(
+          {
+            message: content,
+            conversationId: state.conversationId,
+            history,
+            redactNames: initData.REDACT_NAMES,
+            traceparent: createTraceparent(traceId),
+          },
+          {
+            onStarted: startBotMessage,
+            onEvent: handleEvent,
+          },
+          controller.signal,
+        );
+      } else {
+        // One connection carries the text, suggested questions and products (SKUs, then catalog details)
+        const response = await chatSession.fetch("/chat/stream", buildRequest);
+        if (response.status === 429) {
+          throw new RateLimitedError("Too many requests", getRetryAfter(response));
         }
-        if (!productsReader) {
-          dispatch({
-            type: "UPDATE_MESSAGE",
-            payload: { id: botMessageId, isLoadingProducts: false },
-          });
-          return;
+        if (!response.ok) {
+          throw new Error("Failed to send message");
         }
-        await readProductsStream(productsReader);
-      })();
-      await Promise.all([textStreamPromise, productsFlowPromise]);
+        streamId = response.headers.get(STREAM_ID_HEADER);
+        startBotMessage();
+
+        await readChatStream(response, handleEvent, (lastEventId) =>
+          // Resume after a network blip: the server replays everything after lastEventId
+          chatSession.fetch("/chat/stream", (credentials) => {
+            const init = buildRequest(credentials);
+            return {
+              ...init,
+              headers: { ...credentials.headers, [TRACEPARENT_HEADER]: createTraceparent(traceId), [LAST_EVENT_ID_HEADER]: lastEventId },
+            };
+          }),
+        );
+      }
+
+      dispatch({
+        type: "UPDATE_MESSAGE",
+        payload: { id: botMessageId, isLoadingProducts: false, isLoadingSuggestions: false },
+      });
+
+      // Servers without catalog credentials send SKUs only; look the details up the old way
+      const hadProductsFromStream = productSkus.length > 0;
+      if (hadProductsFromStream && !hadProductDetails) {
+        const skus = extractProductSkus(productSkus);
+        if (skus.length > 0) {
+          void fetchProductInfoForMessage(botMessageId, skus);
+        }
+      }
 
       // Open products drawer only when we got products; UI shows products block only after text/suggQ are rendered (see MessageRenderer).
       if (hadProductsFromStream) {
@@ -606,6 +663,10 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
           payload: { isOpen: true, messageId: botMessageId },
         });
         window.dispatchEvent(new CustomEvent("chatbotRecommendationsOpened"));
+
+        const skus = extractProductSkus(productSkus);
+        analytics.track({ type: "products_shown", conversationId: state.conversationId, messageId: botMessageId, requestId, skus });
+        analytics.track({ type: "sidebar_opened", conversationId: state.conversationId, messageId: botMessageId, requestId, skus });
       }
 
       const elapsedSeconds = Math.round((Date.now() - requestStartTime) / 1000);
@@ -619,6 +680,19 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
 
       // Check if the request was aborted
       if (error instanceof Error && error.name === "AbortError") {
+        // The server keeps an interrupted stream alive for a while in case it is resumed; stop it now.
+        // Without a stream id no event has arrived yet, and the server cancels the stream when the connection closes.
+        if (streamId) {
+          const cancelledStreamId = streamId;
+          void chatSession
+            .fetch(`/chat/stream/${encodeURIComponent(cancelledStreamId)}`, (credentials) => ({
+              method: "DELETE",
+              headers: credentials.headers,
+              body: JSON.stringify(credentials.body),
+              keepalive: true,
+            }))
+            .catch(() => {});
+        }
         // Remove typing indicator and add cancellation message
         dispatch({ type: "REMOVE_TYPING_INDICATOR" });
         const cancelledMessage: Message = {
@@ -631,12 +705,15 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
       } else {
         // Remove typing indicator and add error message
         dispatch({ type: "REMOVE_TYPING_INDICATOR" });
+        const retryAfter = error instanceof RateLimitedError ? error.retryAfterSeconds : undefined;
         const errorMessage: Message = {
           id: generateId(),
           role: "bot",
           type: "text",
           content: {
-            text: "Sorry, there was an error processing your message. Please try again.",
+            text: error instanceof RateLimitedError
+              ? `You're sending messages faster than we can answer. Please try again${retryAfter ? ` in ${formatDuration(retryAfter)}` : " shortly"}.`
+              : "Sorry, there was an error processing your message. Please try again.",
           },
         };
         dispatch({ type: "ADD_MESSAGE", payload: errorMessage });
@@ -652,8 +729,15 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     await sendMessage(value);
   };
 
+  const handleSuggestionClick = async (question: string) => {
+    analytics.track({ type: "suggestion_clicked", conversationId: state.conversationId, question });
+    await sendMessage(question);
+  };
+
   const cancelRequest = () => {
     if (state.abortController) {
+      const question = [...state.messages].reverse().find((msg) => msg.role === "user");
+      analytics.track({ type: "cancelled", conversationId: state.conversationId, messageId: question?.id });
       state.abortController.abort();
     }
   };
@@ -665,11 +749,74 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     window.dispatchEvent(new CustomEvent('chatbotRecommendationsClosed'));
   };
 
+  const handleOpenConversation = async (conversationId: string) => {
+    // Switching mid-turn would leave the running turn writing into the reopened conversation
+    if (state.isLoading || conversationId === state.conversationId) return;
+
+    const conversation = await historyStore.get(conversationId).catch((error) => {
+      console.error("Failed to open conversation:", error);
+      return undefined;
+    });
+    if (!conversation) {
+      void refreshSavedConversations();
+      return;
+    }
+
+    lastSavedMessagesRef.current = conversation.messages;
+    dispatch({ type: "LOAD_CONVERSATION", payload: conversation });
+    window.dispatchEvent(new CustomEvent(conversation.sidebarState.isOpen ? "chatbotRecommendationsOpened" : "chatbotRecommendationsClosed"));
+  };
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    try {
+      await historyStore.rename(conversationId, title);
+    } catch (error) {
+      console.error("Failed to rename conversation:", error);
+    }
+    await refreshSavedConversations();
+  };
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      await historyStore.delete(conversationId);
+    } catch (error) {
+      console.error("Failed to delete conversation:", error);
+    }
+    // Servers that save conversations keep their own copy; a 404 means this one was never saved there
+    try {
+      if (await chatSession.hasConversationHistory()) {
+        const response = await chatSession.fetch(`/conversations/${encodeURIComponent(conversationId)}`, (credentials) => ({
+          method: "DELETE",
+          headers: credentials.headers,
+          body: JSON.stringify(credentials.body),
+        }));
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Failed to delete conversation on the server: ${response.status}`);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to delete conversation on the server:", error);
+    }
+    // Deleting the open conversation starts a new one
+    if (conversationId === state.conversationId && !state.isLoading) {
+      handleNewChat();
+    }
+    await refreshSavedConversations();
+  };
+
   const handleViewRecommendations = (messageId: string) => {
     dispatch({
       type: "SET_SIDEBAR_STATE",
       payload: { isOpen: true, messageId },
     });
+    const message = state.messages.find((msg) => msg.id === messageId);
+    analytics.track({
+      type: "sidebar_opened",
+      conversationId: state.conversationId,
+      messageId,
+      requestId: message?.requestId,
+      skus: message?.structured?.type === "product" ? extractProductSkus(message.structured.data) : [],
+    });
     // Dispatch custom event when sidebar is opened
     window.dispatchEvent(new CustomEvent('chatbotRecommendationsOpened'));
   };
@@ -687,20 +834,14 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     try {
       dispatch({ type: "SET_LOADING", payload: true });
 
-      // Encrypt initData before sending
-      const encryptedInitData = await encryptInitData(initData);
-
-      const response = await fetch(buildApiUrl("/test-structured", initData.BOTDOJO_API_ENDPOINT), {
+      const response = await chatSession.fetch("/test-structured", (credentials) => ({
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${initData.BOTDOJO_API_KEY}`
-        },
+        headers: credentials.headers,
         body: JSON.stringify({
           contentType,
-          initData: encryptedInitData
+          ...credentials.body,
         }),
-      });
+      }));
 
       if (!response.ok) {
         throw new Error("Failed to fetch test content");
@@ -751,21 +892,18 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
 
     dispatch({ type: "SET_LOADING_SUGGESTIONS", payload: true });
     try {
-      const encryptedInitData = await encryptInitData(initData);
       const context = getSuggestionsContext();
 
-      const response = await fetch(buildApiUrl("/suggestions", initData.BOTDOJO_API_ENDPOINT), {
+      const response = await chatSession.fetch("/suggestions", (credentials) => ({
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${initData.BOTDOJO_API_KEY}`,
-        },
+        headers: credentials.headers,
         body: JSON.stringify({
           context,
           currentSetIndex: 0,
-          initData: encryptedInitData,
+          redactNames: initData.REDACT_NAMES,
+          ...credentials.body,
         }),
-      });
+      }));
 
       if (!response.ok) {
         throw new Error("Failed to refresh suggestions");
@@ -838,6 +976,53 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     dispatch({ type: "REMOVE_SUGGESTIONS", payload: messageId });
   };
 
+  // Feedback on an answer, or on one product (sku) recommended with it; shown as given right away and sent with the
+  // question, answer and recommended SKUs so the server can store it on its own
+  const handleFeedback = async (messageId: string, feedback: Feedback, sku?: string) => {
+    const index = state.messages.findIndex((msg) => msg.id === messageId);
+    const message = state.messages[index];
+    if (!message) return;
+
+    dispatch({
+      type: "UPDATE_MESSAGE",
+      payload: sku
+        ? { id: messageId, productFeedback: { ...message.productFeedback, [sku]: feedback } }
+        : { id: messageId, feedback },
+    });
+
+    const question = state.messages
+      .slice(0, index)
+      .reverse()
+      .find((msg) => msg.role === "user" && typeof msg.content?.text === "string");
+    const skus = message.structured?.type === "product" ? extractProductSkus(message.structured.data) : [];
+
+    try {
+      const response = await chatSession.fetch("/feedback", (credentials) => ({
+        method: "POST",
+        headers: credentials.headers,
+        body: JSON.stringify({
+          messageId,
+          conversationId: state.conversationId,
+          requestId: message.requestId,
+          target: sku ? "product" : "answer",
+          sku,
+          ...feedback,
+          question: question?.content.text ?? "",
+          answer: message.content?.text ?? "",
+          skus,
+          redactNames: initData.REDACT_NAMES,
+          ...credentials.body,
+        }),
+      }));
+
+      if (!response.ok) {
+        throw new Error(`Failed to send feedback: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error sending feedback:", error);
+    }
+  };
+
   const contextValue: ChatContextType = {
     state,
     dispatch,
@@ -845,6 +1030,7 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     generateId,
     sendMessage,
     handleButtonClick,
+    handleSuggestionClick,
     cancelRequest,
     handleNewChat,
     handleViewRecommendations,
@@ -852,6 +1038,10 @@ export function ChatProvider({ children, initData }: ChatProviderProps) {
     handleTestStructuredContent,
     handleRefreshSuggestions,
     handleRemoveSuggestions,
+    handleFeedback,
+    handleOpenConversation,
+    handleRenameConversation,
+    handleDeleteConversation,
     getSuggestedQuestions,
     getSuggestionsContext,
   };
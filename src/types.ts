@@ -17,6 +17,47 @@ export type Message = {
   /** Count from API response `products` array when /product-info succeeds */
   productInfoCount?: number;
   responseTimeSeconds?: number; // Time from request start to stream completion
+  /** What the assistant is doing right now (e.g. "Searching catalog"), from /chat/stream progress events */
+  progressText?: string;
+  /** Safety guardrail rules the answer matched, from the /chat/stream safety event */
+  safety?: SafetyReport;
+  /** Server request id of the turn that produced this answer, from the done event; sent with feedback */
+  requestId?: string;
+  /** The practitioner's feedback on this answer */
+  feedback?: Feedback;
+  /** The practitioner's feedback on the products recommended with this answer, by SKU */
+  productFeedback?: Record<string, Feedback>;
+};
+
+// Practitioner feedback on an answer or a recommended product (mirrors the server's FeedbackRequest)
+export type FeedbackRating = "helpful" | "not_helpful";
+export type FeedbackReason =
+  | "inaccurate" | "not_relevant" | "incomplete" | "unsafe" | "wrong_products" // answers
+  | "contraindicated" | "wrong_form" | "unavailable" // products
+  | "other";
+
+export type Feedback = {
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+  comment?: string;
+};
+
+// What the server's safety guardrails did to an answer (mirrors the server's SafetyReport)
+export type SafetyReport = {
+  action: "flag" | "disclaimer" | "rewrite" | "block"; // strongest action applied
+  findings: Array<{
+    rule: string;
+    category: "dosage" | "cure_claim" | "pregnancy" | "pediatric" | "custom";
+    action: "flag" | "disclaimer" | "rewrite" | "block";
+    source: "answer" | "message";
+  }>;
+  disclaimers: string[]; // already appended to the answer text
+};
+
+// A prior turn forwarded to the server for multi-turn conversation memory
+export type ConversationTurn = {
+  role: "user" | "assistant";
+  content: string;
 };
 
 // Raw product data from the API
@@ -96,6 +137,28 @@ export type ChatResponse = {
   };
 };
 
+// Events streamed by POST /chat/stream (mirrors the server's ChatStreamEvent)
+export type ChatStreamEvent =
+  | { type: "text.delta"; delta: string; reset?: boolean } // reset: delta replaces the text received so far
+  | { type: "progress"; stage: "start" | "end"; tool: string; label: string } // a flow tool started or finished
+  | { type: "suggestions"; suggestedQuestions: string[] }
+  | ({ type: "safety" } & SafetyReport) // sent before done when a guardrail rule matched
+  | { type: "products.skus"; skus: string[] }
+  | { type: "products.detail"; products: RawProductApiResponse[]; failed: string[] }
+  | { type: "done"; text: string; suggestedQuestions: string[]; products: string[]; requestId?: string }
+  | { type: "error"; source: "text" | "products"; error: string; retryAfter?: number }; // text errors end the stream; retryAfter (seconds) when rate limited
+
+// How ChatProvider reaches POST /chat/stream's events: server-sent events, or the /chat/ws WebSocket for hosts
+// behind proxies that buffer text/event-stream
+export type ChatTransport = "sse" | "websocket";
+
+// Frames sent by the server over /chat/ws (mirrors the server's ChatSocketServerFrame)
+export type ChatSocketServerFrame =
+  | { type: "chat.started"; id: string; streamId: string }
+  | { type: "chat.event"; id: string; eventId: string; event: ChatStreamEvent }
+  | { type: "chat.end"; id: string } // no more events for this turn
+  | { type: "chat.error"; id?: string; status: number; error: string; code?: string; retryAfter?: number }; // the turn was rejected before it started
+
 export type SidebarContent = {
   title: string;
   products: Array<{
@@ -111,3 +174,34 @@ export type SidebarState = {
   isOpen: boolean;
   messageId: string | null;
 };
+
+// A conversation kept in the browser's history (IndexedDB) so it can be reopened and continued
+export type SavedConversation = {
+  id: string; // the conversationId sent with each turn, so the server's memory of it carries on
+  scope: string; // tenant or BotDojo account the widget was configured for; history is listed per scope
+  title: string; // first question, unless renamed
+  titleEdited?: boolean; // renamed by the user; later saves keep the title
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  messages: Message[];
+  sidebarState: SidebarState; // product sidebar as it was when the conversation was last saved
+};
+
+// Widget analytics sent to POST /events in batches (mirrors the server's AnalyticsEventInput)
+export type AnalyticsEventType =
+  | "question_asked"
+  | "products_shown"
+  | "sidebar_opened"
+  | "product_selected"
+  | "suggestion_clicked"
+  | "cancelled";
+
+export type AnalyticsEvent = {
+  type: AnalyticsEventType;
+  conversationId: string;
+  messageId?: string; // the question for question_asked and cancelled, the answer otherwise
+  requestId?: string;
+  question?: string;
+  skus?: string[];
+  sku?: string;
+};
@@ -0,0 +1,127 @@
+import type { AnalyticsEvent } from "@types";
+import type { ChatSession } from "./chatSession";
+
+// A batch is sent once this many events are queued, or this long after the first one
+const BATCH_SIZE = 20;
+const FLUSH_DELAY_MS = 5000;
+
+// Events kept while the server can't be reached; the oldest are dropped beyond this
+const MAX_QUEUED_EVENTS = 200;
+
+/**
+ * Recommendation analytics emitter
+ *
+ * Queues widget events (questions asked, products shown and selected, sidebar opens, suggestion clicks, cancels)
+ * and posts them to /events in batches over the chat session. Batches that fail on the network, a 429 or a 5xx
+ * are queued again; a server without /events (404) turns the emitter off. Hiding the page sends what is queued
+ * with a keepalive request.
+ */
+export class AnalyticsEmitter {
+  private session: ChatSession;
+  private redactNames?: string[];
+  private queue: AnalyticsEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private active = false;
+  private sending = false;
+  private disabled = false;
+
+  /**
+   * @param session - Chat session the batches are authenticated with
+   * @param redactNames - Names the server redacts from questions, as sent with chat messages
+   */
+  constructor(session: ChatSession, redactNames?: string[]) {
+    this.session = session;
+    this.redactNames = redactNames;
+  }
+
+  /**
+   * Start sending batches (call when the widget mounts)
+   */
+  start(): void {
+    this.active = true;
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    this.schedule();
+  }
+
+  /**
+   * Send what is queued and stop (call when the widget unmounts, before its session is closed)
+   */
+  stop(): void {
+    this.active = false;
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    void this.flush(true);
+  }
+
+  track(event: AnalyticsEvent): void {
+    if (this.disabled) return;
+    this.queue.push(event);
+    if (this.queue.length > MAX_QUEUED_EVENTS) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUED_EVENTS);
+    }
+    if (this.queue.length >= BATCH_SIZE) {
+      void this.flush();
+    } else {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Send the next batch now
+   *
+   * @param keepalive - The page may be going away: let the request outlive it
+   */
+  async flush(keepalive: boolean = false): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // A keepalive flush doesn't wait for a batch in flight, the page may not be there when it returns
+    if (this.disabled || (this.sending && !keepalive) || this.queue.length === 0) return;
+
+    const batch = this.queue.splice(0, BATCH_SIZE);
+    this.sending = true;
+    try {
+      const response = await this.session.fetch("/events", (credentials) => ({
+        method: "POST",
+        headers: credentials.headers,
+        body: JSON.stringify({ events: batch, redactNames: this.redactNames, ...credentials.body }),
+        keepalive,
+      }));
+
+      if (response.status === 404) {
+        // Server without analytics
+        this.disabled = true;
+        this.queue = [];
+        return;
+      }
+      if (response.status === 429 || response.status >= 500) {
+        throw new Error(`Failed to send analytics: ${response.status}`);
+      }
+      if (!response.ok) {
+        // The server won't take this batch later either
+        console.error(`Analytics batch rejected: ${response.status}`);
+      }
+    } catch (error) {
+      this.queue.unshift(...batch);
+      this.queue.splice(0, Math.max(0, this.queue.length - MAX_QUEUED_EVENTS));
+      console.error("Error sending analytics:", error);
+    } finally {
+      this.sending = false;
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (!this.active || this.disabled || this.timer || this.queue.length === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      void this.flush(true);
+    }
+  };
+}
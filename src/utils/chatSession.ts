@@ -0,0 +1,171 @@
+import type { InitData } from "@containers/Chatbot";
+import { buildApiUrl } from "./apiUrl";
+import { syncPublicKeyId } from "./encryption";
+import { getRequestCredentials, type RequestCredentials } from "./requestAuth";
+import { createTraceparent, TRACEPARENT_HEADER } from "./traceContext";
+
+export const SESSION_TOKEN_HEADER = "X-Session-Token";
+
+// Refresh a little before the server-side expiry so in-flight requests don't race it
+const SESSION_REFRESH_MARGIN_MS = 30 * 1000;
+
+interface SessionInfo {
+  token: string;
+  expiresAt: number; // ms since epoch
+  conversationHistory: boolean; // The server saves this session's turns under /conversations
+}
+
+/**
+ * Add a traceparent header to a request that doesn't carry one
+ */
+function withTraceparent(init: RequestInit): RequestInit {
+  const headers = new Headers(init.headers);
+  if (!headers.has(TRACEPARENT_HEADER)) {
+    headers.set(TRACEPARENT_HEADER, createTraceparent());
+  }
+  return { ...init, headers };
+}
+
+/**
+ * Session handshake client
+ *
+ * Sends the widget credentials (encrypted initData or tenant token) to /session once and
+ * authenticates every later request with the returned session token. The handshake is
+ * repeated shortly before the session expires, or when the server rejects the token.
+ * Servers without a /session endpoint get per-request credentials as before.
+ */
+export class ChatSession {
+  private initData: InitData;
+  private session: SessionInfo | null = null;
+  private pendingHandshake: Promise<SessionInfo | null> | null = null;
+  private handshakeUnsupported = false;
+
+  constructor(initData: InitData) {
+    this.initData = initData;
+  }
+
+  /**
+   * Credentials for the next request, performing the handshake if needed
+   */
+  async getCredentials(): Promise<RequestCredentials> {
+    const session = await this.ensureSession();
+    if (!session) {
+      return getRequestCredentials(this.initData);
+    }
+
+    return {
+      headers: {
+        "Content-Type": "application/json",
+        [SESSION_TOKEN_HEADER]: session.token,
+      },
+      body: {},
+    };
+  }
+
+  /**
+   * Whether the server keeps this widget's conversations too (performing the handshake if needed)
+   */
+  async hasConversationHistory(): Promise<boolean> {
+    const session = await this.ensureSession();
+    return session?.conversationHistory ?? false;
+  }
+
+  /**
+   * Fetch an API path with session credentials
+   * A 401 for a session token re-runs the handshake and retries the request once.
+   * Requests start a new trace unless buildInit sets a traceparent header.
+   *
+   * @param path - API path (e.g. "/text-suggQ")
+   * @param buildInit - Builds the request from the credentials (headers and body fields to merge)
+   */
+  async fetch(path: string, buildInit: (credentials: RequestCredentials) => RequestInit): Promise<Response> {
+    const url = buildApiUrl(path, this.initData.BOTDOJO_API_ENDPOINT);
+    const credentials = await this.getCredentials();
+
+    let response = await fetch(url, withTraceparent(buildInit(credentials)));
+    syncPublicKeyId(response);
+
+    const sessionToken = credentials.headers[SESSION_TOKEN_HEADER];
+    if (response.status === 401 && sessionToken) {
+      this.invalidate(sessionToken);
+      response = await fetch(url, withTraceparent(buildInit(await this.getCredentials())));
+      syncPublicKeyId(response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Drop the current session (only if it is still the given token, so a
+   * concurrent refresh is not thrown away)
+   */
+  invalidate(token?: string): void {
+    if (!token || this.session?.token === token) {
+      this.session = null;
+    }
+  }
+
+  /**
+   * End the session on the server (best effort)
+   */
+  async close(): Promise<void> {
+    const session = this.session;
+    this.session = null;
+    if (!session) return;
+
+    try {
+      await fetch(buildApiUrl("/session", this.initData.BOTDOJO_API_ENDPOINT), {
+        method: "DELETE",
+        headers: { [SESSION_TOKEN_HEADER]: session.token },
+        keepalive: true,
+      });
+    } catch {
+      // The session expires on its own
+    }
+  }
+
+  private async ensureSession(): Promise<SessionInfo | null> {
+    if (this.handshakeUnsupported) {
+      return null;
+    }
+    if (this.session && this.session.expiresAt - SESSION_REFRESH_MARGIN_MS > Date.now()) {
+      return this.session;
+    }
+
+    // Concurrent requests (e.g. /text-suggQ and /products) share one handshake
+    if (!this.pendingHandshake) {
+      this.pendingHandshake = this.handshake().finally(() => {
+        this.pendingHandshake = null;
+      });
+    }
+    return this.pendingHandshake;
+  }
+
+  private async handshake(): Promise<SessionInfo | null> {
+    const credentials = await getRequestCredentials(this.initData);
+
+    const response = await fetch(buildApiUrl("/session", this.initData.BOTDOJO_API_ENDPOINT), {
+      method: "POST",
+      headers: { ...credentials.headers, [TRACEPARENT_HEADER]: createTraceparent() },
+      body: JSON.stringify(credentials.body),
+    });
+    syncPublicKeyId(response);
+
+    if (response.status === 404) {
+      // Server predates the session handshake
+      this.handshakeUnsupported = true;
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Session handshake failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    this.session = {
+      token: data.sessionToken,
+      expiresAt: Date.parse(data.expiresAt),
+      conversationHistory: data.conversationHistory === true,
+    };
+    return this.session;
+  }
+}
@@ -0,0 +1,198 @@
+import type { ChatSocketServerFrame, ChatStreamEvent } from "@types";
+import { buildApiUrl } from "./apiUrl";
+import { SESSION_TOKEN_HEADER, type ChatSession } from "./chatSession";
+import { RateLimitedError } from "./chatStream";
+
+/**
+ * A turn rejected by the server before it started (chat.error frame)
+ */
+export class ChatSocketError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ChatSocketError";
+    this.status = status;
+  }
+}
+
+/**
+ * Callbacks for one turn sent over the socket
+ */
+export interface ChatSocketTurnHandlers {
+  onStarted?: (streamId: string) => void;
+  onEvent: (event: ChatStreamEvent) => void;
+}
+
+interface PendingTurn {
+  onFrame: (frame: ChatSocketServerFrame) => void;
+  onClose: () => void;
+}
+
+/**
+ * Turn an API path into a ws:// or wss:// URL on the same host as the page (or the endpoint, if absolute)
+ */
+function buildSocketUrl(path: string, endpoint?: string): string {
+  const url = new URL(buildApiUrl(path, endpoint), window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+}
+
+/**
+ * Chat over the /chat/ws WebSocket, for host apps behind proxies that buffer text/event-stream
+ *
+ * Carries the same events as POST /chat/stream. One socket is opened lazily and shared by all turns;
+ * each turn authenticates with the session token from the /session handshake. Stopping a turn sends
+ * a chat.cancel frame instead of dropping the connection. A socket that drops mid-turn fails the turn
+ * (there is no resume over WebSocket); the next turn opens a new socket.
+ */
+export class ChatSocketClient {
+  private session: ChatSession;
+  private url: string;
+  private socket: Promise<WebSocket> | null = null;
+  private turns = new Map<string, PendingTurn>();
+  private nextTurnId = 1;
+
+  constructor(session: ChatSession, endpoint?: string) {
+    this.session = session;
+    this.url = buildSocketUrl("/chat/ws", endpoint);
+  }
+
+  /**
+   * Send a message and hand each event to handlers.onEvent until the turn is complete
+   * A 401 for the session token re-runs the handshake and retries once, like ChatSession.fetch.
+   *
+   * @param body - Same fields as the POST /chat/stream body (message, conversationId, history, redactNames), plus the traceparent
+   *   that a POST would send as a header
+   * @param handlers - Turn callbacks; an error thrown by onEvent fails the turn
+   * @param signal - Aborting sends chat.cancel and rejects with an AbortError
+   */
+  async stream(body: Record<string, unknown>, handlers: ChatSocketTurnHandlers, signal: AbortSignal): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      const credentials = await this.session.getCredentials();
+      const sessionToken = credentials.headers[SESSION_TOKEN_HEADER];
+      if (!sessionToken) {
+        throw new Error("The WebSocket transport requires a server with the /session handshake");
+      }
+
+      try {
+        await this.runTurn({ ...body, sessionToken }, handlers, signal);
+        return;
+      } catch (error) {
+        if (error instanceof ChatSocketError && error.status === 401 && attempt === 0) {
+          this.session.invalidate(sessionToken);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Close the socket; turns still running fail
+   */
+  close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    void socket?.then((ws) => ws.close(1000), () => {});
+  }
+
+  private runTurn(body: Record<string, unknown>, handlers: ChatSocketTurnHandlers, signal: AbortSignal): Promise<void> {
+    const id = String(this.nextTurnId++);
+
+    return new Promise<void>((resolve, reject) => {
+      let finished = false;
+
+      const settle = (error?: unknown) => {
+        if (!this.turns.delete(id)) return;
+        signal.removeEventListener("abort", onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const onAbort = () => {
+        void this.send({ type: "chat.cancel", id }).catch(() => {});
+        settle(new DOMException("The turn was cancelled", "AbortError"));
+      };
+
+      if (signal.aborted) {
+        reject(new DOMException("The turn was cancelled", "AbortError"));
+        return;
+      }
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      this.turns.set(id, {
+        onFrame: (frame) => {
+          try {
+            switch (frame.type) {
+              case "chat.started":
+                handlers.onStarted?.(frame.streamId);
+                break;
+              case "chat.event":
+                if (frame.event.type === "done" || (frame.event.type === "error" && frame.event.source === "text")) {
+                  finished = true;
+                }
+                handlers.onEvent(frame.event);
+                break;
+              case "chat.end":
+                settle(finished ? undefined : new Error("Chat stream ended before the response was complete"));
+                break;
+              case "chat.error":
+                settle(frame.status === 429
+                  ? new RateLimitedError(frame.error, frame.retryAfter)
+                  : new ChatSocketError(frame.error, frame.status));
+                break;
+            }
+          } catch (error) {
+            settle(error);
+          }
+        },
+        onClose: () => settle(new Error("Chat socket closed before the response was complete")),
+      });
+
+      this.send({ type: "chat.send", id, ...body }).catch((error) => settle(error));
+    });
+  }
+
+  private async send(frame: Record<string, unknown>): Promise<void> {
+    const socket = await this.open();
+    socket.send(JSON.stringify(frame));
+  }
+
+  private open(): Promise<WebSocket> {
+    if (!this.socket) {
+      const pending = new Promise<WebSocket>((resolve, reject) => {
+        const ws = new WebSocket(this.url);
+        ws.onopen = () => resolve(ws);
+        ws.onmessage = (message) => this.dispatch(message.data);
+        ws.onclose = () => {
+          if (this.socket === pending) this.socket = null;
+          reject(new Error("Chat socket could not be opened"));
+          this.turns.forEach((turn) => turn.onClose());
+        };
+      });
+      this.socket = pending;
+    }
+    return this.socket;
+  }
+
+  private dispatch(data: unknown): void {
+    let frame: ChatSocketServerFrame;
+    try {
+      frame = JSON.parse(String(data));
+    } catch (e) {
+      console.error("Error parsing chat socket frame:", e);
+      return;
+    }
+
+    if (frame.id !== undefined) {
+      this.turns.get(frame.id)?.onFrame(frame);
+    } else if (frame.type === "chat.error") {
+      // Not tied to a turn (e.g. a malformed frame); nothing to fail
+      console.error("Chat socket error:", frame.error);
+    }
+  }
+}
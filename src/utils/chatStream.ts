@@ -0,0 +1,166 @@
+import type { ChatStreamEvent } from "@types";
+
+// Reconnects after a dropped connection, each waiting a little longer; reset whenever an event arrives
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_DELAY_MS = 1000;
+
+export const LAST_EVENT_ID_HEADER = "Last-Event-ID";
+export const STREAM_ID_HEADER = "X-Stream-Id";
+
+/**
+ * The server, or BotDojo behind it, is rate limiting this widget
+ */
+export class RateLimitedError extends Error {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = "RateLimitedError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Read the Retry-After header (seconds) of a 429 response
+ */
+export function getRetryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get("Retry-After"));
+  return response.headers.has("Retry-After") && Number.isFinite(seconds) ? seconds : undefined;
+}
+
+/**
+ * Re-open the stream after a dropped connection, sending lastEventId as the Last-Event-ID header
+ */
+export type ChatStreamReconnect = (lastEventId: string) => Promise<Response>;
+
+interface ParsedEvent {
+  id: string | null;
+  event: ChatStreamEvent | null;
+}
+
+/**
+ * Parse one server-sent event block ("id: ...", "event: ...", "data: ..." lines)
+ * The JSON payload carries its own type; the event name is only a fallback.
+ */
+function parseEventBlock(block: string): ParsedEvent {
+  let id: string | null = null;
+  let eventName = "";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith(":")) continue; // comment / heartbeat
+    if (line.startsWith("id:")) {
+      id = line.substring(3).trim();
+    } else if (line.startsWith("event:")) {
+      eventName = line.substring(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.substring(5).replace(/^ /, ""));
+    }
+  }
+
+  if (dataLines.length === 0) return { id, event: null };
+
+  try {
+    const data = JSON.parse(dataLines.join("\n"));
+    if (data && typeof data === "object") {
+      return { id, event: { type: eventName, ...data } as ChatStreamEvent };
+    }
+  } catch (e) {
+    console.error("Error parsing chat stream event:", e);
+  }
+  return { id, event: null };
+}
+
+/**
+ * Read one response body, handing each event (with its id) to onEvent
+ */
+async function readEvents(response: Response, onEvent: (parsed: ParsedEvent) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("Response body is not readable");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() ?? "";
+      blocks.forEach((block) => onEvent(parseEventBlock(block)));
+    }
+
+    if (buffer.trim()) onEvent(parseEventBlock(buffer));
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "AbortError";
+}
+
+/**
+ * Read a /chat/stream response to the end, handing each typed event to onEvent
+ *
+ * When the connection drops before the turn is over ("done", or a text "error"), the stream is
+ * re-opened with the id of the last event received and the server replays what was missed.
+ * Aborts (stop button) and errors thrown by onEvent are never retried.
+ *
+ * @param response - Response of POST /chat/stream
+ * @param onEvent - Called once per event, in order
+ * @param reconnect - Re-opens the stream; without it a dropped connection is an error
+ */
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void,
+  reconnect?: ChatStreamReconnect,
+): Promise<void> {
+  let lastEventId: string | null = null;
+  let finished = false;
+  let attempts = 0;
+  let current: Response | null = response;
+
+  while (true) {
+    if (current) {
+      try {
+        await readEvents(current, ({ id, event }) => {
+          if (id) lastEventId = id;
+          if (!event) return;
+          attempts = 0;
+          if (event.type === "done" || (event.type === "error" && event.source === "text")) {
+            finished = true;
+          }
+          onEvent(event);
+        });
+        if (finished) return;
+      } catch (error) {
+        if (finished || isAbortError(error)) throw error;
+        console.warn("Chat stream interrupted:", error);
+      }
+    }
+
+    if (!reconnect || !lastEventId || attempts >= MAX_RECONNECT_ATTEMPTS) {
+      throw new Error("Chat stream ended before the response was complete");
+    }
+
+    attempts++;
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * attempts));
+
+    try {
+      current = await reconnect(lastEventId);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      current = null; // Still offline; counts as an attempt
+      continue;
+    }
+    if (!current.ok) {
+      // The server no longer holds the stream (expired, restarted or another instance)
+      throw new Error(`Chat stream could not be resumed: ${current.status}`);
+    }
+  }
+}
@@ -1,10 +1,36 @@
 import React from "react";
+import type { FeedbackReason } from "@types";
 
 /**
  * Introduction message displayed when the chat is empty or when starting a new chat
  */
 export const INTRODUCTION_MESSAGE = "**Hi! I'm JAINE, your product discovery sidekick.**\nWhen you need to quickly identify the right product for a client, I'm here to help. Share the health concern, goal, or ingredient preference, and I'll streamline your search so you can make confident, targeted recommendations without digging through the entire catalog.\n\nTell me what your client needs, and I'll do the heavy lifting.";
 
+/**
+ * Maximum number of prior messages (user + bot) sent with each request as conversation history
+ */
+export const CONVERSATION_HISTORY_LIMIT = 10;
+
+/**
+ * Reasons offered with feedback, by what it is about (the server accepts these values only)
+ */
+export const ANSWER_FEEDBACK_REASONS: Array<{ value: FeedbackReason; label: string }> = [
+  { value: "inaccurate", label: "Inaccurate" },
+  { value: "not_relevant", label: "Not relevant" },
+  { value: "incomplete", label: "Incomplete" },
+  { value: "unsafe", label: "Unsafe advice" },
+  { value: "wrong_products", label: "Wrong products" },
+  { value: "other", label: "Other" },
+];
+
+export const PRODUCT_FEEDBACK_REASONS: Array<{ value: FeedbackReason; label: string }> = [
+  { value: "not_relevant", label: "Not relevant" },
+  { value: "contraindicated", label: "Contraindicated" },
+  { value: "wrong_form", label: "Wrong form" },
+  { value: "unavailable", label: "Unavailable" },
+  { value: "other", label: "Other" },
+];
+
 /**
  * Rotating loading texts while waiting for stream to start (supplements bot scope)
  */
@@ -0,0 +1,179 @@
+import type { Message, SavedConversation, SidebarState } from "@types";
+
+const DB_NAME = "chatbot-history";
+const DB_VERSION = 1;
+const STORE_NAME = "conversations";
+const SCOPE_INDEX = "scope";
+
+// Conversations kept per scope; the least recently updated are dropped beyond this
+export const SAVED_CONVERSATIONS_LIMIT = 50;
+
+// Longest auto-derived title
+const TITLE_LENGTH = 60;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Title for a conversation: its first question, on one line and shortened
+ */
+export function deriveConversationTitle(messages: Message[]): string {
+  const firstQuestion = messages.find((msg) => msg.role === "user" && typeof msg.content?.text === "string");
+  const text = (firstQuestion?.content.text as string | undefined)?.replace(/\s+/g, " ").trim() ?? "";
+  if (!text) return "New conversation";
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Messages as they should be reopened: without the typing indicator or loading states of a turn that was still running
+ */
+function toSavedMessages(messages: Message[]): Message[] {
+  return messages
+    .filter((msg) => msg.type !== "typing")
+    .map((msg) => {
+      const saved = { ...msg };
+      delete saved.isLoadingProducts;
+      delete saved.isLoadingSuggestions;
+      delete saved.isLoadingProductInfo;
+      delete saved.progressText;
+      return saved;
+    });
+}
+
+/**
+ * Browser-side conversation history
+ *
+ * Keeps each conversation (messages, suggested questions, product data and sidebar state) in IndexedDB so it
+ * survives reloads and "New Chat". Where IndexedDB is unavailable (private browsing in some browsers, blocked
+ * storage) every method resolves without saving anything, so the chat itself keeps working.
+ */
+export class ConversationHistoryStore {
+  private scope: string;
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * @param scope - Keeps widgets configured for different tenants or accounts on one site apart
+   */
+  constructor(scope: string) {
+    this.scope = scope;
+  }
+
+  /**
+   * Saved conversations, most recently updated first
+   */
+  async list(): Promise<SavedConversation[]> {
+    const db = await this.open();
+    if (!db) return [];
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const conversations = await promisify<SavedConversation[]>(store.index(SCOPE_INDEX).getAll(this.scope));
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<SavedConversation | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const conversation = await promisify<SavedConversation | undefined>(store.get(id));
+    return conversation?.scope === this.scope ? conversation : undefined;
+  }
+
+  /**
+   * Save a conversation's current state, keeping a title the user gave it
+   */
+  async save(id: string, messages: Message[], sidebarState: SidebarState): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    const existing = await promisify<SavedConversation | undefined>(store.get(id));
+    const now = Date.now();
+    const conversation: SavedConversation = {
+      id,
+      scope: this.scope,
+      title: existing?.titleEdited ? existing.title : deriveConversationTitle(messages),
+      titleEdited: existing?.titleEdited,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      messages: toSavedMessages(messages),
+      sidebarState,
+    };
+    store.put(conversation);
+
+    // Drop the oldest conversations beyond the limit
+    const saved = await promisify<SavedConversation[]>(store.index(SCOPE_INDEX).getAll(this.scope));
+    saved
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(SAVED_CONVERSATIONS_LIMIT)
+      .forEach((old) => store.delete(old.id));
+    await transactionDone(transaction);
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    const existing = await promisify<SavedConversation | undefined>(store.get(id));
+    if (existing?.scope === this.scope) {
+      const trimmed = title.replace(/\s+/g, " ").trim();
+      // An empty title goes back to the derived one
+      store.put({
+        ...existing,
+        title: trimmed || deriveConversationTitle(existing.messages),
+        titleEdited: Boolean(trimmed),
+      });
+    }
+    await transactionDone(transaction);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    const existing = await promisify<SavedConversation | undefined>(store.get(id));
+    if (existing?.scope === this.scope) {
+      store.delete(id);
+    }
+    await transactionDone(transaction);
+  }
+
+  close(): void {
+    void this.db?.then((db) => db?.close());
+    this.db = null;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+          store.createIndex(SCOPE_INDEX, "scope");
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error("Conversation history unavailable:", request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+}
@@ -95,14 +95,27 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
     return btoa(binary);
 }
 
+/**
+ * Response header carrying the server's current encryption key id
+ */
+export const ENCRYPTION_KEY_ID_HEADER = 'X-Encryption-Key-Id';
+
+/**
+ * Public key advertised by the backend together with its key id
+ */
+export interface PublicKeyInfo {
+    publicKey: string;
+    kid?: string; // Absent on servers that predate key rotation
+}
+
 /**
  * Fetch the public key from the backend
  * 
  * @param endpoint - Optional API endpoint prefix (e.g., "/api/v1" for prod, "" or "/" for local)
- * @returns Public key in PEM format
+ * @returns Public key in PEM format and its key id
  * @throws Error if fetch fails
  */
-export async function fetchPublicKey(endpoint?: string): Promise<string> {
+export async function fetchPublicKey(endpoint?: string): Promise<PublicKeyInfo> {
     try {
         // Build API URL with endpoint prefix
         const url = endpoint 
@@ -119,7 +132,10 @@ export async function fetchPublicKey(endpoint?: string): Promise<string> {
             throw new Error('Invalid response: publicKey not found or invalid format');
         }
 
-        return data.publicKey;
+        return {
+            publicKey: data.publicKey,
+            kid: typeof data.kid === 'string' ? data.kid : undefined,
+        };
     } catch (error) {
         if (error instanceof TypeError && error.message.includes('fetch')) {
             throw new Error('Network error: Failed to connect to server. Please check your connection.');
@@ -128,16 +144,29 @@ export async function fetchPublicKey(endpoint?: string): Promise<string> {
     }
 }
 
+/**
+ * Generate a random nonce (128 bits, hex encoded)
+ */
+function createNonce(): string {
+    const bytes = window.crypto.getRandomValues(new Uint8Array(16));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Encrypt data using hybrid encryption (AES-GCM + RSA-OAEP)
  * For data larger than RSA limit, uses AES-GCM to encrypt data and RSA to encrypt the AES key
  * 
+ * The plaintext is wrapped as {iat, nonce, payload} so the backend can reject
+ * stale or replayed ciphertext.
+ * 
  * @param data - Data to encrypt (will be JSON stringified if object)
  * @param publicKeyPem - Public key in PEM format
- * @returns Base64-encoded encrypted data (format: "hybrid:" + base64(encryptedAESKey + iv + encryptedData))
+ * @param kid - Optional key id, embedded so the backend knows which private key to use
+ * @returns Base64-encoded encrypted data (format: "hybrid:<kid>:" + base64(encryptedAESKey + iv + encryptedData),
+ *          or "rsa:<kid>:" + base64 for small payloads; without a kid the legacy prefix-less formats are used)
  * @throws Error if encryption fails
  */
-export async function encryptData(data: any, publicKeyPem: string): Promise<string> {
+export async function encryptData(data: any, publicKeyPem: string, kid?: string): Promise<string> {
     if (!publicKeyPem || typeof publicKeyPem !== 'string') {
         throw new Error('Invalid public key: must be a non-empty string');
     }
@@ -145,7 +174,14 @@ export async function encryptData(data: any, publicKeyPem: string): Promise<stri
     try {
         // Convert data to string if it's an object
         const dataString = typeof data === 'string' ? data : JSON.stringify(data);
-        const dataBytes = new TextEncoder().encode(dataString);
+
+        // Embed issued-at and a nonce for replay protection
+        const envelope = JSON.stringify({
+            iat: Math.floor(Date.now() / 1000),
+            nonce: createNonce(),
+            payload: dataString,
+        });
+        const dataBytes = new TextEncoder().encode(envelope);
 
         // Get crypto.subtle API
         const subtle = getCryptoSubtle();
@@ -178,7 +214,7 @@ export async function encryptData(data: any, publicKeyPem: string): Promise<stri
                 publicKey,
                 dataBytes
             );
-            return arrayBufferToBase64(encrypted);
+            return kid ? `rsa:${kid}:${arrayBufferToBase64(encrypted)}` : arrayBufferToBase64(encrypted);
         }
 
         // Large data: use hybrid encryption (AES-GCM + RSA)
@@ -219,7 +255,7 @@ export async function encryptData(data: any, publicKeyPem: string): Promise<stri
             aesKeyBytes
         );
 
-        // 6. Combine: encryptedAESKey (512 bytes) + iv (12 bytes) + encryptedData
+        // 6. Combine: encryptedAESKey (modulus length, 512 bytes for 4096-bit) + iv (12 bytes) + encryptedData
         const encryptedAesKeyArray = new Uint8Array(encryptedAesKey);
         const encryptedDataArray = new Uint8Array(encryptedData);
         const combined = new Uint8Array(encryptedAesKeyArray.length + iv.length + encryptedDataArray.length);
@@ -227,8 +263,8 @@ export async function encryptData(data: any, publicKeyPem: string): Promise<stri
         combined.set(iv, encryptedAesKeyArray.length);
         combined.set(encryptedDataArray, encryptedAesKeyArray.length + iv.length);
 
-        // 7. Return with "hybrid:" prefix to indicate hybrid encryption
-        return 'hybrid:' + arrayBufferToBase64(combined.buffer);
+        // 7. Return with "hybrid:" prefix (and key id) to indicate hybrid encryption
+        return (kid ? `hybrid:${kid}:` : 'hybrid:') + arrayBufferToBase64(combined.buffer);
     } catch (error) {
         // Provide helpful error messages
         if (error instanceof Error) {
@@ -251,7 +287,7 @@ export async function encryptData(data: any, publicKeyPem: string): Promise<stri
  * @param initData - The initData object containing BotDojo config and optional endpoint
  * @returns Encrypted data as base64 string or plain JSON string if encryption unavailable
  */
-let cachedPublicKey: string | null = null;
+let cachedPublicKey: PublicKeyInfo | null = null;
 let cachedEndpoint: string | undefined = undefined;
 let fallbackWarningShown = false;
 
@@ -287,7 +323,7 @@ export async function encryptInitData(initData: any): Promise<string> {
         }
 
         // Encrypt the initData
-        return await encryptData(initData, cachedPublicKey);
+        return await encryptData(initData, cachedPublicKey.publicKey, cachedPublicKey.kid);
     } catch (error) {
         // If encryption fails, clear cache and fall back to plain text
         cachedPublicKey = null;
@@ -322,6 +358,20 @@ export function isEncryptionAvailable(): boolean {
     return isWebCryptoAvailable();
 }
 
+/**
+ * Compare the key id advertised on an API response with the cached public key
+ * and drop the cached key when the server has rotated, so the next request re-fetches it
+ * 
+ * @param response - Any response from the chat API
+ */
+export function syncPublicKeyId(response: Response): void {
+    const kid = response.headers.get(ENCRYPTION_KEY_ID_HEADER);
+    if (kid && cachedPublicKey?.kid && cachedPublicKey.kid !== kid) {
+        cachedPublicKey = null;
+        cachedEndpoint = undefined;
+    }
+}
+
 /**
  * Clear the cached public key
  * Useful for testing or key rotation
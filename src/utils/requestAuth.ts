@@ -0,0 +1,73 @@
+import type { InitData } from "@containers/Chatbot";
+import { encryptInitData } from "./encryption";
+
+/**
+ * Headers and body fields that identify the caller on every chat API request
+ */
+export interface RequestCredentials {
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Whether the widget runs in tenant mode (credentials held by the server's tenant registry)
+ * instead of sending BotDojo and catalog credentials as initData
+ */
+export function isTenantMode(initData: InitData): boolean {
+  return Boolean(initData.TENANT_ID);
+}
+
+/**
+ * Resolve the tenant token; host apps may pass a function so short-lived tokens are re-minted
+ */
+async function resolveTenantToken(initData: InitData): Promise<string> {
+  const token = typeof initData.TENANT_TOKEN === "function"
+    ? await initData.TENANT_TOKEN()
+    : initData.TENANT_TOKEN;
+
+  if (!token) {
+    throw new Error("TENANT_TOKEN is required when TENANT_ID is set");
+  }
+  return token;
+}
+
+/**
+ * Resolve the host token for legacy initData mode, if the host app provides one
+ */
+async function resolveAuthToken(initData: InitData): Promise<string | undefined> {
+  return typeof initData.AUTH_TOKEN === "function"
+    ? await initData.AUTH_TOKEN()
+    : initData.AUTH_TOKEN;
+}
+
+/**
+ * Build the credentials for an API request
+ * - Tenant mode: tenant id in the body, signed tenant token as the bearer
+ * - Legacy mode: encrypted initData in the body, host token (AUTH_TOKEN) as the bearer when provided
+ *
+ * @param initData - Widget configuration
+ * @returns Headers (including Content-Type) and body fields to merge into the request
+ */
+export async function getRequestCredentials(initData: InitData): Promise<RequestCredentials> {
+  if (isTenantMode(initData)) {
+    const token = await resolveTenantToken(initData);
+    return {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: { tenantId: initData.TENANT_ID },
+    };
+  }
+
+  // Encrypt initData before sending; the BotDojo API key only ever travels inside it
+  const encryptedInitData = await encryptInitData({ ...initData, AUTH_TOKEN: undefined });
+  const authToken = await resolveAuthToken(initData);
+  return {
+    headers: {
+      "Content-Type": "application/json",
+      ...(authToken && { "Authorization": `Bearer ${authToken}` }),
+    },
+    body: { initData: encryptedInitData },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * W3C trace context header; the server continues the trace it names, so a chat turn's
+ * BotDojo calls, catalog fetches and cache lookups show up under one trace id
+ */
+export const TRACEPARENT_HEADER = "traceparent";
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * New random trace id (32 hex characters)
+ */
+export function createTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * Build a traceparent header value for a request
+ * Each request gets its own parent span id; requests that belong together (a chat turn and its resumes) share the trace id.
+ * The sampled flag is set, but the server applies its own sampling ratio.
+ *
+ * @param traceId - Trace to join (a new one by default)
+ */
+export function createTraceparent(traceId: string = createTraceId()): string {
+  return `00-${traceId}-${randomHex(8)}-01`;
+}
@@ -27,6 +27,7 @@ export default defineConfig({
       "/health": "http://localhost:3001",
       "/encryption/public-key": "http://localhost:3001",
       '/product-info': 'http://localhost:3001',
+      "/chat": { target: "http://localhost:3001", ws: true },
     },
   },
   build: {